@@ -0,0 +1,30 @@
+// scripts/auto-sign-out.mjs
+// Local runner for the auto sign-out sweeper. Calls the cron route once, or every
+// --every=<minutes> when given (for self-hosted deployments without a platform cron).
+//   ASP_BASE_URL=http://localhost:3000 CRON_SECRET=... npm run sweep -- --every=5
+const base = process.env.ASP_BASE_URL ?? "http://localhost:3000";
+const secret = process.env.CRON_SECRET;
+if (!secret) {
+  console.error("CRON_SECRET is not set.");
+  process.exit(1);
+}
+const everyArg = process.argv.find((a) => a.startsWith("--every="));
+const everyMin = everyArg ? Number(everyArg.slice("--every=".length)) : 0;
+
+async function sweep() {
+  const res = await fetch(`${base}/api/cron/auto-sign-out`, { headers: { Authorization: `Bearer ${secret}` } });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error(`[${new Date().toISOString()}] sweep failed (${res.status}): ${body.error ?? res.statusText}`);
+    return false;
+  }
+  console.log(`[${new Date().toISOString()}] checked ${body.checked} open, closed ${body.closed.length}`);
+  return true;
+}
+
+if (everyMin > 0) {
+  await sweep().catch((e) => console.error(e));
+  setInterval(() => { sweep().catch((e) => console.error(e)); }, everyMin * 60_000);
+} else {
+  process.exit((await sweep()) ? 0 : 1);
+}
@@ -0,0 +1,13 @@
+// scripts/hash-admin-password.mjs
+// Prints an `ASP_ADMINS` entry for one admin: node scripts/hash-admin-password.mjs <username> <password>
+// Format must match hashPassword() in src/lib/server/admin-auth.ts.
+import { randomBytes, scryptSync } from "crypto";
+
+const [username, password] = process.argv.slice(2);
+if (!username || !password) {
+  console.error("Usage: npm run admin:hash -- <username> <password>");
+  process.exit(1);
+}
+const salt = randomBytes(16).toString("hex");
+const hash = scryptSync(password, salt, 32).toString("hex");
+console.log(`${username.trim().toLowerCase()}=scrypt$${salt}$${hash}`);
@@ -0,0 +1,13 @@
+// src/app/api/admin/analytics/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { loadAnalytics, parseAnalyticsRange } from "@/lib/server/analytics";
+import { toResponse } from "@/lib/server/result";
+
+// GET ?range=semester|week|month|year|all|custom&from=YYYY-MM-DD&to=YYYY-MM-DD → { analytics }
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  const range = parseAnalyticsRange(req.nextUrl.searchParams);
+  if (typeof range === 'string') return NextResponse.json({ error: range }, { status: 400 });
+  return toResponse(await loadAnalytics(range), (analytics) => ({ analytics }));
+}
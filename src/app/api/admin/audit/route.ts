@@ -0,0 +1,19 @@
+// src/app/api/admin/audit/route.ts
+import { type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { listAudit } from "@/lib/server/audit";
+import { toResponse } from "@/lib/server/result";
+
+// GET ?cadetId=&action=session.&actor=&before=<created_at>&beforeId=<id>&limit=50
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  const p = req.nextUrl.searchParams;
+  const before = p.get('before'), beforeId = p.get('beforeId');
+  return toResponse(await listAudit({
+    cadetId: p.get('cadetId') || undefined,
+    action: p.get('action') || undefined,
+    actor: p.get('actor') || undefined,
+    before: before && beforeId ? { created_at: before, id: beforeId } : undefined,
+    limit: p.get('limit') ? Number(p.get('limit')) : undefined,
+  }), (entries) => ({ entries }));
+}
@@ -0,0 +1,16 @@
+// src/app/api/admin/cadets/edits/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { parseCadetEdits, saveCadetEdits } from "@/lib/server/admin";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+
+// POST { cadetId, updates: [{ id, sign_in, sign_out }], override?: number | null, acknowledged? }
+// All-or-nothing; the response (success or error) carries per-row `results`.
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { acknowledged?: unknown } | null;
+  const input = parseCadetEdits(body);
+  if (!input) return NextResponse.json({ error: "Invalid edits." }, { status: 400 });
+  return toResponse(await saveCadetEdits(input, admin.username, body?.acknowledged === true));
+}
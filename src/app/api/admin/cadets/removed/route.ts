@@ -0,0 +1,10 @@
+// src/app/api/admin/cadets/removed/route.ts
+import { type NextRequest } from "next/server";
+import { listRemovedCadets } from "@/lib/server/admin";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  return toResponse(await listRemovedCadets(), (cadets) => ({ cadets }));
+}
@@ -0,0 +1,14 @@
+// src/app/api/admin/cadets/restore/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { restoreCadet } from "@/lib/server/admin";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+
+// POST { cadetId } — reverses the cadet's most recent Remove
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { cadetId?: unknown } | null;
+  if (typeof body?.cadetId !== 'string' || !body.cadetId) return NextResponse.json({ error: "Missing cadet." }, { status: 400 });
+  return toResponse(await restoreCadet(body.cadetId, admin.username));
+}
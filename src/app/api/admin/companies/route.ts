@@ -0,0 +1,20 @@
+// src/app/api/admin/companies/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { listCompanies, parseCompany, saveCompany } from "@/lib/server/companies";
+import { toResponse } from "@/lib/server/result";
+
+// GET → { companies } including inactive ones
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  return toResponse(await listCompanies(true), (companies) => ({ companies }));
+}
+
+// PUT { code, display_name, active } — create or update a company
+export async function PUT(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const company = parseCompany(await req.json().catch(() => null));
+  if (typeof company === 'string') return NextResponse.json({ error: company }, { status: 400 });
+  return toResponse(await saveCompany(company, admin.username), (saved) => ({ company: saved }));
+}
@@ -0,0 +1,37 @@
+// src/app/api/admin/devices/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { isDeviceRole, listDevices, registerDevice, revokeDevice, setDeviceCookie } from "@/lib/server/device-auth";
+import { toResponse } from "@/lib/server/result";
+
+export const dynamic = "force-dynamic";
+
+// GET → { devices } including revoked ones
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  return toResponse(await listDevices(), (devices) => ({ devices }));
+}
+
+// POST { role, label } → { device } — sets this browser up as the device (cookie)
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { role?: unknown; label?: unknown } | null;
+  if (!isDeviceRole(body?.role)) return NextResponse.json({ error: "Unknown device role." }, { status: 400 });
+  const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim().slice(0, 80) : null;
+  if (!label) return NextResponse.json({ error: "Name the device (e.g. Room screen)." }, { status: 400 });
+  const result = await registerDevice(body.role, label, admin.username);
+  if (!result.ok) return toResponse(result);
+  const res = NextResponse.json({ device: result.data.device });
+  setDeviceCookie(res, body.role, result.data.token);
+  return res;
+}
+
+// DELETE { id } — revokes the device; its cookie stops working immediately
+export async function DELETE(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { id?: unknown } | null;
+  if (typeof body?.id !== 'string' || !body.id) return NextResponse.json({ error: "Missing device." }, { status: 400 });
+  return toResponse(await revokeDevice(body.id, admin.username), (device) => ({ device }));
+}
@@ -0,0 +1,15 @@
+// src/app/api/admin/duplicates/merge/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { mergeCadets } from "@/lib/server/duplicates";
+import { toResponse } from "@/lib/server/result";
+
+// POST { survivorId, loserIds: string[] }
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { survivorId?: unknown; loserIds?: unknown } | null;
+  const loserIds = Array.isArray(body?.loserIds) ? body.loserIds.filter((x): x is string => typeof x === 'string') : [];
+  if (typeof body?.survivorId !== 'string' || !loserIds.length) return NextResponse.json({ error: "Invalid merge." }, { status: 400 });
+  return toResponse(await mergeCadets(body.survivorId, loserIds, admin.username));
+}
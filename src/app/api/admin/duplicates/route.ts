@@ -0,0 +1,10 @@
+// src/app/api/admin/duplicates/route.ts
+import { type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { listDuplicateGroups } from "@/lib/server/duplicates";
+import { toResponse } from "@/lib/server/result";
+
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  return toResponse(await listDuplicateGroups(), (groups) => ({ groups }));
+}
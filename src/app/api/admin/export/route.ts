@@ -0,0 +1,27 @@
+// src/app/api/admin/export/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { sheetToCsv } from "@/lib/export";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { buildExport, exportFilename, parseExportRequest } from "@/lib/server/exports";
+import { toResponse } from "@/lib/server/result";
+import { toXlsx } from "@/lib/server/xlsx";
+
+export const dynamic = "force-dynamic";
+
+// GET ?report=leaderboard|sessions|awards&format=csv|xlsx&range=&from=&to=&klass=&company=
+// → file download (CSV carries the first sheet only)
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  const request = parseExportRequest(req.nextUrl.searchParams);
+  if (typeof request === 'string') return NextResponse.json({ error: request }, { status: 400 });
+  const sheets = await buildExport(request);
+  if (!sheets.ok) return toResponse(sheets);
+
+  const headers = { 'Content-Disposition': `attachment; filename="${exportFilename(request)}"`, 'Cache-Control': 'no-store' };
+  if (request.format === 'csv') {
+    return new NextResponse(sheetToCsv(sheets.data[0]), { headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' } });
+  }
+  return new NextResponse(new Uint8Array(toXlsx(sheets.data)), {
+    headers: { ...headers, 'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  });
+}
@@ -0,0 +1,13 @@
+// src/app/api/admin/incentives/route.ts
+import { type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+import { saveIncentives } from "@/lib/server/settings";
+
+// PUT { incentives: IncentiveConfig } — replaces all incentive rules
+export async function PUT(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { incentives?: unknown } | null;
+  return toResponse(await saveIncentives(body?.incentives, admin.username), (incentives) => ({ incentives }));
+}
@@ -0,0 +1,18 @@
+// src/app/api/admin/login/route.ts
+import { NextResponse } from "next/server";
+import { adminLoginConfigured, checkAdminCredentials, createAdminToken, setAdminCookie } from "@/lib/server/admin-auth";
+
+export async function POST(req: Request) {
+  if (!adminLoginConfigured()) return NextResponse.json({ error: "Admin login is not configured (ASP_ADMINS / ASP_SESSION_SECRET)." }, { status: 503 });
+
+  const body = (await req.json().catch(() => null)) as { username?: unknown; password?: unknown } | null;
+  const username = typeof body?.username === 'string' ? body.username : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  const user = username && password ? checkAdminCredentials(username, password) : null;
+  if (!user) return NextResponse.json({ error: "Invalid username or password." }, { status: 401 });
+
+  const { token, session } = createAdminToken(user);
+  const res = NextResponse.json({ admin: session });
+  setAdminCookie(res, token);
+  return res;
+}
@@ -0,0 +1,9 @@
+// src/app/api/admin/logout/route.ts
+import { NextResponse } from "next/server";
+import { clearAdminCookie } from "@/lib/server/admin-auth";
+
+export async function POST() {
+  const res = NextResponse.json({ admin: null });
+  clearAdminCookie(res);
+  return res;
+}
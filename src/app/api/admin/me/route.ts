@@ -0,0 +1,7 @@
+// src/app/api/admin/me/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin } from "@/lib/server/admin-auth";
+
+export async function GET(req: NextRequest) {
+  return NextResponse.json({ admin: getAdmin(req) });
+}
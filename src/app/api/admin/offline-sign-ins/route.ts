@@ -0,0 +1,22 @@
+// src/app/api/admin/offline-sign-ins/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+import { listOfflineSignIns, resolveOfflineSignIn } from "@/lib/server/sync";
+
+// GET → { signIns } — offline sign-ins waiting for approval
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  return toResponse(await listOfflineSignIns(), (signIns) => ({ signIns }));
+}
+
+// POST { id, action: 'approve' | 'reject' } → { session }
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { id?: unknown; action?: unknown } | null;
+  if (typeof body?.id !== 'string' || (body.action !== 'approve' && body.action !== 'reject')) {
+    return NextResponse.json({ error: "Invalid request." }, { status: 400 });
+  }
+  return toResponse(await resolveOfflineSignIn(body.id, body.action, admin.username));
+}
@@ -0,0 +1,32 @@
+// src/app/api/admin/redemptions/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { cadetBalance, deleteRedemption, parseRedemption, recordRedemption } from "@/lib/server/redemptions";
+import { toResponse } from "@/lib/server/result";
+
+// GET ?cadetId= → { balance: { earned, redeemed, available } } as enforced on POST
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  const cadetId = req.nextUrl.searchParams.get('cadetId');
+  if (!cadetId) return NextResponse.json({ error: "Missing cadet." }, { status: 400 });
+  return toResponse(await cadetBalance(cadetId), (balance) => ({ balance }));
+}
+
+// POST { cadetId, units, redeemed_on, approver?, note? } → { redemption, balance }; 409 when
+// units exceed the available balance
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const input = parseRedemption(await req.json().catch(() => null));
+  if (typeof input === 'string') return NextResponse.json({ error: input }, { status: 400 });
+  return toResponse(await recordRedemption(input, admin.username));
+}
+
+// DELETE { id } — removes a mistaken entry (kept in the audit log)
+export async function DELETE(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { id?: unknown } | null;
+  if (typeof body?.id !== 'string' || !body.id) return NextResponse.json({ error: "Missing redemption." }, { status: 400 });
+  return toResponse(await deleteRedemption(body.id, admin.username));
+}
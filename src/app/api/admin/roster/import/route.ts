@@ -0,0 +1,19 @@
+// src/app/api/admin/roster/import/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { parseCsvRecords } from "@/lib/csv";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+import { importRoster, parseRosterRecords } from "@/lib/server/roster";
+
+// POST { csv } — columns: name, class_year (or klass), company, cadet_number
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { csv?: unknown } | null;
+  if (typeof body?.csv !== 'string') return NextResponse.json({ error: "Missing CSV." }, { status: 400 });
+
+  const { rows, errors } = parseRosterRecords(parseCsvRecords(body.csv));
+  if (errors.length) return NextResponse.json({ error: errors.slice(0, 10).join(' ') }, { status: 400 });
+  if (!rows.length) return NextResponse.json({ error: "The CSV has no cadets." }, { status: 400 });
+  return toResponse(await importRoster(rows, admin.username));
+}
@@ -0,0 +1,21 @@
+// src/app/api/admin/roster/requests/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+import { listRosterRequests, resolveRosterRequest } from "@/lib/server/roster";
+
+export async function GET(req: NextRequest) {
+  if (!getAdmin(req)) return unauthorized();
+  return toResponse(await listRosterRequests(), (requests) => ({ requests }));
+}
+
+// POST { id, action: 'approve' | 'reject' }
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { id?: unknown; action?: unknown } | null;
+  if (typeof body?.id !== 'string' || (body.action !== 'approve' && body.action !== 'reject')) {
+    return NextResponse.json({ error: "Invalid request." }, { status: 400 });
+  }
+  return toResponse(await resolveRosterRequest(body.id, body.action, admin.username));
+}
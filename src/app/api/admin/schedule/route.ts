@@ -0,0 +1,13 @@
+// src/app/api/admin/schedule/route.ts
+import { type NextRequest } from "next/server";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+import { saveSchedule } from "@/lib/server/settings";
+
+// PUT { schedule: AspSchedule } — replaces the whole schedule
+export async function PUT(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { schedule?: unknown } | null;
+  return toResponse(await saveSchedule(body?.schedule, admin.username), (schedule) => ({ schedule }));
+}
@@ -0,0 +1,43 @@
+// src/app/api/admin/sessions/import/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { parseCsvRecords } from "@/lib/csv";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+import { IMPORT_MAX_ROWS, commitImport, listImportBatches, parseImportRecords, previewImport, voidImportBatch } from "@/lib/server/session-import";
+
+export const dynamic = "force-dynamic";
+
+// GET — recent import batches
+export async function GET(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  return toResponse(await listImportBatches(), (batches) => ({ batches }));
+}
+
+// POST { csv, filename?, commit?: boolean, lines?: number[] } — columns: name, class_year,
+// company, date, sign_in, sign_out (ET). Without `commit` returns the preview { rows };
+// with it, imports the listed lines.
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { csv?: unknown; filename?: unknown; commit?: unknown; lines?: unknown } | null;
+  if (typeof body?.csv !== 'string') return NextResponse.json({ error: "Missing CSV." }, { status: 400 });
+
+  const rows = parseImportRecords(parseCsvRecords(body.csv));
+  if (!rows.length) return NextResponse.json({ error: "The CSV has no rows." }, { status: 400 });
+  if (rows.length > IMPORT_MAX_ROWS) return NextResponse.json({ error: `At most ${IMPORT_MAX_ROWS} rows per import.` }, { status: 400 });
+  if (body.commit !== true) return toResponse(await previewImport(rows), (preview) => ({ rows: preview }));
+
+  const lines = Array.isArray(body.lines) ? body.lines.filter((x): x is number => Number.isInteger(x)) : [];
+  const filename = typeof body.filename === 'string' && body.filename ? body.filename.slice(0, 200) : null;
+  return toResponse(await commitImport(rows, lines, filename, admin.username));
+}
+
+// DELETE { batchId } — void every session from an import
+export async function DELETE(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { batchId?: unknown } | null;
+  if (typeof body?.batchId !== 'string') return NextResponse.json({ error: "Missing batchId." }, { status: 400 });
+  return toResponse(await voidImportBatch(body.batchId, admin.username));
+}
@@ -0,0 +1,16 @@
+// src/app/api/admin/sessions/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { createSession, parseNewSession } from "@/lib/server/admin";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+
+// POST { cadetId, sign_in, sign_out, acknowledged? } — add a session by hand. Answers 422
+// when validation fails; `acknowledged: true` saves despite warnings (errors always block).
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { acknowledged?: unknown } | null;
+  const input = parseNewSession(body);
+  if (!input) return NextResponse.json({ error: "cadetId, sign_in and sign_out are required." }, { status: 400 });
+  return toResponse(await createSession(input, admin.username, body?.acknowledged === true));
+}
@@ -0,0 +1,15 @@
+// src/app/api/admin/sessions/void/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { setSessionsVoided } from "@/lib/server/admin";
+import { getAdmin, unauthorized } from "@/lib/server/admin-auth";
+import { toResponse } from "@/lib/server/result";
+
+// POST { ids: string[], voided: boolean } — void or un-void individual sessions
+export async function POST(req: NextRequest) {
+  const admin = getAdmin(req);
+  if (!admin) return unauthorized();
+  const body = (await req.json().catch(() => null)) as { ids?: unknown; voided?: unknown } | null;
+  const ids = Array.isArray(body?.ids) ? body.ids.filter((x): x is string => typeof x === 'string') : [];
+  if (!ids.length || typeof body?.voided !== 'boolean') return NextResponse.json({ error: "Invalid request." }, { status: 400 });
+  return toResponse(await setSessionsVoided(ids, body.voided, admin.username));
+}
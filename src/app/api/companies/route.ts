@@ -0,0 +1,10 @@
+// src/app/api/companies/route.ts
+import { listCompanies } from "@/lib/server/companies";
+import { toResponse } from "@/lib/server/result";
+
+export const dynamic = "force-dynamic";
+
+// GET → { companies: [{ code, display_name, active, roster_size }] } (active only)
+export async function GET() {
+  return toResponse(await listCompanies(), (companies) => ({ companies }));
+}
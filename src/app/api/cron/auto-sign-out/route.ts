@@ -0,0 +1,19 @@
+// src/app/api/cron/auto-sign-out/route.ts
+// Called by the platform cron (Vercel sends `Authorization: Bearer $CRON_SECRET`) or scripts/auto-sign-out.mjs.
+import { NextResponse } from "next/server";
+import { toResponse } from "@/lib/server/result";
+import { sweepOpenSessions } from "@/lib/server/sweeper";
+
+export const dynamic = "force-dynamic";
+
+function authorized(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+export async function GET(req: Request) {
+  if (!authorized(req)) return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  return toResponse(await sweepOpenSessions());
+}
+
+export const POST = GET;
@@ -0,0 +1,15 @@
+// src/app/api/dashboard/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { cadetDashboard } from "@/lib/server/dashboard";
+import { toResponse } from "@/lib/server/result";
+
+export const dynamic = "force-dynamic";
+
+// GET ?cadetId=&offset= → { dashboard } (offset counts nights of history, newest first)
+export async function GET(req: NextRequest) {
+  const p = req.nextUrl.searchParams;
+  const cadetId = p.get('cadetId');
+  if (!cadetId) return NextResponse.json({ error: "Missing cadet." }, { status: 400 });
+  const offset = Math.max(0, Math.floor(Number(p.get('offset') ?? 0)) || 0);
+  return toResponse(await cadetDashboard(cadetId, offset), (dashboard) => ({ dashboard }));
+}
@@ -0,0 +1,31 @@
+// src/app/api/door/route.ts
+// Only a tablet set up as the door device can use these (see device-auth.ts); they act for any
+// cadet, so they stay limited to lookup and sign-in / sign-out.
+import { NextResponse, type NextRequest } from "next/server";
+import { deviceUnauthorized, getDevice } from "@/lib/server/device-auth";
+import { doorAction, doorStatus, type DoorAction } from "@/lib/server/door";
+import { toResponse } from "@/lib/server/result";
+
+export const dynamic = "force-dynamic";
+
+// GET ?cadetId= or ?cadetNumber= → { status: { cadet, session, tonight_min } }
+// GET (no cadet) → { device: { id, label } } — whether this tablet is set up
+export async function GET(req: NextRequest) {
+  const device = await getDevice(req, 'door');
+  if (!device) return deviceUnauthorized();
+  const p = req.nextUrl.searchParams;
+  const cadetId = p.get('cadetId'), cadetNumber = p.get('cadetNumber');
+  if (!cadetId && !cadetNumber) return NextResponse.json({ device: { id: device.id, label: device.label } });
+  return toResponse(await doorStatus(cadetId ? { cadetId } : { cadetNumber: cadetNumber! }), (status) => ({ status }));
+}
+
+// POST { cadetId, action: 'sign_in' | 'sign_out' } → { status }
+export async function POST(req: NextRequest) {
+  if (!(await getDevice(req, 'door'))) return deviceUnauthorized();
+  const body = (await req.json().catch(() => null)) as { cadetId?: unknown; action?: unknown } | null;
+  const action = body?.action as DoorAction;
+  if (typeof body?.cadetId !== 'string' || (action !== 'sign_in' && action !== 'sign_out')) {
+    return NextResponse.json({ error: "Invalid request." }, { status: 400 });
+  }
+  return toResponse(await doorAction(body.cadetId, action), (status) => ({ status }));
+}
@@ -0,0 +1,9 @@
+// src/app/api/incentives/route.ts
+import { NextResponse } from "next/server";
+import { loadIncentives } from "@/lib/server/settings";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ incentives: await loadIncentives() });
+}
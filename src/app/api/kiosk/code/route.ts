@@ -0,0 +1,15 @@
+// src/app/api/kiosk/code/route.ts
+// Only a screen set up as a room display can read the code (see device-auth.ts).
+import { NextResponse, type NextRequest } from "next/server";
+import { deviceUnauthorized, getDevice } from "@/lib/server/device-auth";
+import { KIOSK_STEP_SEC, currentKioskCode } from "@/lib/server/kiosk";
+
+export const dynamic = "force-dynamic";
+
+// GET → { code, expires_at, step_sec } — the current room code, for the kiosk display
+export async function GET(req: NextRequest) {
+  if (!(await getDevice(req, 'display'))) return deviceUnauthorized();
+  const current = currentKioskCode();
+  if (!current) return NextResponse.json({ error: "Kiosk codes are off. Set ASP_KIOSK_SECRET to require them." }, { status: 404 });
+  return NextResponse.json({ ...current, step_sec: KIOSK_STEP_SEC });
+}
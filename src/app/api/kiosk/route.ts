@@ -0,0 +1,10 @@
+// src/app/api/kiosk/route.ts
+import { NextResponse } from "next/server";
+import { kioskRequired } from "@/lib/server/kiosk";
+
+export const dynamic = "force-dynamic";
+
+// GET → { required } — whether sign-in needs the code from the room display
+export async function GET() {
+  return NextResponse.json({ required: kioskRequired() });
+}
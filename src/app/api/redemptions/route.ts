@@ -0,0 +1,14 @@
+// src/app/api/redemptions/route.ts
+import { type NextRequest } from "next/server";
+import { listRedemptions, redeemedTotals } from "@/lib/server/redemptions";
+import { toResponse } from "@/lib/server/result";
+
+export const dynamic = "force-dynamic";
+
+// GET → { redeemed: { [cadetId]: units } }
+// GET ?cadetId= → { redemptions: [{ id, units, redeemed_on, approver, note, ... }] } (one cadet's ledger)
+export async function GET(req: NextRequest) {
+  const cadetId = req.nextUrl.searchParams.get('cadetId');
+  if (cadetId) return toResponse(await listRedemptions(cadetId), (redemptions) => ({ redemptions }));
+  return toResponse(await redeemedTotals(), (redeemed) => ({ redeemed }));
+}
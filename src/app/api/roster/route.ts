@@ -0,0 +1,15 @@
+// src/app/api/roster/route.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { rosterEnabled, searchRoster } from "@/lib/server/roster";
+
+export const dynamic = "force-dynamic";
+
+// GET ?q=smi&company=G1 → { enabled, cadets: [{ id, name, klass, company }] }
+export async function GET(req: NextRequest) {
+  const enabled = await rosterEnabled();
+  const q = req.nextUrl.searchParams.get('q') ?? '';
+  if (!enabled || !q) return NextResponse.json({ enabled, cadets: [] });
+  const found = await searchRoster(q, req.nextUrl.searchParams.get('company') || undefined);
+  if (!found.ok) return NextResponse.json({ error: found.error }, { status: found.status });
+  return NextResponse.json({ enabled, cadets: found.data });
+}
@@ -0,0 +1,9 @@
+// src/app/api/schedule/route.ts
+import { NextResponse } from "next/server";
+import { loadSchedule } from "@/lib/server/settings";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ schedule: await loadSchedule() });
+}
@@ -0,0 +1,10 @@
+// src/app/api/sessions/open/route.ts
+import { toResponse } from "@/lib/server/result";
+import { openSessions } from "@/lib/server/sessions";
+
+export const dynamic = "force-dynamic";
+
+// GET → { sessions: [{ session_id, cadet_id, name, klass, company, sign_in }] } — who is signed in now
+export async function GET() {
+  return toResponse(await openSessions(), (sessions) => ({ sessions }));
+}
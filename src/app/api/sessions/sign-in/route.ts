@@ -0,0 +1,11 @@
+// src/app/api/sessions/sign-in/route.ts
+import { NextResponse } from "next/server";
+import { toResponse } from "@/lib/server/result";
+import { parseSignInInput, signIn } from "@/lib/server/sessions";
+import { issueSessionToken } from "@/lib/server/sync";
+
+export async function POST(req: Request) {
+  const input = parseSignInInput(await req.json().catch(() => null));
+  if (!input) return NextResponse.json({ error: "Enter your name and class year." }, { status: 400 });
+  return toResponse(await signIn(input), (r) => r.status === 'signed_in' ? { ...r, session_token: issueSessionToken(r.session) } : r);
+}
@@ -0,0 +1,10 @@
+// src/app/api/sessions/sign-out/route.ts
+import { NextResponse } from "next/server";
+import { toResponse } from "@/lib/server/result";
+import { parseSignOutInput, signOut } from "@/lib/server/sessions";
+
+export async function POST(req: Request) {
+  const input = parseSignOutInput(await req.json().catch(() => null));
+  if (!input) return NextResponse.json({ error: "Missing session." }, { status: 400 });
+  return toResponse(await signOut(input), (session) => ({ session }));
+}
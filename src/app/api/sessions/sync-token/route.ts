@@ -0,0 +1,11 @@
+// src/app/api/sessions/sync-token/route.ts
+import { NextResponse } from "next/server";
+import { issueSyncToken } from "@/lib/server/sync";
+
+export const dynamic = "force-dynamic";
+
+// GET → { token, expires_at } — signed while the device is online; sign-ins it queues offline
+// carry it (see sync.ts)
+export async function GET() {
+  return NextResponse.json(issueSyncToken());
+}
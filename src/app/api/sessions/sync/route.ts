@@ -0,0 +1,12 @@
+// src/app/api/sessions/sync/route.ts
+import { NextResponse } from "next/server";
+import { toResponse } from "@/lib/server/result";
+import { parseSyncEvents, syncEvents } from "@/lib/server/sync";
+
+// POST { events: [{ kind: 'sign_in', at, session_id, input } | { kind: 'sign_out', at, session_id }] }
+// → { results } — replays a device's offline queue in order
+export async function POST(req: Request) {
+  const events = parseSyncEvents(await req.json().catch(() => null));
+  if (typeof events === 'string') return NextResponse.json({ error: events }, { status: 400 });
+  return toResponse(await syncEvents(events), (results) => ({ results }));
+}
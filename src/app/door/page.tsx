@@ -0,0 +1,131 @@
+'use client';
+// src/app/door/page.tsx
+// Shared tablet at the ASP room door. Nothing about the cadet is stored on the device: pick a
+// name or scan an ID, sign in or out, and the screen resets for the next cadet. An admin sets
+// the tablet up once; it then runs on its door-only device credential.
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { CadetPicker } from "@/components/cadet-picker";
+import { DeviceSetup } from "@/components/device-setup";
+import { WhoIsIn } from "@/components/who-is-in";
+import { apiGet, apiPost } from "@/lib/api";
+import { TZ, formatHM, type CadetBrief } from "@/lib/asp";
+import type { DoorAction, DoorStatus } from "@/lib/server/door";
+
+const RESET_AFTER_ACTION_SEC = 6;
+const RESET_IDLE_SEC = 30;
+
+const time = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { timeZone: TZ, hour: 'numeric', minute: '2-digit' });
+
+export default function DoorTablet() {
+  const [picked, setPicked] = useState<CadetBrief | null>(null);
+  const [idScan, setIdScan] = useState("");
+  const [status, setStatus] = useState<DoorStatus | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [done, setDone] = useState(false); // an action finished; reset soon
+  const [listKey, setListKey] = useState(0);
+  const [ready, setReady] = useState<boolean | null>(null); // set up as the door device
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const reset = useCallback(() => {
+    setPicked(null); setIdScan(""); setStatus(null); setMessage(null); setDone(false);
+    scanRef.current?.focus();
+  }, []);
+
+  // Back to the start screen after an action, or when a cadet walks away mid-way.
+  useEffect(() => {
+    if (!status && !message) return;
+    const id = window.setTimeout(reset, (done ? RESET_AFTER_ACTION_SEC : RESET_IDLE_SEC) * 1000);
+    return () => window.clearTimeout(id);
+  }, [status, message, done, reset]);
+
+  const checkDevice = useCallback(async () => {
+    const res = await apiGet<{ device: { id: string; label: string } }>('/api/door');
+    setReady(res.ok || res.status !== 401);
+  }, []);
+  useEffect(() => { void checkDevice(); }, [checkDevice]);
+
+  async function lookup(query: string) {
+    setBusy(true);
+    const res = await apiGet<{ status: DoorStatus }>(`/api/door?${query}`);
+    setBusy(false);
+    if (!res.ok) {
+      setStatus(null);
+      if (res.status === 401) { setReady(false); reset(); return; }
+      setMessage(res.error);
+      return;
+    }
+    setMessage(null);
+    setStatus(res.data.status);
+  }
+
+  async function act(action: DoorAction) {
+    if (!status) return;
+    setBusy(true);
+    const res = await apiPost<{ status: DoorStatus }>('/api/door', { cadetId: status.cadet.id, action });
+    setBusy(false);
+    if (!res.ok && res.status === 401) { setReady(false); reset(); return; }
+    setDone(true);
+    if (!res.ok) { setMessage(res.error); return; }
+    setStatus(res.data.status);
+    setMessage(action === 'sign_in' ? `Signed in. Have a great study session, ${res.data.status.cadet.name}!` : `Signed out. Nice work, ${res.data.status.cadet.name}!`);
+    setListKey(n => n + 1);
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-6">
+      <div className="max-w-5xl mx-auto grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="md:col-span-2 shadow-sm">
+          <CardHeader><CardTitle>Athena&rsquo;s Study Parthenon — sign in / out</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            {ready === false ? (
+              <DeviceSetup role="door" defaultLabel="Door tablet" onReady={() => setReady(true)} />
+            ) : !status ? (
+              <>
+                <CadetPicker
+                  value={picked}
+                  onChange={(c) => { setPicked(c); if (c) void lookup(`cadetId=${encodeURIComponent(c.id)}`); }}
+                />
+                <form
+                  onSubmit={(e) => { e.preventDefault(); if (idScan.trim()) void lookup(`cadetNumber=${encodeURIComponent(idScan.trim())}`); }}
+                >
+                  <Input ref={scanRef} autoFocus placeholder="…or scan your ID card" value={idScan} onChange={(e) => setIdScan(e.target.value)} />
+                </form>
+              </>
+            ) : (
+              <div className="space-y-3">
+                <div>
+                  <div className="text-2xl font-semibold">{status.cadet.name}</div>
+                  <div className="text-slate-600">{status.cadet.klass} • {status.cadet.company}</div>
+                </div>
+                <div className="text-slate-700">
+                  {status.session ? `Signed in since ${time(status.session.sign_in)}` : 'Not signed in'} • {formatHM(status.tonight_min)} tonight
+                </div>
+                {!done && (
+                  <div className="flex gap-2">
+                    {status.session ? (
+                      <Button size="lg" variant="destructive" onClick={() => act('sign_out')} disabled={busy}>Sign out</Button>
+                    ) : (
+                      <Button size="lg" onClick={() => act('sign_in')} disabled={busy}>Sign in</Button>
+                    )}
+                    <Button size="lg" variant="ghost" onClick={reset}>Cancel</Button>
+                  </div>
+                )}
+              </div>
+            )}
+            {message && <div className="text-slate-700">{message}</div>}
+            {done && <Button variant="outline" onClick={reset}>Next cadet</Button>}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader><CardTitle className="text-base">In the room</CardTitle></CardHeader>
+          <CardContent><WhoIsIn refreshKey={listKey} /></CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
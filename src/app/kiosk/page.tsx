@@ -0,0 +1,73 @@
+'use client';
+// src/app/kiosk/page.tsx
+// Room display for the ASP study room: a rotating QR code (and the code itself) that cadets
+// scan to sign in. An admin sets the room screen up once; it then runs without the admin login.
+import React, { useEffect, useState } from "react";
+import { DeviceSetup } from "@/components/device-setup";
+import { QrCode } from "@/components/qr-code";
+import { apiGet } from "@/lib/api";
+
+type RoomCode = { code: string; expires_at: string; step_sec: number };
+
+export default function KioskDisplay() {
+  const [room, setRoom] = useState<RoomCode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [setupKey, setSetupKey] = useState(0); // bump to reload after setup
+  const [nowTs, setNowTs] = useState(Date.now());
+
+  // Fetch the code, then again just after it rotates.
+  useEffect(() => {
+    let timer: number | undefined;
+    let cancelled = false; // the fetch can finish after cleanup; don't re-arm then
+    const load = async () => {
+      const res = await apiGet<RoomCode>('/api/kiosk/code');
+      if (cancelled) return;
+      if (!res.ok) {
+        setRoom(null);
+        setNeedsSetup(res.status === 401);
+        setError(res.error);
+        if (res.status !== 401) timer = window.setTimeout(load, 15_000);
+        return;
+      }
+      setNeedsSetup(false);
+      setError(null);
+      setRoom(res.data);
+      timer = window.setTimeout(load, Math.max(1000, new Date(res.data.expires_at).getTime() - Date.now() + 250));
+    };
+    void load();
+    return () => { cancelled = true; window.clearTimeout(timer); };
+  }, [setupKey]);
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNowTs(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const left = room ? Math.max(0, Math.ceil((new Date(room.expires_at).getTime() - nowTs) / 1000)) : 0;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-6 bg-slate-50 p-6 text-center">
+      <div className="text-3xl font-semibold">Athena&rsquo;s Study Parthenon</div>
+      {room ? (
+        <>
+          <div className="text-slate-600">Scan to sign in</div>
+          <div className="rounded-2xl bg-white p-4 shadow-sm">
+            <QrCode value={`${window.location.origin}/?kiosk=${room.code}`} size={320} />
+          </div>
+          <div>
+            <div className="text-xs text-slate-500">or enter the room code</div>
+            <div className="text-5xl font-mono tracking-[0.3em]">{room.code}</div>
+          </div>
+          <div className="w-64 h-1.5 rounded bg-slate-200 overflow-hidden">
+            <div className="h-1.5 bg-slate-800" style={{ width: `${Math.round(100 * left / room.step_sec)}%` }} />
+          </div>
+        </>
+      ) : needsSetup ? (
+        <DeviceSetup role="display" defaultLabel="Room display" onReady={() => setSetupKey(k => k + 1)} />
+      ) : (
+        <div className="text-slate-600">{error ?? "Loading…"}</div>
+      )}
+    </div>
+  );
+}
@@ -1,152 +1,116 @@
 'use client';
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
-import { createClient } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { AlertTriangle, Clock, LogIn, LogOut, Medal, Shield, Trophy } from "lucide-react";
+import { AlertTriangle, Clock, LogIn, LogOut, Medal, Shield, Trophy, User } from "lucide-react";
+import {
+  ALL_KLASSES, TZ, errMsg, etDateKey, formatDateTimeET, formatHM, formatHMS, fromLocalInputET, normalizeName, nyNow,
+  toLocalInputET,
+  type Cadet, type CadetBrief, type Company, type Klass, type Session,
+} from "@/lib/asp";
+import { apiGet, apiPost } from "@/lib/api";
+import { DASHBOARD_NIGHTS, rankWithin, summarizeNights, weeklyTrend, type CadetDashboard as DashboardData } from "@/lib/cadet-stats";
+import { DEFAULT_COMPANY, companyLabel, rankCompanies } from "@/lib/companies";
+import {
+  DEFAULT_INCENTIVES, describeRule, earnedRewards, isUndated, nextReward, rewardBalance, ruleRange, scheduledNightsByRule, withOverride,
+  type IncentiveConfig, type RuleProgress,
+} from "@/lib/incentives";
+import { enqueueEvent, isOffline, pendingEvents, saveSessionToken, syncPending, type QueuedEvent } from "@/lib/offline-queue";
+import { RANGE_KINDS, RANGE_LABELS, rangeBounds, type LeaderboardRange } from "@/lib/leaderboard-range";
+import { useSessionChanges } from "@/lib/realtime";
+import { DEFAULT_SCHEDULE, autoCloseAt, describeWeekly, formatWindowStart, isAspOpen, nextWindowStart, type AspSchedule } from "@/lib/schedule";
+import type { EditRowResult } from "@/lib/server/admin";
+import type { Redemption } from "@/lib/server/redemptions";
+import type { SignInInput } from "@/lib/server/sessions";
+import { describeIssues, validateSessions, type SessionCandidate, type SessionIssue } from "@/lib/session-validation";
+import { repositories, type LeaderboardEntry } from "@/lib/repositories";
+import { hasSupabase } from "@/lib/supabase-browser";
+import { AnalyticsPanel } from "@/components/admin/analytics-panel";
+import { AuditLogPanel } from "@/components/admin/audit-log-panel";
+import { CompaniesPanel } from "@/components/admin/companies-panel";
+import { DevicesPanel } from "@/components/admin/devices-panel";
+import { OfflineSignInsPanel } from "@/components/admin/offline-sign-ins-panel";
+import { IncentivesEditor } from "@/components/admin/incentives-editor";
+import { RedemptionsPanel } from "@/components/admin/redemptions-panel";
+import { DuplicatesPanel } from "@/components/admin/duplicates-panel";
+import { ExportsPanel } from "@/components/admin/exports-panel";
+import { RemovedCadets } from "@/components/admin/removed-cadets";
+import { RosterPanel } from "@/components/admin/roster-panel";
+import { ScheduleEditor } from "@/components/admin/schedule-editor";
+import { SessionImportPanel } from "@/components/admin/session-import-panel";
+import { CadetDashboard } from "@/components/cadet-dashboard";
+import { CadetPicker } from "@/components/cadet-picker";
+import { WhoIsIn } from "@/components/who-is-in";
 
-// ---------- Config / helpers ----------
-const TZ = "America/New_York";
-const TWO_HOURS_MIN = 120;
-const TWO_HOURS_SEC = TWO_HOURS_MIN * 60;
-
-type Klass = '1C' | '2C' | '3C' | '4C';
-const ALL_KLASSES: Klass[] = ['1C','2C','3C','4C'];
 const TABS: Array<'all' | Klass> = ['all', ...ALL_KLASSES];
+const EDIT_PAGE_SIZE = 50;
 
-function nyNow() { return new Date(); }
-
-// ASP hours: Monday & Wednesday 19:30–21:30 ET
-function isAspOpen(date = nyNow()) {
-  const fmt = new Intl.DateTimeFormat("en-US", { timeZone: TZ, weekday: "short", hour: "2-digit", minute: "2-digit", hour12: false });
-  const parts = fmt.formatToParts(date).reduce((acc, p) => { acc[p.type] = p.value; return acc; }, {} as Record<string,string>);
-  const weekday = (parts.weekday || "").toLowerCase();
-  const hour = parseInt(parts.hour || "0", 10);
-  const minute = parseInt(parts.minute || "0", 10);
-  const isMon = weekday.startsWith("mon");
-  const isWed = weekday.startsWith("wed");
-  const minutes = hour * 60 + minute;
-  const start = 19 * 60 + 30;
-  const end = 21 * 60 + 30;
-  return (isMon || isWed) && minutes >= start && minutes < end;
-}
-
-function pad2(n: number) { return n.toString().padStart(2, '0'); }
-function formatHMS(totalSeconds: number) {
-  const h = Math.floor(totalSeconds / 3600);
-  const m = Math.floor((totalSeconds % 3600) / 60);
-  const s = Math.floor(totalSeconds % 60);
-  return `${pad2(h)}:${pad2(m)}:${pad2(s)}`;
+// Edit-panel drafts hold ET wall-clock strings for the datetime-local inputs.
+function toDraft(s: Session): SessionDraft {
+  return { sign_in: toLocalInputET(s.sign_in), sign_out: s.sign_out ? toLocalInputET(s.sign_out) : "" };
 }
-function formatHM(totalMinutes: number) {
-  const h = Math.floor(totalMinutes / 60);
-  const m = Math.floor(totalMinutes % 60);
-  return `${h}h ${m}m`;
+// Unparseable inputs become '' so validation reports them as invalid.
+function draftToCandidate(id: string, d: SessionDraft): SessionCandidate {
+  return { id, sign_in: fromLocalInputET(d.sign_in) ?? '', sign_out: d.sign_out ? fromLocalInputET(d.sign_out) ?? '' : null };
 }
-function msToMin(ms: number) { return Math.max(0, Math.floor(ms / 60000)); }
-function errMsg(e: unknown) { return e instanceof Error ? e.message : String(e); }
-
-// Name normalization: trim, collapse spaces
-function normalizeName(raw: string) {
-  return raw.trim().replace(/\s+/g, " ");
-}
-
-// ET helpers
-function etParts(d: Date) {
-  const fmt = new Intl.DateTimeFormat("en-US", { timeZone: TZ, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", hour12: false });
-  const parts = fmt.formatToParts(d).reduce((acc, p) => { acc[p.type] = p.value; return acc; }, {} as Record<string,string>);
-  return {
-    y: parseInt(parts.year!,10),
-    m: parseInt(parts.month!,10),
-    da: parseInt(parts.day!,10),
-    h: parseInt(parts.hour!,10),
-    mi: parseInt(parts.minute!,10),
-  };
-}
-function etDateKey(d: Date) {
-  const { y,m,da } = etParts(d);
-  return `${y}-${pad2(m)}-${pad2(da)}`; // YYYY-MM-DD (ET)
-}
-function minutesOfDayET(d: Date) {
-  const { h, mi } = etParts(d);
-  return h*60 + mi;
-}
-const ASP_START_MIN = 19*60 + 30; // 1170
-const ASP_END_MIN   = 21*60 + 30; // 1290
-function overlapMinutesET(aStartMin: number, aEndMin: number, bStartMin: number, bEndMin: number) {
-  const a1 = Math.max(aStartMin, bStartMin);
-  const b1 = Math.min(aEndMin, bEndMin);
-  return Math.max(0, b1 - a1);
-}
-
-// ---------- Supabase client ----------
-declare global {
-  interface Window {
-    env?: {
-      NEXT_PUBLIC_SUPABASE_URL?: string;
-      NEXT_PUBLIC_SUPABASE_ANON_KEY?: string;
-      NEXT_PUBLIC_ASP_ADMIN_KEY?: string;
-    };
-  }
-}
-const supabaseUrl =
-  typeof window !== "undefined"
-    ? (window as Window).env?.NEXT_PUBLIC_SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL
-    : process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseKey =
-  typeof window !== "undefined"
-    ? (window as Window).env?.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-    : process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-const hasSupabase = !!(supabaseUrl && supabaseKey);
-const supabase = hasSupabase ? createClient(supabaseUrl!, supabaseKey!) : null;
 
 // ---------- Types ----------
-interface LeaderboardRowDBv1 { name: string; klass: Klass; company: string; total_min: number; }
-interface LeaderboardRowDBv2 extends LeaderboardRowDBv1 { cadet_id: string; }
-
-export type Cadet = {
-  id: string;
-  name: string;
-  klass: Klass;
-  company: string;
-  created_at?: string;
-};
-export type Session = {
-  id: string;
-  cadet_id: string;
-  sign_in: string;          // ISO
-  sign_out: string | null;  // ISO
-  voided?: boolean;
-};
-type OverrideRow = { cadet_id: string; minutes_override: number };
+type AdminSession = { username: string; exp: number };
+type SessionDraft = { sign_in: string; sign_out: string | null };
 
 // ---------- Component ----------
 export default function ASPApp() {
   const [cadet, setCadet] = useState<Cadet | null>(null);
   const [klass, setKlass] = useState<Klass | 'none'>("none");
   const [name, setName] = useState("");
-  const [company, setCompany] = useState("G1");
+  const [company, setCompany] = useState(DEFAULT_COMPANY);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [scope, setScope] = useState<string>('all'); // company code the app is scoped to, or 'all'
+  const [companyRankBy, setCompanyRankBy] = useState<'total' | 'per_capita'>('per_capita');
+  const [rosterEnabled, setRosterEnabled] = useState(false);
+  const [picked, setPicked] = useState<CadetBrief | null>(null);
+  const [requestAccess, setRequestAccess] = useState(false);
+  const [kioskRequired, setKioskRequired] = useState(false);
+  const [roomCode, setRoomCode] = useState(""); // from the room display's QR (?kiosk=) or typed in
   const [activeSession, setActiveSession] = useState<Session | null>(null);
 
-  const [leaderboard, setLeaderboard] = useState<Array<{cadetId?: string; name:string; klass:Klass; company:string; totalMin:number}>>([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [overridesMap, setOverridesMap] = useState<Record<string, number>>({}); // cadet_id -> minutes_override
-
-  const [adminMode, setAdminMode] = useState(false);
-  const [adminKey, setAdminKey] = useState("");
+  const [range, setRange] = useState<LeaderboardRange>({ kind: 'all' });
+  const [boardTab, setBoardTab] = useState<string>('all'); // class tab or 'companies'
+  const rangeRef = useRef(range); // fetchLeaderboard is also called from timers with stale closures
+  const syncRef = useRef(async () => {}); // latest syncOffline, for listeners and timers
+  const [incentives, setIncentives] = useState<IncentiveConfig>(DEFAULT_INCENTIVES);
+  const [rewardProgress, setRewardProgress] = useState<Record<string, Record<string, RuleProgress>>>({}); // cadet_id -> rule id -> progress
+  const [redeemedMap, setRedeemedMap] = useState<Record<string, number>>({}); // cadet_id -> units redeemed
+  const [myRedemptions, setMyRedemptions] = useState<Redemption[]>([]);
+  const [dashRefresh, setDashRefresh] = useState(0); // bumped when the cadet's own sessions change
+  const [pendingSync, setPendingSync] = useState(0); // offline sign-ins/outs waiting in IndexedDB
+
+  const [admin, setAdmin] = useState<AdminSession | null>(null);
+  const [adminUser, setAdminUser] = useState("");
+  const [adminPassword, setAdminPassword] = useState("");
   const [statusMsg, setStatusMsg] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<AspSchedule>(DEFAULT_SCHEDULE);
   const [nowTs, setNowTs] = useState<number>(Date.now());
 
   // Admin editing state
   const [editCadet, setEditCadet] = useState<Cadet | null>(null);
   const [editSessions, setEditSessions] = useState<Session[]>([]);
-  const [editDraft, setEditDraft] = useState<Record<string, {sign_in: string; sign_out: string | null}>>({});
+  const [editDraft, setEditDraft] = useState<Record<string, SessionDraft>>({});
   const [editOverride, setEditOverride] = useState<string>("");
   const [savingEdits, setSavingEdits] = useState(false);
+  const [editHasMore, setEditHasMore] = useState(false);
+  const [editOffset, setEditOffset] = useState(0); // rows fetched from the server so far
+  const [newSession, setNewSession] = useState<{sign_in: string; sign_out: string}>({ sign_in: "", sign_out: "" });
+  const [ackedWarnings, setAckedWarnings] = useState(""); // warningsKey the admin accepted
+  const [serverIssues, setServerIssues] = useState<SessionIssue[]>([]); // from the last rejected save
+  const [removedRefresh, setRemovedRefresh] = useState(0);
 
   // Load cached identity / session
   useEffect(() => {
@@ -156,223 +120,287 @@ export default function ASPApp() {
     if (s) setActiveSession(JSON.parse(s));
   }, []);
 
-  // Live ticker + client auto sign-out at 2h
+  // Live ticker + client auto sign-out at the nightly cap / window end (the server sweeper covers closed tabs)
   useEffect(() => {
     if (!activeSession || activeSession.sign_out) return;
     const intId = window.setInterval(() => setNowTs(Date.now()), 1000);
 
-    const startMs = new Date(activeSession.sign_in).getTime();
-    const end2h = startMs + TWO_HOURS_SEC * 1000;
-    const delay = Math.max(0, end2h - Date.now());
+    const endAt = autoCloseAt(schedule, activeSession).getTime();
+    const delay = Math.max(0, endAt - Date.now());
 
     const toId = window.setTimeout(async () => {
-      const iso = new Date(end2h).toISOString();
-      if (hasSupabase && supabase) {
-        await supabase.from('sessions').update({ sign_out: iso }).eq('id', activeSession.id);
-      } else {
-        const hist = JSON.parse(localStorage.getItem("asp_sessions") || "[]") as Session[];
-        const idx = hist.findIndex(s => s.id === activeSession.id);
-        if (idx>=0) { hist[idx].sign_out = iso; localStorage.setItem("asp_sessions", JSON.stringify(hist)); }
+      // Sign-out is capped the same way behind the repository, so a late-firing timer is harmless.
+      // Offline, or for a sign-in still in the queue, the sign-out queues behind it.
+      const res = await repositories.sessions.signOut(activeSession);
+      if (hasSupabase && (isOffline(res) || (!res.ok && res.status === 404))) {
+        await queueOffline({ kind: 'sign_out', at: new Date(endAt).toISOString(), session_id: activeSession.id, cadet_id: activeSession.cadet_id }).catch(() => undefined);
+        void syncRef.current();
       }
       setActiveSession(null);
       localStorage.removeItem("asp_active_session");
-      setStatusMsg("Auto signed out at 2 hours.");
+      setStatusMsg("Auto signed out (nightly limit or end of session).");
+      setDashRefresh(n => n + 1);
       fetchLeaderboard();
     }, delay);
 
     return () => { window.clearInterval(intId); window.clearTimeout(toId); };
-  }, [activeSession]);
+  }, [activeSession, schedule]);
 
-  // Initial loads
-  useEffect(() => { void fetchLeaderboard(); }, []);
+  // Replay the offline queue on load, when the connection comes back and every 30s while
+  // anything is waiting.
+  useEffect(() => { syncRef.current = syncOffline; });
+  useEffect(() => {
+    if (!hasSupabase) return;
+    void syncRef.current();
+    const onOnline = () => { void syncRef.current(); };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, []);
+  useEffect(() => {
+    if (!pendingSync) return;
+    const id = window.setInterval(() => { void syncRef.current(); }, 30_000);
+    return () => window.clearInterval(id);
+  }, [pendingSync]);
+
+  // Initial loads (and reloads when the leaderboard range changes)
+  useEffect(() => { rangeRef.current = range; void fetchLeaderboard(); }, [range]);
+  // Other cadets' sessions closing (sign-out, auto sign-out, admin edits) change the board.
+  useSessionChanges((changes) => { if (changes.some(c => c.closed || c.event === 'DELETE')) void fetchLeaderboard(); });
+  // Reward progress follows every leaderboard refresh and rule change.
+  useEffect(() => {
+    let stale = false;
+    void loadRewardProgress(incentives).then(next => { if (next && !stale) setRewardProgress(next); });
+    return () => { stale = true; };
+  }, [incentives, leaderboard]);
   useEffect(() => {
-    if (!hasSupabase || !supabase) return;
     (async () => {
-      const { data } = await supabase.from('leaderboard_overrides').select('cadet_id, minutes_override');
-      if (Array.isArray(data)) {
-        const map: Record<string, number> = {};
-        (data as OverrideRow[]).forEach(r => { map[r.cadet_id] = Number(r.minutes_override); });
-        setOverridesMap(map);
-      }
+      const res = await repositories.settings.incentives();
+      if (res.ok) setIncentives(res.data);
+    })();
+  }, []);
+  useEffect(() => {
+    (async () => {
+      const res = await repositories.settings.schedule();
+      if (res.ok) setSchedule(res.data);
+    })();
+  }, []);
+  useEffect(() => { void loadCompanies(); }, []);
+  useEffect(() => {
+    const saved = localStorage.getItem("asp_company");
+    if (saved) { setScope(saved); if (saved !== 'all') setCompany(saved); }
+  }, []);
+  useEffect(() => {
+    (async () => {
+      const res = await repositories.settings.rosterEnabled();
+      if (res.ok) setRosterEnabled(res.data);
+    })();
+  }, []);
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('kiosk');
+    if (code) {
+      setRoomCode(code);
+      params.delete('kiosk');
+      window.history.replaceState(null, '', `${window.location.pathname}${params.size ? `?${params}` : ''}`);
+    }
+    (async () => {
+      const res = await repositories.settings.kioskRequired();
+      if (res.ok) setKioskRequired(res.data);
+    })();
+  }, []);
+  useEffect(() => {
+    (async () => {
+      const res = await repositories.overrides.all();
+      if (res.ok) setOverridesMap(res.data);
     })();
   }, [leaderboard.length]);
+  useEffect(() => { void loadRedemptions(); }, [leaderboard.length]);
+  useEffect(() => {
+    if (!cadet) { setMyRedemptions([]); return; }
+    (async () => {
+      const res = await repositories.redemptions.forCadet(cadet.id);
+      if (res.ok) setMyRedemptions(res.data);
+    })();
+  }, [cadet, redeemedMap]);
 
   // ---------- Data loads ----------
+  async function loadCompanies() {
+    const res = await repositories.settings.companies();
+    if (res.ok) setCompanies(res.data);
+  }
+
+  async function loadRedemptions() {
+    const res = await repositories.redemptions.totals();
+    if (res.ok) setRedeemedMap(res.data);
+  }
+
   async function fetchLeaderboard() {
-    if (hasSupabase && supabase) {
-      const v2 = await supabase.rpc('asp_leaderboard_all_time_v2');
-      if (!v2.error && Array.isArray(v2.data)) {
-        const rows = v2.data as unknown as LeaderboardRowDBv2[];
-        setLeaderboard(rows.map(r => ({
-          cadetId: r.cadet_id,
-          name: r.name,
-          klass: r.klass,
-          company: r.company,
-          totalMin: Math.floor(Number(r.total_min)),
-        })));
-        return;
-      }
+    const current = rangeRef.current;
+    const res = await repositories.sessions.leaderboard(current);
+    if (!res.ok) { setStatusMsg(`Leaderboard failed: ${res.error}`); return; }
+    if (rangeRef.current !== current) return; // range changed while loading
+    setLeaderboard(res.data);
+  }
 
-      const v1 = await supabase.rpc('asp_leaderboard_all_time');
-      if (!v1.error && Array.isArray(v1.data)) {
-        const base = v1.data as unknown as LeaderboardRowDBv1[];
-        const withIds: Array<{cadetId?: string; name:string; klass:Klass; company:string; totalMin:number}> = [];
-        for (const r of base) {
-          const { data: cad } = await supabase
-            .from('cadets')
-            .select('id')
-            .eq('klass', r.klass)
-            .eq('company', r.company)
-            .ilike('name', r.name)
-            .limit(1);
-          const cadId = Array.isArray(cad) && cad.length ? (cad[0] as {id:string}).id : undefined;
-          withIds.push({ cadetId: cadId, name: r.name, klass: r.klass, company: r.company, totalMin: Math.floor(Number(r.total_min)) });
-        }
-        setLeaderboard(withIds);
-        return;
-      }
+  // Per-cadet minutes and nights inside each incentive rule's dates, for earnedRewards().
+  async function loadRewardProgress(config: IncentiveConfig): Promise<Record<string, Record<string, RuleProgress>> | null> {
+    const next: Record<string, Record<string, RuleProgress>> = {};
+    const put = (cadetId: string, ruleId: string, p: RuleProgress) => { (next[cadetId] ??= {})[ruleId] = p; };
+    // Undated rules count the all-time board's minutes (as the server does); nights still come
+    // from the range totals.
+    let allTime: LeaderboardEntry[] = [];
+    if (config.rules.some(isUndated)) {
+      const board = await repositories.sessions.leaderboard({ kind: 'all' });
+      if (!board.ok) { setStatusMsg(`Incentives failed: ${board.error}`); return null; }
+      allTime = board.data;
     }
-
-    // Local fallback (demo only)
-    const raw = JSON.parse(localStorage.getItem("asp_sessions") || "[]") as Session[];
-    const ids = new Set(raw.map(r => r.cadet_id));
-    const rows: Array<{name:string; klass:Klass; company:string; totalMin:number}> = [];
-    ids.forEach(id => {
-      const c = JSON.parse(localStorage.getItem(`asp_current_cadet_${id}`) || "null") as Cadet | null;
-      if (!c) return;
-      const total = raw.filter(s => s.cadet_id === id)
-        .reduce((acc, s) => acc + msToMin(new Date(s.sign_out ?? new Date()).getTime() - new Date(s.sign_in).getTime()), 0);
-      rows.push({ name: c.name, klass: c.klass, company: c.company, totalMin: total });
-    });
-    rows.sort((a,b) => b.totalMin - a.totalMin);
-    setLeaderboard(rows);
+    for (const rule of config.rules) {
+      const { from, to } = rangeBounds(ruleRange(rule));
+      const res = await repositories.sessions.rangeTotals(from, to);
+      if (!res.ok) { setStatusMsg(`Incentives failed: ${res.error}`); return null; }
+      for (const r of res.data) put(r.cadet_id, rule.id, { minutes: r.total_min, nights: r.nights });
+      if (!isUndated(rule)) continue;
+      for (const r of allTime) if (r.cadetId) put(r.cadetId, rule.id, { minutes: r.totalMin, nights: next[r.cadetId]?.[rule.id]?.nights ?? 0 });
+    }
+    return next;
   }
 
   // ---------- Identity / session utils ----------
   function saveLocalCadet(c: Cadet) {
     localStorage.setItem("asp_current_cadet", JSON.stringify(c));
-    localStorage.setItem(`asp_current_cadet_${c.id}`, JSON.stringify(c));
   }
 
-  function minutesTonightET(sessions: Session[], now: Date): number {
-    const tonightKey = etDateKey(now);
-    let sum = 0;
-    for (const s of sessions) {
-      const sin = new Date(s.sign_in);
-      const sout = new Date(s.sign_out ?? now);
-      if (etDateKey(sin) !== tonightKey) continue;
-      const a = minutesOfDayET(sin);
-      const b = minutesOfDayET(sout);
-      const seg = overlapMinutesET(a, b, ASP_START_MIN, ASP_END_MIN);
-      sum += seg;
-    }
-    return Math.min(sum, TWO_HOURS_MIN);
+  // ---------- Offline queue ----------
+  async function queueOffline(event: QueuedEvent) {
+    await enqueueEvent(event);
+    setPendingSync(n => n + 1);
   }
 
-  // ---------- Handlers ----------
-  async function handleSignIn() {
-    if (!name || klass === 'none') { setStatusMsg("Enter your name and class year."); return; }
-    if (!isAspOpen(nyNow())) { setStatusMsg("ASP is closed right now (Mon/Wed 19:30–21:30 ET)."); return; }
-
-    const canonicalName = normalizeName(name);
-    const c: Cadet = { id: crypto.randomUUID(), name: canonicalName, klass: klass as Klass, company };
-
-    if (hasSupabase && supabase) {
-      // 1) Find existing cadet (exact normalized match first, then case-insensitive)
-      let resolvedId: string | null = null;
-      const exact = await supabase.from('cadets').select('id,name,klass,company').eq('name', canonicalName).eq('klass', c.klass).eq('company', c.company).maybeSingle();
-      if (!exact.error && exact.data) {
-        resolvedId = (exact.data as {id:string}).id;
-      } else {
-        const ci = await supabase.from('cadets').select('id,name,klass,company').ilike('name', canonicalName).eq('klass', c.klass).eq('company', c.company).limit(1);
-        if (!ci.error && Array.isArray(ci.data) && ci.data.length) resolvedId = (ci.data[0] as {id:string}).id;
+  function replaceActiveSession(sessionId: string, next: Session | null) {
+    setActiveSession(s => (s?.id === sessionId ? next : s));
+    const stored = JSON.parse(localStorage.getItem("asp_active_session") || "null") as Session | null;
+    if (stored?.id !== sessionId) return;
+    if (next) localStorage.setItem("asp_active_session", JSON.stringify(next));
+    else localStorage.removeItem("asp_active_session");
+  }
+
+  // Sends queued events and applies the server's answers: a merged sign-in takes the server's
+  // session (and cadet, for a typed name), a rejected one is removed from this device, and a
+  // held one stays signed in here until an admin decides.
+  async function syncOffline() {
+    const synced = await syncPending().catch(() => null);
+    setPendingSync((await pendingEvents().catch(() => [])).length);
+    if (!synced?.length) return;
+
+    const problems: string[] = [];
+    for (const { event, result } of synced) {
+      const when = formatDateTimeET(event.at);
+      if (result.status === 'rejected') {
+        problems.push(`${event.kind === 'sign_in' ? 'Sign-in' : 'Sign-out'} at ${when} was not recorded: ${result.error}`);
+        if (event.kind === 'sign_in') replaceActiveSession(event.session_id, null);
+        continue;
       }
-      if (resolvedId) c.id = resolvedId;
-
-      // 2) Upsert (also normalizes stored name to canonical)
-      const { error: cadetErr } = await supabase
-        .from('cadets')
-        .upsert({ id: c.id, name: canonicalName, klass: c.klass, company: c.company }, { onConflict: 'id' });
-      if (cadetErr) { setStatusMsg(`Cadet save failed: ${cadetErr.message}`); return; }
-
-      // 3) If there is an already open session → resume (prevents overlap)
-      const open = await supabase
-        .from('sessions').select('id,cadet_id,sign_in,sign_out').eq('cadet_id', c.id).is('sign_out', null).maybeSingle();
-      if (!open.error && open.data) {
-        const existing = open.data as Session;
-        setCadet(c); saveLocalCadet(c);
-        setActiveSession(existing);
-        localStorage.setItem("asp_active_session", JSON.stringify(existing));
-        setStatusMsg("Resumed your active session.");
-        void fetchLeaderboard();
-        return;
+      if (result.status === 'pending') {
+        if (event.kind === 'sign_in') problems.push(`Sign-in at ${when} was recorded offline and is waiting for an admin to approve it.`);
+        continue;
       }
-
-      // 4) Guard: if they already hit 120 min in tonight’s window, block another sign-in
-      const since = new Date(Date.now() - 36*60*60*1000).toISOString();
-      const recent = await supabase
-        .from('sessions')
-        .select('id,cadet_id,sign_in,sign_out,voided')
-        .eq('cadet_id', c.id)
-        .eq('voided', false)
-        .gte('sign_in', since)
-        .order('sign_in', { ascending: false });
-
-      if (!recent.error && Array.isArray(recent.data)) {
-        const mins = minutesTonightET(recent.data as Session[], nyNow());
-        if (mins >= TWO_HOURS_MIN) {
-          setStatusMsg("You’ve already logged 2 hours tonight. See you next time!");
-          return;
-        }
+      if (result.session_token) saveSessionToken(event.session_id, result.session_token);
+      if (event.kind !== 'sign_in' || !result.session) continue;
+      replaceActiveSession(event.session_id, result.session.sign_out ? null : result.session);
+      const serverCadet = result.cadet;
+      if (serverCadet && serverCadet.id !== event.cadet_id) {
+        setCadet(c => (c?.id === event.cadet_id ? serverCadet : c));
+        const stored = JSON.parse(localStorage.getItem("asp_current_cadet") || "null") as Cadet | null;
+        if (stored?.id === event.cadet_id) saveLocalCadet(serverCadet);
       }
+    }
+    setStatusMsg(problems.length ? problems.join(' ') : `Synced ${synced.length} offline change${synced.length === 1 ? '' : 's'}.`);
+    setDashRefresh(n => n + 1);
+    void fetchLeaderboard();
+  }
 
-      // 5) Create new session
-      const nowIso = new Date().toISOString();
-      const inserted = await supabase
-        .from('sessions')
-        .insert({ id: crypto.randomUUID(), cadet_id: c.id, sign_in: nowIso, sign_out: null })
-        .select()
-        .single();
-      if (inserted.error || !inserted.data) { setStatusMsg(`Sign-in failed: ${inserted.error?.message ?? 'unknown error'}`); return; }
-
-      const newSession = inserted.data as Session;
-      setCadet(c); saveLocalCadet(c);
-      setActiveSession(newSession);
-      localStorage.setItem("asp_active_session", JSON.stringify(newSession));
-      setStatusMsg("Signed in. Have a great study session!");
-      void fetchLeaderboard();
+  // No connection (or older events still queued): sign in on this device and queue it.
+  async function signInOffline(input: SignInInput, rosterCadet: CadetBrief | null) {
+    const typed = { name: normalizeName(name), klass: klass as Klass, company };
+    const known = cadet && cadet.name.toLowerCase() === typed.name.toLowerCase() && cadet.klass === typed.klass && cadet.company === typed.company ? cadet : null;
+    const c: Cadet = rosterCadet ?? known ?? { id: crypto.randomUUID(), ...typed }; // provisional id until synced
+    const session: Session = { id: crypto.randomUUID(), cadet_id: c.id, sign_in: new Date().toISOString(), sign_out: null };
+    try {
+      await queueOffline({ kind: 'sign_in', at: session.sign_in, session_id: session.id, input, cadet_id: c.id });
+    } catch {
+      setStatusMsg("You’re offline and this browser can’t store sign-ins. Try again once you’re connected.");
+      return;
+    }
+    setCadet(c); saveLocalCadet(c);
+    setActiveSession(session);
+    localStorage.setItem("asp_active_session", JSON.stringify(session));
+    setStatusMsg(navigator.onLine ? "Signed in. Syncing…" : "You’re offline. Signed in on this device; it will sync when you’re back online.");
+    void syncOffline();
+  }
+
+  // ---------- Handlers ----------
+  async function handleSignIn() {
+    const byRoster = rosterEnabled && picked && !requestAccess;
+    if (!byRoster && (!name || klass === 'none')) {
+      setStatusMsg(rosterEnabled ? "Pick your name from the roster." : "Enter your name and class year.");
+      return;
+    }
+    if (!isAspOpen(schedule, nyNow())) {
+      setStatusMsg(`ASP is closed right now (${describeWeekly(schedule)}).`);
       return;
     }
 
-    // Local fallback
-    const hist = JSON.parse(localStorage.getItem("asp_sessions") || "[]") as Session[];
-    const nowIso = new Date().toISOString();
-    const newSession: Session = { id: crypto.randomUUID(), cadet_id: c.id, sign_in: nowIso, sign_out: null };
-    hist.push(newSession);
-    localStorage.setItem("asp_sessions", JSON.stringify(hist));
+    // Resolve cadet, resume/guard and insert all happen behind the repository (server-side with Supabase).
+    const kioskCode = roomCode.trim() || undefined;
+    const input: SignInInput = byRoster ? { cadetId: picked.id, kioskCode } : { name, klass: klass as Klass, company, kioskCode };
+    // Queued events go first, so while any are waiting this one queues behind them.
+    const res = pendingSync ? null : await repositories.sessions.signIn(input);
+    if ((!res || isOffline(res)) && !(rosterEnabled && requestAccess)) {
+      await signInOffline(input, byRoster ? picked : null);
+      return;
+    }
+    if (!res) { setStatusMsg("Offline changes are still syncing. Try again in a moment."); return; }
+    if (!res.ok) {
+      if (res.body?.kiosk) setRoomCode(""); // expired or wrong: scan again
+      setStatusMsg(res.error);
+      return;
+    }
+    if (res.data.status === 'queued') {
+      setStatusMsg("You’re not on the roster yet — your name was sent to the admins for approval.");
+      return;
+    }
+
+    const { cadet: c, session } = res.data;
+    if (res.data.session_token) saveSessionToken(session.id, res.data.session_token);
     setCadet(c); saveLocalCadet(c);
-    setActiveSession(newSession);
-    localStorage.setItem("asp_active_session", JSON.stringify(newSession));
-    setStatusMsg("Signed in (local mode).");
+    setActiveSession(session);
+    localStorage.setItem("asp_active_session", JSON.stringify(session));
+    setStatusMsg(res.data.status === 'resumed' ? "Resumed your active session." : "Signed in. Have a great study session!");
+    setDashRefresh(n => n + 1);
     void fetchLeaderboard();
   }
 
   async function handleSignOut() {
     if (!activeSession) return;
-    const nowIso = new Date().toISOString();
-
-    if (hasSupabase && supabase) {
-      const { error } = await supabase.from('sessions').update({ sign_out: nowIso }).eq('id', activeSession.id).select().single();
-      if (error) { setStatusMsg(`Sign-out failed: ${error.message}`); return; }
-    } else {
-      const hist = JSON.parse(localStorage.getItem("asp_sessions") || "[]") as Session[];
-      const idx = hist.findIndex(s => s.id === activeSession.id);
-      if (idx >= 0) { hist[idx].sign_out = nowIso; localStorage.setItem("asp_sessions", JSON.stringify(hist)); }
+
+    const res = pendingSync ? null : await repositories.sessions.signOut(activeSession);
+    if (!res || isOffline(res)) {
+      try {
+        await queueOffline({ kind: 'sign_out', at: new Date().toISOString(), session_id: activeSession.id, cadet_id: activeSession.cadet_id });
+      } catch {
+        setStatusMsg("Sign-out failed: you’re offline and this browser can’t store it.");
+        return;
+      }
+      void syncOffline();
+    } else if (!res.ok) {
+      setStatusMsg(`Sign-out failed: ${res.error}`);
+      return;
     }
 
     setActiveSession(null);
     localStorage.removeItem("asp_active_session");
     setStatusMsg("Signed out. Nice work!");
+    setDashRefresh(n => n + 1);
     void fetchLeaderboard();
   }
 
@@ -381,146 +409,238 @@ export default function ASPApp() {
     const start = new Date(activeSession.sign_in).getTime();
     const end = activeSession.sign_out ? new Date(activeSession.sign_out).getTime() : nowTs;
     const sec = Math.max(0, Math.floor((end - start) / 1000));
-    return Math.min(sec, TWO_HOURS_SEC);
+    return Math.min(sec, schedule.nightly_cap_min * 60);
   }
 
-  // ---------- Admin key guard ----------
-  const ADMIN_KEY = (process.env.NEXT_PUBLIC_ASP_ADMIN_KEY ?? '').trim();
+  // ---------- Admin session (server-verified cookie) ----------
   useEffect(() => {
-    if (typeof window !== 'undefined' && localStorage.getItem('asp_admin_unlocked') === '1') {
-      setAdminMode(true);
-    }
+    (async () => {
+      const res = await apiGet<{ admin: AdminSession | null }>('/api/admin/me');
+      if (res.ok) setAdmin(res.data.admin);
+    })();
   }, []);
-  useEffect(() => {
-    const entered = adminKey.trim();
-    if (entered && ADMIN_KEY && entered === ADMIN_KEY) {
-      setAdminMode(true);
-      if (typeof window !== 'undefined') localStorage.setItem('asp_admin_unlocked', '1');
-    }
-  }, [adminKey, ADMIN_KEY]);
-  function disableAdmin() {
-    setAdminMode(false);
-    setAdminKey('');
-    if (typeof window !== 'undefined') localStorage.removeItem('asp_admin_unlocked');
+  async function loginAdmin() {
+    if (!adminUser.trim() || !adminPassword) { setStatusMsg('Enter admin username and password.'); return; }
+    const res = await apiPost<{ admin: AdminSession }>('/api/admin/login', { username: adminUser, password: adminPassword });
+    setAdminPassword('');
+    if (!res.ok) { setStatusMsg(`Admin login failed: ${res.error}`); return; }
+    setAdmin(res.data.admin);
+    setStatusMsg(`Admin signed in as ${res.data.admin.username}.`);
+  }
+  async function disableAdmin() {
+    await apiPost('/api/admin/logout', {});
+    setAdmin(null);
+    cancelEdits();
     setStatusMsg('Admin disabled.');
   }
+  // Any 401 from an admin route means the cookie expired or was never valid.
+  // Stable identity: admin panels use it as an effect dependency.
+  const adminFailed = useCallback((res: { status: number; error: string }, prefix: string) => {
+    if (res.status === 401) setAdmin(null);
+    setStatusMsg(`${prefix}: ${res.error}`);
+  }, []);
+
+  function changeScope(next: string) {
+    setScope(next);
+    localStorage.setItem("asp_company", next);
+    if (next !== 'all') setCompany(next);
+  }
 
   // ---------- Derived UI values ----------
-  const openNow = isAspOpen(nyNow());
+  const scopeLabel = scope !== 'all' ? companyLabel(companies, scope)
+    : companies.length > 1 ? 'All companies'
+    : companies[0]?.display_name ?? companyLabel([], DEFAULT_COMPANY);
+  const todayKey = etDateKey(nyNow());
+  const scheduledNights = useMemo(() => scheduledNightsByRule(incentives, schedule, todayKey), [incentives, schedule, todayKey]);
+  // Earned / redeemed / available rewards for one cadet (the server enforces the same
+  // calculation when an admin records a redemption).
+  const balanceFor = useCallback((cadetId: string | undefined, k: Klass) => {
+    const progress = cadetId ? rewardProgress[cadetId] ?? {} : {};
+    const override = cadetId ? overridesMap[cadetId] : undefined;
+    const earned = earnedRewards(incentives, k, withOverride(incentives, progress, override), scheduledNights).units;
+    return rewardBalance(earned, cadetId ? redeemedMap[cadetId] ?? 0 : 0);
+  }, [incentives, rewardProgress, overridesMap, redeemedMap, scheduledNights]);
+  // Leaderboard rows with overrides applied (overrides are all-time totals, so only on the all-time board).
+  // Ranking stays on minutes; the rewards column shows what is left after redemptions.
+  const boardRows = useMemo(() => leaderboard.map(r => {
+    const override = range.kind === 'all' && r.cadetId ? overridesMap[r.cadetId] : undefined;
+    return { ...r, total: typeof override === 'number' ? override : r.totalMin, balance: balanceFor(r.cadetId, r.klass) };
+  }), [leaderboard, overridesMap, range.kind, balanceFor]);
+  const scopedRows = scope === 'all' ? boardRows : boardRows.filter(r => r.company === scope);
+  // Demo mode: the cadet dashboard built from the local repositories (the server builds it otherwise).
+  const buildLocalDashboard = useCallback(async (offset: number): Promise<DashboardData | null> => {
+    if (!cadet) return null;
+    const [board, own] = await Promise.all([repositories.sessions.leaderboard({ kind: 'all' }), repositories.sessions.forCadet(cadet.id)]);
+    if (!board.ok || !own.ok) return null;
+    const rows = board.data.map(r => ({ cadetId: r.cadetId, klass: r.klass, company: r.company, total: r.totalMin }));
+    const mine = own.data.filter(s => !s.voided);
+    const nights = summarizeNights(mine, schedule);
+    return {
+      cadet, total_min: board.data.find(r => r.cadetId === cadet.id)?.totalMin ?? 0, overridden: false,
+      rank: rankWithin(rows, cadet),
+      weekly: weeklyTrend(mine, schedule),
+      nights: nights.slice(offset, offset + DASHBOARD_NIGHTS),
+      has_more: nights.length > offset + DASHBOARD_NIGHTS,
+      balance: balanceFor(cadet.id, cadet.klass),
+      next: nextReward(incentives, cadet.klass, rewardProgress[cadet.id] ?? {}, todayKey),
+    };
+  }, [cadet, schedule, incentives, rewardProgress, balanceFor, todayKey]);
+  const companyStandings = useMemo(() => rankCompanies(boardRows, companies, companyRankBy), [boardRows, companies, companyRankBy]);
+  const openNow = isAspOpen(schedule, nyNow());
   const nextWindow = useMemo(() => {
-    const now = nyNow();
-    const targetDays = [1, 3]; // Mon, Wed
-    const candidates: Date[] = [];
-    for (let add = 0; add < 8; add++) {
-      const d = new Date(now); d.setDate(now.getDate() + add);
-      const dow = d.getDay();
-      if (targetDays.includes(dow)) { const dt = new Date(d); dt.setHours(19,30,0,0); candidates.push(dt); }
-    }
-    const upcoming = candidates.find(d => d.getTime() > now.getTime()) || candidates[0];
-    const fmt = new Intl.DateTimeFormat('en-US', { timeZone: TZ, weekday:'long', month:'short', day:'numeric', hour:'numeric', minute:'2-digit' });
-    return fmt.format(upcoming);
-  }, []);
-
-  const userTotalLocal = (() => {
-    if (!cadet) return 0;
-    const sessions = JSON.parse(localStorage.getItem("asp_sessions") || "[]") as Session[];
-    return sessions
-      .filter(s => s.cadet_id === cadet.id)
-      .reduce((acc, s) => acc + msToMin(new Date(s.sign_out ?? new Date()).getTime() - new Date(s.sign_in).getTime()), 0);
-  })();
+    const upcoming = nextWindowStart(schedule, nyNow());
+    return upcoming ? formatWindowStart(upcoming) : 'Not scheduled';
+  }, [schedule]);
+
+  // Edit panel validation: every loaded row is checked and flagged inline, but only
+  // edited rows block saving.
+  const editCheck = useMemo(() => {
+    const original = new Map(editSessions.map(s => [s.id, toDraft(s)]));
+    const changed = new Set(Object.entries(editDraft).filter(([id, v]) => {
+      const o = original.get(id);
+      return !o || o.sign_in !== v.sign_in || (o.sign_out ?? "") !== (v.sign_out ?? "");
+    }).map(([id]) => id));
+    const candidates = editSessions.filter(s => !s.voided).map(s => editDraft[s.id] ? draftToCandidate(s.id, editDraft[s.id]) : s);
+    const issues = editCadet ? validateSessions(schedule, candidates) : [];
+    const blocking = issues.filter(i => changed.has(i.session_id));
+    const newIssues = editCadet && (newSession.sign_in || newSession.sign_out)
+      ? validateSessions(schedule, [...candidates, draftToCandidate('new', newSession)], { only: new Set(['new']) })
+      : [];
+    return {
+      changed, issues, newIssues,
+      errors: blocking.filter(i => i.severity === 'error'),
+      warnings: blocking.filter(i => i.severity === 'warning'),
+    };
+  }, [editCadet, editSessions, editDraft, newSession, schedule]);
+  const warningsKey = editCheck.warnings.map(i => `${i.session_id}:${i.code}`).join('|');
+  const warningsAcked = !warningsKey || ackedWarnings === warningsKey;
 
   // ---------- Admin edit flow ----------
-  type CadBrief = { id: string; name: string; klass: Klass; company: string };
 
   async function openEditForLeaderboardRow(row: {cadetId?:string; name:string; klass:Klass; company:string}) {
-    if (!hasSupabase || !supabase) { setStatusMsg("Editing requires Supabase."); return; }
-
-    // Resolve cadet id
-    let cadId = row.cadetId;
-    if (!cadId) {
-      const { data: exact } = await supabase
-        .from('cadets').select('id,name,klass,company')
-        .eq('name', row.name).eq('klass', row.klass).eq('company', row.company).limit(1);
-      if (Array.isArray(exact) && exact.length) cadId = (exact[0] as {id:string}).id;
-      if (!cadId) {
-        const { data: ci } = await supabase
-          .from('cadets').select('id,name,klass,company')
-          .ilike('name', row.name).eq('klass', row.klass).eq('company', row.company).limit(1);
-        if (Array.isArray(ci) && ci.length) cadId = (ci[0] as {id:string}).id;
-      }
-    }
-    if (!cadId) { setStatusMsg("Could not resolve cadet id."); return; }
-
-    // Load cadet
-    const { data: cadRow } = await supabase.from('cadets').select('id,name,klass,company').eq('id', cadId).maybeSingle();
-    if (!cadRow) { setStatusMsg("Cadet not found."); return; }
-    const cad = cadRow as CadBrief;
-
-    // Load recent sessions
-    const { data: sess, error } = await supabase
-      .from('sessions')
-      .select('id,cadet_id,sign_in,sign_out,voided')
-      .eq('cadet_id', cad.id)
-      .order('sign_in', { ascending: false })
-      .limit(50);
-    if (error) { setStatusMsg(`Load sessions failed: ${error.message}`); return; }
-    const typed = (sess ?? []) as Session[];
-
-    // Load existing override (if any)
-    let overrideVal = "";
-    const { data: ov } = await supabase
-      .from('leaderboard_overrides')
-      .select('minutes_override')
-      .eq('cadet_id', cad.id)
-      .maybeSingle();
-    if (ov && typeof (ov as {minutes_override:number}).minutes_override !== "undefined") {
-      overrideVal = String((ov as {minutes_override:number}).minutes_override);
-    }
+    const cadId = await repositories.cadets.resolveId(row);
+    if (!cadId.ok) { setStatusMsg(`Load cadet failed: ${cadId.error}`); return; }
+    if (!cadId.data) { setStatusMsg("Could not resolve cadet id."); return; }
+    const found = await repositories.cadets.get(cadId.data);
+    if (!found.ok || !found.data) { setStatusMsg("Cadet not found."); return; }
+    const cad = found.data;
+
+    // Recent sessions and the existing override (if any)
+    const typed = await loadEditPage(cad.id, 0);
+    if (!typed) return;
+    setEditOffset(typed.length);
+    const ov = await repositories.overrides.get(cad.id);
+    const overrideVal = ov.ok && ov.data !== null ? String(ov.data) : "";
 
     setEditCadet({ id: cad.id, name: cad.name, klass: cad.klass, company: cad.company });
     setEditSessions(typed);
-    const draft: Record<string, {sign_in:string; sign_out:string | null}> = {};
-    typed.forEach(s => {
-      const sin = new Date(s.sign_in); const sout = s.sign_out ? new Date(s.sign_out) : null;
-      const fmt = (d: Date) => {
-        const y = d.getFullYear(); const m = pad2(d.getMonth()+1); const da = pad2(d.getDate());
-        const h = pad2(d.getHours()); const mi = pad2(d.getMinutes());
-        return `${y}-${m}-${da}T${h}:${mi}`;
-      };
-      draft[s.id] = { sign_in: fmt(sin), sign_out: sout ? fmt(sout) : "" };
-    });
+    const draft: Record<string, SessionDraft> = {};
+    typed.filter(s => !s.voided).forEach(s => { draft[s.id] = toDraft(s); });
     setEditDraft(draft);
     setEditOverride(overrideVal);
+    setServerIssues([]);
+    setNewSession({ sign_in: "", sign_out: "" });
+  }
+
+  // One page of a cadet's sessions, newest first. Returns null (after reporting) on error.
+  async function loadEditPage(cadetId: string, offset: number): Promise<Session[] | null> {
+    const res = await repositories.sessions.forCadet(cadetId, { offset, limit: EDIT_PAGE_SIZE });
+    if (!res.ok) { setStatusMsg(`Load sessions failed: ${res.error}`); return null; }
+    const rows = res.data;
+    setEditHasMore(rows.length === EDIT_PAGE_SIZE);
+    return rows;
+  }
+
+  // Pages by the server rows fetched, not editSessions.length: sessions added here shift the
+  // server's list, so a page may overlap the previous one (deduped below) but never skip rows.
+  async function loadOlderSessions() {
+    if (!editCadet) return;
+    const rows = await loadEditPage(editCadet.id, editOffset);
+    if (!rows) return;
+    setEditOffset(o => o + rows.length);
+    const seen = new Set(editSessions.map(s => s.id));
+    const fresh = rows.filter(s => !seen.has(s.id));
+    setEditSessions(ss => [...ss, ...fresh]);
+    setEditDraft(d => ({ ...d, ...Object.fromEntries(fresh.filter(s => !s.voided).map(s => [s.id, toDraft(s)])) }));
+  }
+
+  function issueLines(sessionId: string, field: SessionIssue['field'], list: SessionIssue[] = [
+    ...editCheck.issues,
+    ...serverIssues.filter(i => !editCheck.issues.some(c => c.session_id === i.session_id && c.code === i.code)),
+  ]) {
+    return list.filter(i => i.session_id === sessionId && i.field === field).map(i => (
+      <div key={i.code + i.message} className={`text-xs mt-1 ${i.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}>{i.message}</div>
+    ));
+  }
+
+  async function addSession() {
+    if (!editCadet) return;
+    if (!newSession.sign_in || !newSession.sign_out) { setStatusMsg("Enter both sign-in and sign-out for the new session."); return; }
+    const errors = editCheck.newIssues.filter(i => i.severity === 'error');
+    if (errors.length) { setStatusMsg(`Add session failed: ${describeIssues(errors)}`); return; }
+    const warnings = editCheck.newIssues.filter(i => i.severity === 'warning');
+    if (warnings.length && !confirm(`${warnings.map(w => w.message).join('\n')}\n\nAdd this session anyway?`)) return;
+    const res = await repositories.sessions.create({
+      cadetId: editCadet.id,
+      sign_in: fromLocalInputET(newSession.sign_in)!,
+      sign_out: fromLocalInputET(newSession.sign_out)!,
+    }, warnings.length > 0);
+    if (!res.ok) { adminFailed(res, 'Add session failed'); return; }
+    const created = res.data.session;
+    setEditSessions(ss => [...ss, created].sort((a, b) => b.sign_in.localeCompare(a.sign_in)));
+    setEditDraft(d => ({ ...d, [created.id]: toDraft(created) }));
+    setNewSession({ sign_in: "", sign_out: "" });
+    setStatusMsg("Session added.");
+    void fetchLeaderboard();
+  }
+
+  async function voidSession(id: string) {
+    const res = await repositories.sessions.setVoided([id], true);
+    if (!res.ok) { adminFailed(res, 'Void failed'); return; }
+    setEditSessions(ss => ss.map(s => s.id === id ? { ...s, voided: true } : s));
+    setEditDraft(d => { const next = { ...d }; delete next[id]; return next; });
+    setStatusMsg("Session voided.");
+    void fetchLeaderboard();
+  }
+
+  async function unvoidSessions(ids: string[]) {
+    if (!ids.length) return;
+    const res = await repositories.sessions.setVoided(ids, false);
+    if (!res.ok) { adminFailed(res, 'Un-void failed'); return; }
+    const restored = editSessions.filter(s => ids.includes(s.id));
+    setEditSessions(ss => ss.map(s => ids.includes(s.id) ? { ...s, voided: false } : s));
+    setEditDraft(d => ({ ...d, ...Object.fromEntries(restored.map(s => [s.id, toDraft(s)])) }));
+    setStatusMsg(`Restored ${res.data.changed} session${res.data.changed === 1 ? '' : 's'}.`);
+    setRemovedRefresh(n => n + 1);
+    void fetchLeaderboard();
   }
 
   async function saveEdits() {
-    if (!hasSupabase || !supabase || !editCadet) return;
+    if (!editCadet || !admin) return;
     setSavingEdits(true);
     try {
-      // 1) Save session edits
-      const updates = Object.entries(editDraft).map(([id, v]) => ({
-        id,
-        sign_in: new Date(v.sign_in).toISOString(),
-        sign_out: v.sign_out ? new Date(v.sign_out).toISOString() : null,
-      }));
-      for (const u of updates) {
-        const { error } = await supabase.from('sessions').update({ sign_in: u.sign_in, sign_out: u.sign_out }).eq('id', u.id);
-        if (error) throw error;
-      }
-
-      // 2) Save manual override (if provided)
-      const trimmed = editOverride.trim();
-      if (trimmed.length) {
-        const minutes = Math.max(0, Math.floor(Number(trimmed)));
-        const { error: ovErr } = await supabase
-          .from('leaderboard_overrides')
-          .upsert({ cadet_id: editCadet.id, minutes_override: minutes }, { onConflict: 'cadet_id' });
-        if (ovErr) throw ovErr;
-      } else {
-        await supabase.from('leaderboard_overrides').delete().eq('cadet_id', editCadet.id);
+      // Only rows whose inputs changed are sent, so untouched sessions keep their exact
+      // (to-the-second) timestamps. Sessions and override are saved in one transaction.
+      if (editCheck.errors.length) { setStatusMsg(`Save blocked: ${describeIssues(editCheck.errors)}`); return; }
+      if (!warningsAcked) { setStatusMsg("Save blocked: acknowledge the warnings first."); return; }
+      const updates = [...editCheck.changed].map(id => {
+        const c = draftToCandidate(id, editDraft[id]);
+        return { id, sign_in: c.sign_in, sign_out: c.sign_out };
+      });
+      const trimmed = editOverride.trim(); // blank clears the override
+      const override = trimmed.length ? Math.max(0, Math.floor(Number(trimmed))) : null;
+      setServerIssues([]);
+      const res = await repositories.sessions.saveEdits({ cadetId: editCadet.id, updates, override }, !!warningsKey);
+      if (!res.ok) {
+        const results = (res.body?.results ?? []) as EditRowResult[];
+        setServerIssues(results.flatMap(r => r.issues ?? []));
+        adminFailed({ ...res, error: `${res.error} Nothing was saved.` }, 'Save failed');
+        return;
       }
 
-      setStatusMsg("Saved edits.");
+      const updated = res.data.results.filter(r => r.status === 'updated').length;
+      setStatusMsg(`Saved edits (${updated} session${updated === 1 ? '' : 's'} updated).`);
+      setAckedWarnings("");
       setEditCadet(null);
       setEditSessions([]);
       setEditDraft({});
@@ -533,6 +653,8 @@ export default function ASPApp() {
     }
   }
   function cancelEdits() {
+    setAckedWarnings("");
+    setServerIssues([]);
     setEditCadet(null);
     setEditSessions([]);
     setEditDraft({});
@@ -550,38 +672,93 @@ export default function ASPApp() {
               <CardTitle className="flex items-center gap-2"><Trophy className="w-5 h-5"/> Athena&rsquo;s Study Parthenon</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3 text-sm">
-              <div className="font-medium">Company G1 • 1C–4C</div>
-              <div className="flex items-center gap-2 text-slate-600"><Clock className="w-4 h-4"/> Mon & Wed 19:30–21:30 (ET)</div>
+              <div className="font-medium">{scopeLabel} • 1C–4C</div>
+              {companies.length > 1 && (
+                <Select value={scope} onValueChange={changeScope}>
+                  <SelectTrigger><SelectValue placeholder="Company" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All companies</SelectItem>
+                    {companies.map(c => <SelectItem key={c.code} value={c.code}>{c.display_name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex items-center gap-2 text-slate-600"><Clock className="w-4 h-4"/> {describeWeekly(schedule)}</div>
               <div className="text-slate-600">Next session: <span className="font-semibold">{nextWindow}</span></div>
-              <div className={`text-xs inline-flex px-2 py-1 rounded-full ${isAspOpen()? 'bg-green-100 text-green-700':'bg-amber-100 text-amber-700'}`}>{isAspOpen()? 'Open now':'Closed'}</div>
+              <div className={`text-xs inline-flex px-2 py-1 rounded-full ${openNow? 'bg-green-100 text-green-700':'bg-amber-100 text-amber-700'}`}>{openNow? 'Open now':'Closed'}</div>
             </CardContent>
           </Card>
 
           <Card className="shadow-sm">
             <CardHeader><CardTitle className="text-base">Your Info</CardTitle></CardHeader>
             <CardContent className="space-y-3">
-              <Input placeholder="Full name" value={name} onChange={(e)=>setName(e.target.value)} />
-              <Select value={klass} onValueChange={(v) => setKlass(v as Klass)}>
-                <SelectTrigger><SelectValue placeholder="Class (1C–4C)" /></SelectTrigger>
-                <SelectContent>
-                  {ALL_KLASSES.map(k => <SelectItem key={k} value={k}>{k}</SelectItem>)}
-                </SelectContent>
-              </Select>
-              <Input placeholder="Company" value={company} onChange={(e)=>setCompany(e.target.value)} />
+              {rosterEnabled && !requestAccess ? (
+                <>
+                  <CadetPicker value={picked} onChange={setPicked} company={scope === 'all' ? undefined : scope} />
+                  {!picked && (
+                    <button type="button" className="text-xs text-slate-500 underline" onClick={() => setRequestAccess(true)}>
+                      Not on the roster? Request to be added
+                    </button>
+                  )}
+                </>
+              ) : (
+                <>
+                  <Input placeholder="Full name" value={name} onChange={(e)=>setName(e.target.value)} />
+                  <Select value={klass} onValueChange={(v) => setKlass(v as Klass)}>
+                    <SelectTrigger><SelectValue placeholder="Class (1C–4C)" /></SelectTrigger>
+                    <SelectContent>
+                      {ALL_KLASSES.map(k => <SelectItem key={k} value={k}>{k}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  {companies.length ? (
+                    <Select value={company} onValueChange={setCompany}>
+                      <SelectTrigger><SelectValue placeholder="Company" /></SelectTrigger>
+                      <SelectContent>
+                        {companies.map(c => <SelectItem key={c.code} value={c.code}>{c.display_name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input placeholder="Company" value={company} onChange={(e)=>setCompany(e.target.value)} />
+                  )}
+                  {rosterEnabled && (
+                    <button type="button" className="text-xs text-slate-500 underline" onClick={() => setRequestAccess(false)}>
+                      Back to roster search
+                    </button>
+                  )}
+                </>
+              )}
+              {kioskRequired && !activeSession && !(rosterEnabled && requestAccess) && (
+                <Input inputMode="numeric" placeholder="Room code (scan the QR on the room display)" value={roomCode} onChange={(e)=>setRoomCode(e.target.value)} />
+              )}
               {!activeSession ? (
-                <Button onClick={handleSignIn} className="w-full"><LogIn className="w-4 h-4 mr-2"/> Sign In</Button>
+                <Button onClick={handleSignIn} className="w-full"><LogIn className="w-4 h-4 mr-2"/> {rosterEnabled && requestAccess ? 'Request access' : 'Sign In'}</Button>
               ) : (
                 <Button onClick={handleSignOut} variant="destructive" className="w-full"><LogOut className="w-4 h-4 mr-2"/> Sign Out</Button>
               )}
+              {pendingSync > 0 && (
+                <div className="flex items-center justify-between text-xs text-amber-700 bg-amber-50 rounded px-2 py-1">
+                  <span>{pendingSync} sign-in/out change{pendingSync === 1 ? '' : 's'} waiting to sync</span>
+                  <button type="button" className="underline" onClick={() => { void syncOffline(); }}>Sync now</button>
+                </div>
+              )}
               {statusMsg && <div className="text-xs text-slate-600">{statusMsg}</div>}
             </CardContent>
           </Card>
 
+          {hasSupabase && (
+            <Card className="shadow-sm">
+              <CardHeader><CardTitle className="text-base">In the room</CardTitle></CardHeader>
+              <CardContent><WhoIsIn refreshKey={dashRefresh} /></CardContent>
+            </Card>
+          )}
+
           <Card className="shadow-sm">
             <CardHeader><CardTitle className="text-base flex items-center gap-2"><Medal className="w-4 h-4"/> Incentives</CardTitle></CardHeader>
             <CardContent className="text-sm space-y-2">
-              <p><span className="font-semibold">Rule:</span> Every <span className="font-semibold">4 hours (240 min)</span> in ASP = <span className="font-semibold">1 day of PMI</span>.</p>
-              <div className="text-xs text-slate-500">Calculated automatically from your all-time minutes.</div>
+              <div className="font-semibold">{incentives.unit_label}</div>
+              <ul className="list-disc pl-4 space-y-1">
+                {incentives.rules.map(rule => <li key={rule.id}>{describeRule(rule, incentives.unit_label)}</li>)}
+              </ul>
+              <div className="text-xs text-slate-500">Calculated automatically from your ASP minutes.</div>
             </CardContent>
           </Card>
         </div>
@@ -597,54 +774,77 @@ export default function ASPApp() {
                   const start = new Date(activeSession.sign_in).getTime();
                   const end = activeSession.sign_out ? new Date(activeSession.sign_out).getTime() : nowTs;
                   const sec = Math.max(0, Math.floor((end - start) / 1000));
-                  return Math.min(sec, TWO_HOURS_SEC);
+                  return Math.min(sec, schedule.nightly_cap_min * 60);
                 })())}</div>
                 <div className="text-sm text-slate-600">{activeSession ? `Signed in at ${new Date(activeSession.sign_in).toLocaleTimeString('en-US', { timeZone: TZ, hour:'numeric', minute:'2-digit' })} ET` : 'Not currently signed in'}</div>
-                {cadet && <div className="text-sm text-slate-600 mt-2">Lifetime (local): <span className="font-semibold">{formatHM((() => {
-                  if (!cadet) return 0;
-                  const sessions = JSON.parse(localStorage.getItem("asp_sessions") || "[]") as Session[];
-                  return sessions
-                    .filter(s => s.cadet_id === cadet.id)
-                    .reduce((acc, s) => acc + msToMin(new Date(s.sign_out ?? new Date()).getTime() - new Date(s.sign_in).getTime()), 0);
-                })())}</span> • PMI days: <span className="font-semibold">{Math.floor((() => {
-                  if (!cadet) return 0;
-                  const sessions = JSON.parse(localStorage.getItem("asp_sessions") || "[]") as Session[];
-                  const mins = sessions
-                    .filter(s => s.cadet_id === cadet.id)
-                    .reduce((acc, s) => acc + msToMin(new Date(s.sign_out ?? new Date()).getTime() - new Date(s.sign_in).getTime()), 0);
-                  return mins/240;
-                })())}</span></div>}
               </div>
               <div className="text-xs text-slate-600 bg-slate-50 rounded-xl p-3">
                 <div className="font-semibold mb-1">Rules</div>
                 <ul className="list-disc pl-4 space-y-1">
                   <li>One active session per cadet.</li>
-                  <li>Auto sign-out at 2h and at 21:30 ET.</li>
-                  <li>New sign-ins are blocked after 2h total for the night.</li>
+                  <li>Auto sign-out at {formatHM(schedule.nightly_cap_min)} and when the session window ends.</li>
+                  <li>New sign-ins are blocked after {formatHM(schedule.nightly_cap_min)} total for the night.</li>
                 </ul>
               </div>
             </CardContent>
           </Card>
 
+          {cadet && (
+            <Card className="shadow-sm">
+              <CardHeader><CardTitle className="text-base flex items-center gap-2"><User className="w-4 h-4"/> My ASP — {cadet.name}</CardTitle></CardHeader>
+              <CardContent>
+                <CadetDashboard
+                  key={cadet.id}
+                  cadet={cadet}
+                  unitLabel={incentives.unit_label}
+                  refreshKey={dashRefresh}
+                  redemptions={myRedemptions}
+                  buildLocal={hasSupabase ? undefined : buildLocalDashboard}
+                  onError={setStatusMsg}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="shadow-sm">
-            <CardHeader><CardTitle className="text-base flex items-center gap-2"><Trophy className="w-4 h-4"/> Leaderboard</CardTitle></CardHeader>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle className="text-base flex items-center gap-2"><Trophy className="w-4 h-4"/> Leaderboard</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={range.kind} onValueChange={(v) => setRange(r => ({ ...r, kind: v as LeaderboardRange['kind'] }))}>
+                    <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {RANGE_KINDS.map(k => <SelectItem key={k} value={k}>{RANGE_LABELS[k]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  {range.kind === 'custom' && (
+                    <>
+                      <Input type="date" className="w-[150px]" value={range.from ?? ""} onChange={(e) => setRange(r => ({ ...r, from: e.target.value || undefined }))} />
+                      <span className="text-xs text-slate-500">to</span>
+                      <Input type="date" className="w-[150px]" value={range.to ?? ""} onChange={(e) => setRange(r => ({ ...r, to: e.target.value || undefined }))} />
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
             <CardContent>
-              <Tabs defaultValue="all">
+              <Tabs value={boardTab} onValueChange={setBoardTab}>
                 <TabsList>
                   {TABS.map(tab => (<TabsTrigger key={tab} value={tab}>{tab === 'all' ? 'All' : tab}</TabsTrigger>))}
+                  <TabsTrigger value="companies">Companies</TabsTrigger>
                 </TabsList>
                 {TABS.map((tab) => {
-                  const rows = leaderboard.filter(r => tab==='all' ? true : r.klass===tab)
-                    .map(r => {
-                      const override = r.cadetId ? overridesMap[r.cadetId] : undefined;
-                      const total = typeof override === 'number' ? override : r.totalMin;
-                      return { ...r, total };
-                    })
+                  const rows = scopedRows.filter(r => tab==='all' ? true : r.klass===tab)
                     .sort((a,b) => b.total - a.total);
                   return (
                     <TabsContent key={tab} value={tab}>
                       <Table>
-                        <TableCaption>All-time minutes (DB-capped to ASP window; manual overrides applied when set).</TableCaption>
+                        <TableCaption>
+                          {range.kind === 'all'
+                            ? 'All-time minutes (DB-capped to ASP window; manual overrides applied when set).'
+                            : `${RANGE_LABELS[range.kind]} (ET): minutes inside the range and the ASP windows, each night capped at the nightly limit; overrides not applied.`}
+                          {` ${incentives.unit_label} are available after redemptions (of total earned).`}
+                        </TableCaption>
                         <TableHeader>
                           <TableRow>
                             <TableHead className="w-16">Rank</TableHead>
@@ -652,7 +852,7 @@ export default function ASPApp() {
                             <TableHead>Class</TableHead>
                             <TableHead>Company</TableHead>
                             <TableHead className="text-right">Total</TableHead>
-                            <TableHead className="text-right">PMI Days</TableHead>
+                            <TableHead className="text-right">{incentives.unit_label}</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -663,7 +863,10 @@ export default function ASPApp() {
                               <TableCell>{r.klass}</TableCell>
                               <TableCell>{r.company}</TableCell>
                               <TableCell className="text-right">{formatHM(r.total)}</TableCell>
-                              <TableCell className="text-right">{Math.floor(r.total/240)}</TableCell>
+                              <TableCell className="text-right">
+                                {r.balance.available}
+                                {r.balance.redeemed > 0 && <span className="text-xs text-slate-500"> of {r.balance.earned}</span>}
+                              </TableCell>
                             </TableRow>
                           ))}
                           {rows.length===0 && (
@@ -674,6 +877,39 @@ export default function ASPApp() {
                     </TabsContent>
                   );
                 })}
+                <TabsContent value="companies">
+                  <div className="flex items-center justify-end gap-2 mt-2 text-xs text-slate-600">
+                    Rank by
+                    <Button size="sm" variant={companyRankBy === 'per_capita' ? 'default' : 'outline'} onClick={() => setCompanyRankBy('per_capita')}>Per cadet</Button>
+                    <Button size="sm" variant={companyRankBy === 'total' ? 'default' : 'outline'} onClick={() => setCompanyRankBy('total')}>Total</Button>
+                  </div>
+                  <Table>
+                    <TableCaption>Company totals for the selected range. Per-cadet minutes divide by roster size (or by cadets with minutes when a company has no roster).</TableCaption>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Rank</TableHead>
+                        <TableHead>Company</TableHead>
+                        <TableHead className="text-right">Cadets</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Per cadet</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {companyStandings.map((c, idx) => (
+                        <TableRow key={c.code} className={c.code === scope ? 'bg-slate-50' : undefined}>
+                          <TableCell>{idx+1}</TableCell>
+                          <TableCell className="font-medium">{c.display_name}</TableCell>
+                          <TableCell className="text-right">{c.cadets}{c.members !== c.cadets ? ` / ${c.members}` : ''}</TableCell>
+                          <TableCell className="text-right">{formatHM(c.total_min)}</TableCell>
+                          <TableCell className="text-right">{formatHM(c.per_capita_min)}</TableCell>
+                        </TableRow>
+                      ))}
+                      {companyStandings.length===0 && (
+                        <TableRow><TableCell colSpan={5} className="text-center text-slate-500">No data yet.</TableCell></TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -684,125 +920,303 @@ export default function ASPApp() {
               <CardTitle className="text-base flex items-center gap-2"><Shield className="w-4 h-4"/> Admin</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3 text-sm">
-              {!adminMode ? (
-                <div className="flex gap-2 items-center">
-                  <Input type="password" placeholder="Enter Admin Key" value={adminKey} onChange={(e)=>setAdminKey(e.target.value)} />
-                  <div className="text-xs text-slate-500">Set NEXT_PUBLIC_ASP_ADMIN_KEY to enable.</div>
-                </div>
+              {!admin ? (
+                <form className="flex gap-2 items-center" onSubmit={(e)=>{ e.preventDefault(); void loginAdmin(); }}>
+                  <Input placeholder="Username" autoComplete="username" value={adminUser} onChange={(e)=>setAdminUser(e.target.value)} />
+                  <Input type="password" placeholder="Password" autoComplete="current-password" value={adminPassword} onChange={(e)=>setAdminPassword(e.target.value)} />
+                  <Button size="sm" type="submit">Sign in</Button>
+                </form>
               ) : (
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <div className="text-xs text-green-700 bg-green-50 rounded px-2 py-1">Admin mode enabled</div>
-                    <Button size="sm" variant="outline" onClick={disableAdmin}>Disable admin</Button>
+                    <div className="text-xs text-green-700 bg-green-50 rounded px-2 py-1">Signed in as {admin.username}</div>
+                    <div className="flex gap-2">
+                      {kioskRequired && <Button size="sm" variant="ghost" onClick={() => window.open('/kiosk', '_blank')}>Room display</Button>}
+                      <Button size="sm" variant="ghost" onClick={() => window.open('/door', '_blank')}>Door tablet</Button>
+                      <Button size="sm" variant="outline" onClick={disableAdmin}>Disable admin</Button>
+                    </div>
                   </div>
 
-                  {/* Leaderboard maintenance (Edit + Remove remain) */}
-                  <div className="space-y-2">
-                    <div className="text-slate-600 mt-2">Leaderboard maintenance:</div>
-                    {leaderboard.slice(0, 30).map((r, i) => (
-                      <div key={`${r.name}-${i}`} className="flex items-center justify-between bg-slate-50 rounded-xl p-3">
-                        <div>
-                          <div className="font-medium">{r.name}</div>
-                          <div className="text-xs text-slate-600">{r.klass} • {r.company}</div>
-                        </div>
-                        <div className="flex gap-2">
-                          <Button size="sm" variant="outline" onClick={()=>openEditForLeaderboardRow(r)}>Edit</Button>
-                          <Button size="sm" variant="destructive" onClick={async ()=>{
-                            if (!hasSupabase || !supabase) return;
-                            if (!confirm(`Remove ${r.name} from leaderboard? This voids sessions (not overrides).`)) return;
-                            let cadId = r.cadetId;
-                            if (!cadId) {
-                              const { data: cad } = await supabase
-                                .from('cadets').select('id').ilike('name', r.name).eq('klass', r.klass).eq('company', r.company).limit(1);
-                              if (Array.isArray(cad) && cad.length) cadId = (cad[0] as {id:string}).id;
-                            }
-                            if (!cadId) { setStatusMsg("Could not resolve cadet id."); return; }
-                            await supabase.from("sessions").update({ voided: true }).eq("cadet_id", cadId).eq("voided", false);
-                            setStatusMsg("Removed cadet sessions.");
-                            await fetchLeaderboard();
-                          }}>Remove</Button>
-                        </div>
+                  <Tabs defaultValue="leaderboard">
+                    <TabsList>
+                      <TabsTrigger value="leaderboard">Leaderboard</TabsTrigger>
+                      <TabsTrigger value="schedule">Schedule</TabsTrigger>
+                      <TabsTrigger value="roster">Roster</TabsTrigger>
+                      <TabsTrigger value="offline">Offline</TabsTrigger>
+                      <TabsTrigger value="import">Import</TabsTrigger>
+                      <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+                      <TabsTrigger value="incentives">Incentives</TabsTrigger>
+                      <TabsTrigger value="companies">Companies</TabsTrigger>
+                      <TabsTrigger value="analytics">Analytics</TabsTrigger>
+                      <TabsTrigger value="exports">Exports</TabsTrigger>
+                      <TabsTrigger value="devices">Devices</TabsTrigger>
+                      <TabsTrigger value="audit">Audit log</TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="leaderboard" className="space-y-4">
+                      {/* Leaderboard maintenance (Edit + Remove remain) */}
+                      <div className="space-y-2">
+                        <div className="text-slate-600 mt-2">Leaderboard maintenance:</div>
+                        {scopedRows.slice(0, 30).map((r, i) => (
+                          <div key={`${r.name}-${i}`} className="flex items-center justify-between bg-slate-50 rounded-xl p-3">
+                            <div>
+                              <div className="font-medium">{r.name}</div>
+                              <div className="text-xs text-slate-600">{r.klass} • {r.company}</div>
+                            </div>
+                            <div className="flex gap-2">
+                              <Button size="sm" variant="outline" onClick={()=>openEditForLeaderboardRow(r)}>Edit</Button>
+                              <Button size="sm" variant="destructive" onClick={async ()=>{
+                                if (!confirm(`Remove ${r.name} from leaderboard? This voids sessions (not overrides).`)) return;
+                                const cadId = await repositories.cadets.resolveId(r);
+                                if (!cadId.ok || !cadId.data) { setStatusMsg("Could not resolve cadet id."); return; }
+                                const res = await repositories.cadets.remove(cadId.data);
+                                if (!res.ok) { adminFailed(res, 'Remove failed'); return; }
+                                setStatusMsg("Removed cadet sessions. Undo it under Removed cadets.");
+                                setRemovedRefresh(n => n + 1);
+                                await fetchLeaderboard();
+                              }}>Remove</Button>
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
 
-                  {/* Edit panel */}
-                  {editCadet && (
-                    <div className="mt-4 border rounded-xl p-3 bg-slate-50">
-                      <div className="flex items-center justify-between mb-2">
-                        <div className="font-medium">Edit sessions for {editCadet.name} ({editCadet.klass} • {editCadet.company})</div>
-                        <div className="flex gap-2">
-                          <Button size="sm" variant="outline" onClick={cancelEdits} disabled={savingEdits}>Cancel</Button>
-                          <Button size="sm" onClick={saveEdits} disabled={savingEdits}>{savingEdits ? "Saving..." : "Save changes"}</Button>
-                        </div>
-                      </div>
+                      <RemovedCadets
+                        refreshKey={removedRefresh}
+                        onRestored={(msg) => { setStatusMsg(msg); void fetchLeaderboard(); }}
+                        onError={adminFailed}
+                      />
+
+                      {/* Edit panel */}
+                      {editCadet && (
+                        <div className="mt-4 border rounded-xl p-3 bg-slate-50">
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="font-medium">Edit sessions for {editCadet.name} ({editCadet.klass} • {editCadet.company})</div>
+                            <div className="flex gap-2">
+                              <Button size="sm" variant="outline" onClick={cancelEdits} disabled={savingEdits}>Cancel</Button>
+                              <Button size="sm" onClick={saveEdits} disabled={savingEdits || editCheck.errors.length > 0 || !warningsAcked}>{savingEdits ? "Saving..." : "Save changes"}</Button>
+                            </div>
+                          </div>
 
-                      <div className="text-xs text-slate-600 mb-2">
-                        Times are in your device&rsquo;s local timezone. Totals are capped to the ASP window on the server.
-                      </div>
+                          <div className="text-xs text-slate-600 mb-2">
+                            All times are Eastern (ET, {TZ}), whatever timezone this device is in. Totals are capped to the ASP window on the server. New sessions must fall inside an ASP window, last at most {formatHM(schedule.nightly_cap_min)} and not overlap existing sessions.
+                          </div>
 
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead>Sign In</TableHead>
-                            <TableHead>Sign Out</TableHead>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {editSessions.map(s => (
-                            <TableRow key={s.id}>
-                              <TableCell>
-                                <Input
-                                  type="datetime-local"
-                                  value={editDraft[s.id]?.sign_in ?? ""}
-                                  onChange={(e)=>setEditDraft(d => ({...d, [s.id]: {sign_in: e.target.value, sign_out: d[s.id]?.sign_out ?? ""}}))}
-                                />
-                              </TableCell>
-                              <TableCell>
-                                <Input
-                                  type="datetime-local"
-                                  value={editDraft[s.id]?.sign_out ?? ""}
-                                  onChange={(e)=>setEditDraft(d => ({...d, [s.id]: {sign_in: d[s.id]?.sign_in ?? "", sign_out: e.target.value}}))}
-                                />
-                              </TableCell>
-                            </TableRow>
-                          ))}
-                          {editSessions.length === 0 && (
-                            <TableRow><TableCell colSpan={2} className="text-center text-slate-500">No sessions to edit.</TableCell></TableRow>
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Sign In (ET)</TableHead>
+                                <TableHead>Sign Out (ET)</TableHead>
+                                <TableHead></TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {editSessions.filter(s => !s.voided).map(s => (
+                                <TableRow key={s.id}>
+                                  <TableCell>
+                                    <Input
+                                      type="datetime-local"
+                                      value={editDraft[s.id]?.sign_in ?? ""}
+                                      onChange={(e)=>setEditDraft(d => ({...d, [s.id]: {sign_in: e.target.value, sign_out: d[s.id]?.sign_out ?? ""}}))}
+                                    />
+                                    {issueLines(s.id, 'sign_in')}
+                                  </TableCell>
+                                  <TableCell>
+                                    <Input
+                                      type="datetime-local"
+                                      value={editDraft[s.id]?.sign_out ?? ""}
+                                      onChange={(e)=>setEditDraft(d => ({...d, [s.id]: {sign_in: d[s.id]?.sign_in ?? "", sign_out: e.target.value}}))}
+                                    />
+                                    {issueLines(s.id, 'sign_out')}
+                                  </TableCell>
+                                  <TableCell className="text-right">
+                                    <Button size="sm" variant="ghost" onClick={() => voidSession(s.id)} disabled={savingEdits}>Void</Button>
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                              {editSessions.filter(s => !s.voided).length === 0 && (
+                                <TableRow><TableCell colSpan={3} className="text-center text-slate-500">No sessions to edit.</TableCell></TableRow>
+                              )}
+                              <TableRow>
+                                <TableCell>
+                                  <Input
+                                    type="datetime-local"
+                                    value={newSession.sign_in}
+                                    onChange={(e)=>setNewSession(n => ({...n, sign_in: e.target.value}))}
+                                  />
+                                  {issueLines('new', 'sign_in', editCheck.newIssues)}
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="datetime-local"
+                                    value={newSession.sign_out}
+                                    onChange={(e)=>setNewSession(n => ({...n, sign_out: e.target.value}))}
+                                  />
+                                  {issueLines('new', 'sign_out', editCheck.newIssues)}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  <Button size="sm" variant="outline" onClick={addSession} disabled={savingEdits}>Add session</Button>
+                                </TableCell>
+                              </TableRow>
+                            </TableBody>
+                          </Table>
+                          {editCheck.warnings.length > 0 && (
+                            <label className="flex items-center gap-2 text-xs text-amber-700 mt-2">
+                              <input type="checkbox" checked={warningsAcked} onChange={(e) => setAckedWarnings(e.target.checked ? warningsKey : "")} />
+                              I&rsquo;ve reviewed the {editCheck.warnings.length} warning{editCheck.warnings.length === 1 ? '' : 's'} on edited rows; save anyway.
+                            </label>
+                          )}
+                          {editHasMore && (
+                            <div className="flex justify-center mt-2">
+                              <Button size="sm" variant="ghost" onClick={loadOlderSessions}>Load older sessions</Button>
+                            </div>
                           )}
-                        </TableBody>
-                      </Table>
 
-                      <div className="mt-4">
-                        <div className="font-medium mb-1">Manual total override</div>
-                        <div className="text-xs text-slate-600 mb-2">
-                          Set an absolute **total minutes** for this cadet&rsquo;s leaderboard line (leave blank to use calculated total).
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <Input
-                            type="number"
-                            min={0}
-                            placeholder="Minutes (e.g., 240)"
-                            value={editOverride}
-                            onChange={(e)=>setEditOverride(e.target.value)}
-                            className="max-w-[200px]"
-                          />
-                          <div className="text-xs text-slate-500">
-                            That&rsquo;s ~{Math.floor(Number(editOverride||"0")/60)}h {Number(editOverride||"0")%60}m
+                          {editSessions.some(s => s.voided) && (
+                            <div className="mt-4">
+                              <div className="flex items-center justify-between mb-1">
+                                <div className="font-medium">Voided sessions</div>
+                                <Button size="sm" variant="outline" onClick={() => unvoidSessions(editSessions.filter(s => s.voided).map(s => s.id))}>Un-void all</Button>
+                              </div>
+                              <Table>
+                                <TableBody>
+                                  {editSessions.filter(s => s.voided).map(s => (
+                                    <TableRow key={s.id} className="text-slate-500">
+                                      <TableCell>{formatDateTimeET(s.sign_in)}</TableCell>
+                                      <TableCell>{s.sign_out ? formatDateTimeET(s.sign_out) : 'open'}</TableCell>
+                                      <TableCell className="text-right">
+                                        <Button size="sm" variant="ghost" onClick={() => unvoidSessions([s.id])}>Un-void</Button>
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </div>
+                          )}
+
+                          <div className="mt-4">
+                            <div className="font-medium mb-1">Manual total override</div>
+                            <div className="text-xs text-slate-600 mb-2">
+                              Set an absolute **total minutes** for this cadet&rsquo;s leaderboard line (leave blank to use calculated total).
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                min={0}
+                                placeholder="Minutes (e.g., 240)"
+                                value={editOverride}
+                                onChange={(e)=>setEditOverride(e.target.value)}
+                                className="max-w-[200px]"
+                              />
+                              <div className="text-xs text-slate-500">
+                                That&rsquo;s ~{Math.floor(Number(editOverride||"0")/60)}h {Number(editOverride||"0")%60}m
+                              </div>
+                            </div>
+                          </div>
+
+                          <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1 mt-3 inline-block">
+                            Note: Overrides affect leaderboard display only; underlying sessions remain unchanged.
+                          </div>
+
+                          <div className="mt-4">
+                            <RedemptionsPanel
+                              key={editCadet.id}
+                              cadet={editCadet}
+                              unitLabel={incentives.unit_label}
+                              onChanged={(msg) => { setStatusMsg(msg); void loadRedemptions(); }}
+                              onError={adminFailed}
+                            />
                           </div>
                         </div>
+                      )}
+                    </TabsContent>
+
+                    <TabsContent value="schedule">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <ScheduleEditor
+                          schedule={schedule}
+                          onSaved={(next) => { setSchedule(next); setStatusMsg('Schedule saved.'); }}
+                          onError={adminFailed}
+                        />
                       </div>
+                    </TabsContent>
 
-                      <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1 mt-3 inline-block">
-                        Note: Overrides affect leaderboard display only; underlying sessions remain unchanged.
+                    <TabsContent value="roster">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <RosterPanel onStatus={setStatusMsg} onError={adminFailed} />
                       </div>
-                    </div>
-                  )}
+                    </TabsContent>
+
+                    <TabsContent value="import">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <SessionImportPanel
+                          onImported={(msg) => { setStatusMsg(msg); void fetchLeaderboard(); }}
+                          onError={adminFailed}
+                        />
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="duplicates">
+                      <DuplicatesPanel
+                        onMerged={(msg) => { setStatusMsg(msg); void fetchLeaderboard(); }}
+                        onError={adminFailed}
+                      />
+                    </TabsContent>
+
+                    <TabsContent value="incentives">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <IncentivesEditor
+                          incentives={incentives}
+                          onSaved={(next) => { setIncentives(next); setStatusMsg('Incentive rules saved.'); }}
+                          onError={adminFailed}
+                        />
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="companies">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <CompaniesPanel onSaved={(msg) => { setStatusMsg(msg); void loadCompanies(); }} onError={adminFailed} />
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="analytics">
+                      <AnalyticsPanel companies={companies} onError={adminFailed} />
+                    </TabsContent>
+
+                    <TabsContent value="exports">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <ExportsPanel
+                          range={range}
+                          klass={TABS.includes(boardTab as Klass) ? boardTab as Klass : 'all'}
+                          scope={scope}
+                          scopeLabel={scopeLabel}
+                          unitLabel={incentives.unit_label}
+                          onDone={setStatusMsg}
+                          onError={adminFailed}
+                        />
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="offline">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <OfflineSignInsPanel onSaved={setStatusMsg} onError={adminFailed} />
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="devices">
+                      <div className="border rounded-xl p-3 bg-slate-50">
+                        <DevicesPanel onSaved={setStatusMsg} onError={adminFailed} />
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="audit">
+                      <AuditLogPanel cadets={leaderboard} onError={adminFailed} />
+                    </TabsContent>
+                  </Tabs>
 
                   <div className="flex items-start gap-2 text-amber-700 bg-amber-50 p-3 rounded-xl">
                     <AlertTriangle className="w-4 h-4 mt-0.5"/>
                     <div className="text-xs">
-                      Admin tools are client-guarded only. Use RLS/SQL for true enforcement.
+                      Admin changes are verified on the server. Your admin session expires at {new Date(admin.exp * 1000).toLocaleTimeString('en-US', { timeZone: TZ, hour:'numeric', minute:'2-digit' })} ET.
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,187 @@
+'use client';
+// src/components/admin/analytics-panel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SLOT_MIN, type Analytics, type GroupStat } from "@/lib/analytics";
+import { apiGet } from "@/lib/api";
+import { formatHM, formatMinOfDay, type Company } from "@/lib/asp";
+import { companyLabel } from "@/lib/companies";
+import { RANGE_KINDS, RANGE_LABELS, type LeaderboardRange } from "@/lib/leaderboard-range";
+import { WEEKDAY_LABELS } from "@/lib/schedule";
+
+type Props = {
+  companies: Company[];
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+const nightLabel = (key: string) => new Date(`${key}T12:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+
+function GroupTable({ title, rows, label }: { title: string; rows: GroupStat[]; label: (key: string) => string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{title}</TableHead>
+          <TableHead className="text-right">Roster</TableHead>
+          <TableHead className="text-right">Attended</TableHead>
+          <TableHead className="text-right">Cadet-nights</TableHead>
+          <TableHead className="text-right">Avg per night</TableHead>
+          <TableHead className="text-right">Avg time</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(g => (
+          <TableRow key={g.key}>
+            <TableCell className="font-medium">{label(g.key)}</TableCell>
+            <TableCell className="text-right">{g.roster || '—'}</TableCell>
+            <TableCell className="text-right">{g.attendees}{g.roster ? ` (${Math.round(100 * g.attendees / g.roster)}%)` : ''}</TableCell>
+            <TableCell className="text-right">{g.cadet_nights}</TableCell>
+            <TableCell className="text-right">{g.avg_headcount}</TableCell>
+            <TableCell className="text-right">{formatHM(g.avg_min)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function AnalyticsPanel({ companies, onError }: Props) {
+  const [range, setRange] = useState<LeaderboardRange>({ kind: 'semester' });
+  const [data, setData] = useState<Analytics | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams({ range: range.kind });
+    if (range.kind === 'custom') {
+      if (range.from) params.set('from', range.from);
+      if (range.to) params.set('to', range.to);
+    }
+    setLoading(true);
+    const res = await apiGet<{ analytics: Analytics }>(`/api/admin/analytics?${params}`);
+    setLoading(false);
+    if (!res.ok) { onError(res, 'Analytics failed'); return; }
+    setData(res.data.analytics);
+  }, [range, onError]);
+  useEffect(() => { void load(); }, [load]);
+
+  const peakArrivals = Math.max(1, ...(data?.arrivals.map(a => a.count) ?? []));
+  const peakHeat = Math.max(0.1, ...(data?.heatmap.rows.flatMap(r => r.cells) ?? []));
+  const peakHeadcount = Math.max(1, ...(data?.nights.map(n => n.headcount) ?? []));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={range.kind} onValueChange={(v) => setRange(r => ({ ...r, kind: v as LeaderboardRange['kind'] }))}>
+          <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {RANGE_KINDS.map(k => <SelectItem key={k} value={k}>{RANGE_LABELS[k]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {range.kind === 'custom' && (
+          <>
+            <Input type="date" className="w-[150px]" value={range.from ?? ""} onChange={(e) => setRange(r => ({ ...r, from: e.target.value || undefined }))} />
+            <span className="text-xs text-slate-500">to</span>
+            <Input type="date" className="w-[150px]" value={range.to ?? ""} onChange={(e) => setRange(r => ({ ...r, to: e.target.value || undefined }))} />
+          </>
+        )}
+        <Button size="sm" variant="outline" onClick={() => load()} disabled={loading}>{loading ? "Loading..." : "Refresh"}</Button>
+      </div>
+
+      {data && (
+        <>
+          <div className="text-xs text-slate-600">
+            {data.totals.nights} nights • {data.totals.attendees} cadets • {data.totals.cadet_nights} cadet-nights • {formatHM(data.totals.minutes)} total
+            {data.totals.cadet_nights > 0 && ` • ${formatHM(Math.round(data.totals.minutes / data.totals.cadet_nights))} per attendee per night`}
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">Heatmap (average cadets present, ET)</div>
+            {data.heatmap.rows.length === 0 ? (
+              <div className="text-xs text-slate-500">No weekly windows are scheduled.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="text-xs">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      {data.heatmap.rows[0].cells.map((_, i) => (
+                        <th key={i} className="px-1 font-normal text-slate-500">{formatMinOfDay(data.heatmap.start_min + i * SLOT_MIN)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.heatmap.rows.map(r => (
+                      <tr key={r.weekday}>
+                        <td className="pr-2 text-slate-600">{WEEKDAY_LABELS[r.weekday]} <span className="text-slate-400">({r.nights})</span></td>
+                        {r.cells.map((v, i) => (
+                          <td key={i} className="px-1 py-1 text-center rounded" style={{ backgroundColor: `rgba(15, 23, 42, ${(0.85 * v / peakHeat).toFixed(2)})`, color: v / peakHeat > 0.5 ? 'white' : undefined }}>
+                            {v}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">Arrival times</div>
+            <div className="space-y-0.5">
+              {data.arrivals.map(a => (
+                <div key={a.start_min} className="flex items-center gap-2 text-xs">
+                  <div className="w-12 text-slate-600">{formatMinOfDay(a.start_min)}</div>
+                  <div className={`h-3 rounded ${a.count === peakArrivals ? 'bg-amber-500' : 'bg-slate-400'}`} style={{ width: `${Math.round(100 * a.count / peakArrivals)}%` }} />
+                  <div className="text-slate-600">{a.count}</div>
+                </div>
+              ))}
+              {data.arrivals.length === 0 && <div className="text-xs text-slate-500">No sign-ins in this period.</div>}
+            </div>
+          </div>
+
+          <GroupTable title="Class" rows={data.by_class} label={(k) => k} />
+          <GroupTable title="Company" rows={data.by_company} label={(k) => companyLabel(companies, k)} />
+
+          <div>
+            <div className="font-medium mb-1">Nightly headcount</div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Night</TableHead>
+                  <TableHead>Cadets</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Avg per cadet</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...data.nights].reverse().map(n => (
+                  <TableRow key={n.night} className={n.scheduled ? undefined : 'text-slate-500'}>
+                    <TableCell>{nightLabel(n.night)}{n.scheduled ? '' : ' (unscheduled)'}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 rounded bg-slate-700" style={{ width: `${Math.round(80 * n.headcount / peakHeadcount)}px` }} />
+                        {n.headcount}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatHM(n.minutes)}</TableCell>
+                    <TableCell className="text-right">{formatHM(n.avg_min)}</TableCell>
+                  </TableRow>
+                ))}
+                {data.nights.length === 0 && (
+                  <TableRow><TableCell colSpan={4} className="text-center text-slate-500">No nights in this period.</TableCell></TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="text-xs text-slate-500">
+            Voided sessions are excluded. Sessions count toward the night they started on, inside that night&rsquo;s windows, with each cadet&rsquo;s night capped at the nightly limit.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
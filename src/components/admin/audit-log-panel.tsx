@@ -0,0 +1,120 @@
+'use client';
+// src/components/admin/audit-log-panel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiGet } from "@/lib/api";
+import { formatDateTimeET } from "@/lib/asp";
+import type { AuditRow } from "@/lib/server/audit";
+
+const PAGE = 50;
+const ACTIONS = [
+  { value: 'all', label: 'All actions' },
+  { value: 'session.', label: 'Session edits' },
+  { value: 'override.', label: 'Overrides' },
+  { value: 'cadet.', label: 'Remove / merge' },
+  { value: 'roster.', label: 'Roster' },
+  { value: 'schedule.', label: 'Schedule' },
+  { value: 'incentives.', label: 'Incentives' },
+  { value: 'redemption.', label: 'Redemptions' },
+  { value: 'company.', label: 'Companies' },
+  { value: 'device.', label: 'Devices' },
+];
+
+type Props = {
+  cadets: Array<{ cadetId?: string; name: string; klass: string }>;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+function show(v: unknown) {
+  if (v === null || v === undefined) return '—';
+  if (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(v)) return formatDateTimeET(v);
+  return typeof v === 'object' ? JSON.stringify(v) : String(v);
+}
+
+// One line per changed key: "sign_out: Mar 3, 9:12 PM ET → Mar 3, 9:30 PM ET"
+function describeChange(before: unknown, after: unknown): string[] {
+  const b = (before && typeof before === 'object' ? before : {}) as Record<string, unknown>;
+  const a = (after && typeof after === 'object' ? after : {}) as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(b), ...Object.keys(a)])];
+  return keys
+    .filter(k => JSON.stringify(b[k]) !== JSON.stringify(a[k]))
+    .map(k => k in b && k in a ? `${k}: ${show(b[k])} → ${show(a[k])}` : `${k}: ${show(k in a ? a[k] : b[k])}`);
+}
+
+export function AuditLogPanel({ cadets, onError }: Props) {
+  const [cadetId, setCadetId] = useState('all');
+  const [action, setAction] = useState('all');
+  const [entries, setEntries] = useState<AuditRow[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+
+  const load = useCallback(async (before?: AuditRow) => {
+    const params = new URLSearchParams({ limit: String(PAGE) });
+    if (cadetId !== 'all') params.set('cadetId', cadetId);
+    if (action !== 'all') params.set('action', action);
+    if (before) { params.set('before', before.created_at); params.set('beforeId', before.id); }
+    const res = await apiGet<{ entries: AuditRow[] }>(`/api/admin/audit?${params}`);
+    if (!res.ok) { onError(res, 'Audit log failed'); return; }
+    setEntries(prev => before ? [...prev, ...res.data.entries] : res.data.entries);
+    setHasMore(res.data.entries.length === PAGE);
+  }, [cadetId, action, onError]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  const withIds = cadets.filter(c => c.cadetId);
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={cadetId} onValueChange={setCadetId}>
+          <SelectTrigger className="w-[220px]"><SelectValue placeholder="All cadets" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All cadets</SelectItem>
+            {withIds.map(c => <SelectItem key={c.cadetId} value={c.cadetId!}>{c.name} ({c.klass})</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {ACTIONS.map(a => <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" onClick={() => load()}>Refresh</Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>When</TableHead>
+            <TableHead>Who</TableHead>
+            <TableHead>Action</TableHead>
+            <TableHead>Cadet</TableHead>
+            <TableHead>Change</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map(e => (
+            <TableRow key={e.id}>
+              <TableCell className="whitespace-nowrap">{formatDateTimeET(e.created_at)}</TableCell>
+              <TableCell>{e.actor}</TableCell>
+              <TableCell className="whitespace-nowrap">{e.action}</TableCell>
+              <TableCell>{e.cadet_name ?? (e.cadet_id ? <span className="text-slate-400">{e.cadet_id.slice(0, 8)} (deleted)</span> : '—')}</TableCell>
+              <TableCell className="text-xs text-slate-600 whitespace-normal">
+                {describeChange(e.before, e.after).map((line, i) => <div key={i}>{line}</div>)}
+                {e.note && <div className="italic">{e.note}</div>}
+              </TableCell>
+            </TableRow>
+          ))}
+          {entries.length === 0 && (
+            <TableRow><TableCell colSpan={5} className="text-center text-slate-500">No audit entries.</TableCell></TableRow>
+          )}
+        </TableBody>
+      </Table>
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button size="sm" variant="outline" onClick={() => load(entries[entries.length - 1])}>Load older</Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+// src/components/admin/companies-panel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type Company } from "@/lib/asp";
+import { apiFetch, apiGet } from "@/lib/api";
+
+type Props = {
+  onSaved: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function CompaniesPanel({ onSaved, onError }: Props) {
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({}); // code -> display name
+  const [newCode, setNewCode] = useState("");
+  const [newName, setNewName] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await apiGet<{ companies: Company[] }>('/api/admin/companies');
+    if (!res.ok) { onError(res, 'Load companies failed'); return; }
+    setCompanies(res.data.companies);
+    setDrafts(Object.fromEntries(res.data.companies.map(c => [c.code, c.display_name])));
+  }, [onError]);
+  useEffect(() => { void load(); }, [load]);
+
+  async function save(company: Pick<Company, 'code' | 'display_name' | 'active'>) {
+    const res = await apiFetch<{ company: Company }>('PUT', '/api/admin/companies', company);
+    if (!res.ok) { onError(res, 'Company save failed'); return false; }
+    await load();
+    onSaved(`Saved ${res.data.company.display_name}.`);
+    return true;
+  }
+
+  async function add() {
+    if (await save({ code: newCode, display_name: newName || `Company ${newCode.trim().toUpperCase()}`, active: true })) {
+      setNewCode(""); setNewName("");
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-slate-600">Companies using this deployment:</div>
+      {companies.map(c => (
+        <div key={c.code} className={`flex items-center gap-2 ${c.active ? '' : 'opacity-60'}`}>
+          <div className="w-14 font-mono text-xs">{c.code}</div>
+          <Input
+            className="max-w-[220px]"
+            value={drafts[c.code] ?? ""}
+            onChange={(e) => setDrafts(d => ({ ...d, [c.code]: e.target.value }))}
+          />
+          <div className="text-xs text-slate-500 w-20">{c.roster_size ?? 0} on roster</div>
+          <Button size="sm" variant="outline" disabled={(drafts[c.code] ?? "") === c.display_name} onClick={() => save({ ...c, display_name: drafts[c.code] ?? c.display_name })}>Rename</Button>
+          <Button size="sm" variant="ghost" onClick={() => save({ ...c, active: !c.active })}>{c.active ? "Deactivate" : "Activate"}</Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Input className="w-20" placeholder="Code" value={newCode} onChange={(e) => setNewCode(e.target.value)} />
+        <Input className="max-w-[220px]" placeholder="Display name (e.g. Company H2)" value={newName} onChange={(e) => setNewName(e.target.value)} />
+        <Button size="sm" onClick={add} disabled={!newCode.trim()}>Add company</Button>
+      </div>
+      <div className="text-xs text-slate-500">
+        Inactive companies are hidden from sign-in and the company selector; their cadets and sessions are kept.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+// src/components/admin/devices-panel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { apiFetch, apiGet } from "@/lib/api";
+import { formatDateTimeET } from "@/lib/asp";
+import type { Device, DeviceRole } from "@/lib/server/device-auth";
+
+const ROLE_LABELS: Record<DeviceRole, string> = { display: 'Room display', door: 'Door tablet' };
+
+type Props = {
+  onSaved: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function DevicesPanel({ onSaved, onError }: Props) {
+  const [devices, setDevices] = useState<Device[]>([]);
+
+  const load = useCallback(async () => {
+    const res = await apiGet<{ devices: Device[] }>('/api/admin/devices');
+    if (!res.ok) { onError(res, 'Load devices failed'); return; }
+    setDevices(res.data.devices);
+  }, [onError]);
+  useEffect(() => { void load(); }, [load]);
+
+  async function revoke(d: Device) {
+    if (!confirm(`Revoke ${d.label}? The screen stops working until an admin sets it up again.`)) return;
+    const res = await apiFetch<{ device: Device }>('DELETE', '/api/admin/devices', { id: d.id });
+    if (!res.ok) { onError(res, 'Revoke failed'); return; }
+    await load();
+    onSaved(`Revoked ${d.label}.`);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-slate-600">Shared screens set up on this deployment:</div>
+      {devices.map(d => (
+        <div key={d.id} className={`flex items-center gap-2 ${d.revoked_at ? 'opacity-60' : ''}`}>
+          <div className="w-28 text-xs text-slate-500">{ROLE_LABELS[d.role] ?? d.role}</div>
+          <div className="flex-1">
+            <div className="font-medium">{d.label}</div>
+            <div className="text-xs text-slate-500">
+              Set up by {d.created_by}, {formatDateTimeET(d.created_at)}
+              {d.revoked_at && ` • revoked by ${d.revoked_by}, ${formatDateTimeET(d.revoked_at)}`}
+            </div>
+          </div>
+          {!d.revoked_at && <Button size="sm" variant="ghost" onClick={() => revoke(d)}>Revoke</Button>}
+        </div>
+      ))}
+      {devices.length === 0 && <div className="text-xs text-slate-500">No devices yet.</div>}
+      <div className="text-xs text-slate-500">
+        Open a screen (Room display or Door tablet) on the device while logged in as an admin and press Set up this screen. It then works without the admin login for 180 days, or until revoked here.
+      </div>
+    </div>
+  );
+}
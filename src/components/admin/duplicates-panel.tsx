@@ -0,0 +1,73 @@
+'use client';
+// src/components/admin/duplicates-panel.tsx
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { apiGet, apiPost } from "@/lib/api";
+import type { DuplicateCandidate } from "@/lib/server/duplicates";
+
+type Props = {
+  onMerged: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function DuplicatesPanel({ onMerged, onError }: Props) {
+  const [groups, setGroups] = useState<DuplicateCandidate[][] | null>(null);
+  const [survivors, setSurvivors] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  async function scan() {
+    setLoading(true);
+    const res = await apiGet<{ groups: DuplicateCandidate[][] }>('/api/admin/duplicates');
+    setLoading(false);
+    if (!res.ok) { onError(res, 'Duplicate scan failed'); return; }
+    setGroups(res.data.groups);
+    setSurvivors(Object.fromEntries(res.data.groups.map((g, i) => [i, g[0].id])));
+  }
+
+  async function merge(i: number) {
+    const group = groups?.[i];
+    const survivorId = survivors[i];
+    if (!group || !survivorId) return;
+    const survivor = group.find(c => c.id === survivorId)!;
+    const losers = group.filter(c => c.id !== survivorId);
+    if (!confirm(`Merge ${losers.map(l => l.name).join(', ')} into ${survivor.name}? Their sessions move to ${survivor.name} and the other rows are deleted.`)) return;
+    const res = await apiPost<{ sessions_moved: number }>('/api/admin/duplicates/merge', { survivorId, loserIds: losers.map(l => l.id) });
+    if (!res.ok) { onError(res, 'Merge failed'); return; }
+    // A cadet can sit in several groups; the merged-away ones leave every other group too.
+    const gone = new Set(losers.map(l => l.id));
+    const rest = (groups ?? []).flatMap((g, j) => {
+      if (j === i) return [];
+      const left = g.filter(c => !gone.has(c.id));
+      return left.length > 1 ? [{ g: left, survivor: left.some(c => c.id === survivors[j]) ? survivors[j] : left[0].id }] : [];
+    });
+    setGroups(rest.map(r => r.g));
+    setSurvivors(Object.fromEntries(rest.map((r, k) => [k, r.survivor])));
+    onMerged(`Merged into ${survivor.name} (${res.data.sessions_moved} sessions moved).`);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-slate-600">Likely duplicates (same class &amp; company, every name in a group similar to the others):</div>
+        <Button size="sm" variant="outline" onClick={scan} disabled={loading}>{loading ? "Scanning..." : groups ? "Rescan" : "Scan"}</Button>
+      </div>
+      {groups?.length === 0 && <div className="text-xs text-slate-500">No duplicates found.</div>}
+      {groups?.map((g, i) => (
+        <div key={g.map(c => c.id).join('-')} className="bg-slate-50 rounded-xl p-3 space-y-2">
+          {g.map(c => (
+            <label key={c.id} className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name={`survivor-${i}`} checked={survivors[i] === c.id} onChange={() => setSurvivors(s => ({ ...s, [i]: c.id }))} />
+              <span className="font-medium">{c.name}</span>
+              <span className="text-xs text-slate-600">
+                {c.klass} • {c.company} • {c.sessions} sessions{c.override !== null ? ` • override ${c.override} min` : ''}{c.roster_active ? ` • roster${c.cadet_number ? ` #${c.cadet_number}` : ''}` : ''}
+              </span>
+            </label>
+          ))}
+          <div className="flex justify-end">
+            <Button size="sm" variant="destructive" onClick={() => merge(i)}>Merge into selected</Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+// src/components/admin/exports-panel.tsx
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiDownload } from "@/lib/api";
+import { etDateKey, type Klass } from "@/lib/asp";
+import type { ExportFormat } from "@/lib/export";
+import { RANGE_LABELS, type LeaderboardRange } from "@/lib/leaderboard-range";
+
+type Props = {
+  range: LeaderboardRange;      // the Leaderboard card's current filter
+  klass: 'all' | Klass;
+  scope: string;                // company code or 'all'
+  scopeLabel: string;
+  unitLabel: string;
+  onDone: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function ExportsPanel({ range, klass, scope, scopeLabel, unitLabel, onDone, onError }: Props) {
+  const today = etDateKey(new Date());
+  const [from, setFrom] = useState(`${today.slice(0, 8)}01`);
+  const [to, setTo] = useState(today);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  async function download(report: string, format: ExportFormat, params: Record<string, string | undefined>) {
+    const q = new URLSearchParams({ report, format });
+    for (const [k, v] of Object.entries(params)) if (v) q.set(k, v);
+    if (scope !== 'all') q.set('company', scope);
+    setBusy(`${report}.${format}`);
+    const res = await apiDownload(`/api/admin/export?${q}`);
+    setBusy(null);
+    if (!res.ok) { onError(res, 'Export failed'); return; }
+    onDone(`Downloaded ${res.data.filename}.`);
+  }
+
+  const buttons = (report: string, params: Record<string, string | undefined>) => (
+    <div className="flex gap-2">
+      {(['csv', 'xlsx'] as const).map(f => (
+        <Button key={f} size="sm" variant="outline" disabled={busy !== null} onClick={() => download(report, f, params)}>
+          {busy === `${report}.${f}` ? "Preparing..." : f.toUpperCase()}
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="font-medium">Leaderboard</div>
+          <div className="text-xs text-slate-600">
+            As shown: {RANGE_LABELS[range.kind]}{range.kind === 'custom' ? ` (${range.from ?? '…'} to ${range.to ?? '…'})` : ''} • {klass === 'all' ? 'all classes' : klass} • {scopeLabel}
+          </div>
+        </div>
+        {buttons('leaderboard', { range: range.kind, from: range.from, to: range.to, klass: klass === 'all' ? undefined : klass })}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="font-medium">Sessions</div>
+          <div className="flex items-center gap-2 text-xs text-slate-600">
+            <Input type="date" className="w-[150px]" value={from} onChange={(e) => setFrom(e.target.value)} />
+            to
+            <Input type="date" className="w-[150px]" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        {buttons('sessions', { range: 'custom', from, to })}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="font-medium">{unitLabel} awards</div>
+          <div className="text-xs text-slate-600">Earned per rule, redeemed and available for {scopeLabel}; the XLSX adds the redemption ledger.</div>
+        </div>
+        {buttons('awards', {})}
+      </div>
+
+      <div className="text-xs text-slate-500">
+        Times are ET. Session minutes are capped at 2h per session; voided sessions are included and flagged, with 0 minutes.
+      </div>
+    </div>
+  );
+}
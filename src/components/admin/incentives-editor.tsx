@@ -0,0 +1,88 @@
+'use client';
+// src/components/admin/incentives-editor.tsx
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ALL_KLASSES, type Klass } from "@/lib/asp";
+import { apiFetch } from "@/lib/api";
+import { type IncentiveConfig, type IncentiveRule } from "@/lib/incentives";
+
+type Props = {
+  incentives: IncentiveConfig;
+  onSaved: (incentives: IncentiveConfig) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+// Blank number inputs mean "not set".
+const numOrUndef = (v: string) => (v.trim() === '' ? undefined : Math.floor(Number(v)));
+
+export function IncentivesEditor({ incentives, onSaved, onError }: Props) {
+  const [draft, setDraft] = useState<IncentiveConfig>(incentives);
+  const [saving, setSaving] = useState(false);
+  useEffect(() => { setDraft(incentives); }, [incentives]);
+
+  function patchRule(id: string, patch: Partial<IncentiveRule>) {
+    setDraft(d => ({ ...d, rules: d.rules.map(r => r.id === id ? { ...r, ...patch } : r) }));
+  }
+  function patchKlass(rule: IncentiveRule, k: Klass, v: string) {
+    patchRule(rule.id, { klass_minutes: { ...rule.klass_minutes, [k]: numOrUndef(v) } });
+  }
+
+  async function save() {
+    setSaving(true);
+    const res = await apiFetch<{ incentives: IncentiveConfig }>('PUT', '/api/admin/incentives', { incentives: draft });
+    setSaving(false);
+    if (!res.ok) { onError(res, 'Incentives save failed'); return; }
+    onSaved(res.data.incentives);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-slate-600">Incentive rules:</div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setDraft(incentives)} disabled={saving}>Reset</Button>
+          <Button size="sm" onClick={save} disabled={saving}>{saving ? "Saving..." : "Save rules"}</Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="text-xs font-medium text-slate-600">Reward unit</div>
+        <Input className="max-w-[160px]" value={draft.unit_label} onChange={(e) => setDraft(d => ({ ...d, unit_label: e.target.value }))} />
+      </div>
+
+      {draft.rules.map(r => (
+        <div key={r.id} className="bg-white rounded-xl p-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input placeholder="Rule name (e.g. Fall 2026)" className="max-w-[200px]" value={r.name} onChange={(e) => patchRule(r.id, { name: e.target.value })} />
+            <Input type="date" className="max-w-[150px]" value={r.start_date ?? ""} onChange={(e) => patchRule(r.id, { start_date: e.target.value || undefined })} />
+            <span className="text-slate-500">to</span>
+            <Input type="date" className="max-w-[150px]" value={r.end_date ?? ""} onChange={(e) => patchRule(r.id, { end_date: e.target.value || undefined })} />
+            <Button size="sm" variant="ghost" onClick={() => setDraft(d => ({ ...d, rules: d.rules.filter(x => x.id !== r.id) }))}>Remove</Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+            Minutes per unit
+            <Input type="number" min={1} className="w-20" value={r.minutes_per_unit} onChange={(e) => patchRule(r.id, { minutes_per_unit: Math.floor(Number(e.target.value)) })} />
+            {ALL_KLASSES.map(k => (
+              <label key={k} className="flex items-center gap-1">
+                {k}
+                <Input type="number" min={1} className="w-20" placeholder="same" value={r.klass_minutes?.[k] ?? ""} onChange={(e) => patchKlass(r, k, e.target.value)} />
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+            Cap
+            <Input type="number" min={0} className="w-20" placeholder="none" value={r.cap_units ?? ""} onChange={(e) => patchRule(r.id, { cap_units: numOrUndef(e.target.value) })} />
+            Perfect-attendance bonus
+            <Input type="number" min={0} className="w-20" placeholder="none" value={r.perfect_attendance_units ?? ""} onChange={(e) => patchRule(r.id, { perfect_attendance_units: numOrUndef(e.target.value) })} />
+          </div>
+        </div>
+      ))}
+      <Button size="sm" variant="outline" onClick={() => setDraft(d => ({ ...d, rules: [...d.rules, { id: crypto.randomUUID(), name: '', minutes_per_unit: 240 }] }))}>Add rule</Button>
+      <div className="text-xs text-slate-500">
+        Each rule counts only minutes between its dates (blank = open-ended), and rewards from all rules add up, so keep dated rules from overlapping.
+        Manual overrides only feed rules without dates. The attendance bonus is awarded after a dated rule ends if the cadet came every scheduled night.
+      </div>
+    </div>
+  );
+}
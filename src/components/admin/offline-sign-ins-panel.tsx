@@ -0,0 +1,53 @@
+'use client';
+// src/components/admin/offline-sign-ins-panel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { apiGet, apiPost } from "@/lib/api";
+import { formatDateTimeET } from "@/lib/asp";
+import type { OfflineSignIn } from "@/lib/server/sync";
+
+type Props = {
+  onSaved: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function OfflineSignInsPanel({ onSaved, onError }: Props) {
+  const [signIns, setSignIns] = useState<OfflineSignIn[]>([]);
+
+  const load = useCallback(async () => {
+    const res = await apiGet<{ signIns: OfflineSignIn[] }>('/api/admin/offline-sign-ins');
+    if (!res.ok) { onError(res, 'Load offline sign-ins failed'); return; }
+    setSignIns(res.data.signIns);
+  }, [onError]);
+  useEffect(() => { void load(); }, [load]);
+
+  async function resolve(s: OfflineSignIn, action: 'approve' | 'reject') {
+    const res = await apiPost('/api/admin/offline-sign-ins', { id: s.id, action });
+    if (!res.ok) { onError(res, action === 'approve' ? 'Approve failed' : 'Reject failed'); return; }
+    await load();
+    onSaved(`${action === 'approve' ? 'Approved' : 'Rejected'} ${s.name}'s offline sign-in.`);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-slate-600">Offline sign-ins that reached the server more than 5 minutes late:</div>
+      {signIns.map(s => (
+        <div key={s.id} className="flex items-center gap-2">
+          <div className="flex-1">
+            <div className="font-medium">{s.name} <span className="text-xs text-slate-500">{s.klass} • {s.company}</span></div>
+            <div className="text-xs text-slate-500">
+              Signed in {formatDateTimeET(s.sign_in_at)}
+              {s.sign_out_at ? `, out ${formatDateTimeET(s.sign_out_at)}` : ', no sign-out yet'}
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => resolve(s, 'approve')}>Approve</Button>
+          <Button size="sm" variant="ghost" onClick={() => resolve(s, 'reject')}>Reject</Button>
+        </div>
+      ))}
+      {signIns.length === 0 && <div className="text-xs text-slate-500">Nothing waiting.</div>}
+      <div className="text-xs text-slate-500">
+        Approving records the session at the times the device saved, with the same checks as a live sign-in.
+      </div>
+    </div>
+  );
+}
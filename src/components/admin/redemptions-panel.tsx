@@ -0,0 +1,104 @@
+'use client';
+// src/components/admin/redemptions-panel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiFetch, apiGet, apiPost } from "@/lib/api";
+import { etDateKey, type CadetBrief } from "@/lib/asp";
+import type { RewardBalance } from "@/lib/incentives";
+import type { Redemption } from "@/lib/server/redemptions";
+
+type Props = {
+  cadet: Pick<CadetBrief, 'id' | 'name'>;
+  unitLabel: string;
+  onChanged: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function RedemptionsPanel({ cadet, unitLabel, onChanged, onError }: Props) {
+  const [entries, setEntries] = useState<Redemption[]>([]);
+  const [balance, setBalance] = useState<RewardBalance | null>(null);
+  const [units, setUnits] = useState("1");
+  const [date, setDate] = useState(() => etDateKey(new Date()));
+  const [approver, setApprover] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    const [ledger, bal] = await Promise.all([
+      apiGet<{ redemptions: Redemption[] }>(`/api/redemptions?cadetId=${encodeURIComponent(cadet.id)}`),
+      apiGet<{ balance: RewardBalance }>(`/api/admin/redemptions?cadetId=${encodeURIComponent(cadet.id)}`),
+    ]);
+    if (!ledger.ok) { onError(ledger, 'Load redemptions failed'); return; }
+    if (!bal.ok) { onError(bal, 'Load balance failed'); return; }
+    setEntries(ledger.data.redemptions);
+    setBalance(bal.data.balance);
+  }, [cadet.id, onError]);
+  useEffect(() => { void load(); }, [load]);
+
+  async function redeem() {
+    setSaving(true);
+    const res = await apiPost<{ redemption: Redemption; balance: RewardBalance }>('/api/admin/redemptions', {
+      cadetId: cadet.id, units: Math.floor(Number(units)), redeemed_on: date, approver, note,
+    });
+    setSaving(false);
+    if (!res.ok) { onError(res, 'Redemption failed'); return; }
+    setEntries(es => [res.data.redemption, ...es]);
+    setBalance(res.data.balance);
+    setNote("");
+    onChanged(`Recorded ${res.data.redemption.units} ${unitLabel} redeemed for ${cadet.name}.`);
+  }
+
+  async function remove(r: Redemption) {
+    if (!confirm(`Delete the ${r.units} ${unitLabel} redeemed on ${r.redeemed_on}?`)) return;
+    const res = await apiFetch<{ deleted: string }>('DELETE', '/api/admin/redemptions', { id: r.id });
+    if (!res.ok) { onError(res, 'Delete redemption failed'); return; }
+    await load();
+    onChanged(`Deleted redemption for ${cadet.name}.`);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="font-medium">{unitLabel} redeemed</div>
+      {balance && (
+        <div className="text-xs text-slate-600">
+          Earned {balance.earned} • redeemed {balance.redeemed} • available <span className={balance.available < 0 ? 'text-red-600 font-semibold' : 'font-semibold'}>{balance.available}</span>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input type="number" min={1} className="w-20" value={units} onChange={(e) => setUnits(e.target.value)} />
+        <Input type="date" className="max-w-[150px]" value={date} onChange={(e) => setDate(e.target.value)} />
+        <Input className="max-w-[160px]" placeholder="Approver (you)" value={approver} onChange={(e) => setApprover(e.target.value)} />
+        <Input className="max-w-[220px]" placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+        <Button size="sm" variant="outline" onClick={redeem} disabled={saving || !date || !(Number(units) > 0)}>{saving ? "Saving..." : "Redeem"}</Button>
+      </div>
+      {entries.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead>Approver</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(r => (
+              <TableRow key={r.id}>
+                <TableCell>{r.redeemed_on}</TableCell>
+                <TableCell className="text-right">{r.units}</TableCell>
+                <TableCell>{r.approver}</TableCell>
+                <TableCell className="text-xs text-slate-600">{r.note ?? ''}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="ghost" onClick={() => remove(r)}>Delete</Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+// src/components/admin/removed-cadets.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { formatDateTimeET } from "@/lib/asp";
+import { repositories } from "@/lib/repositories";
+import type { RemovedCadet } from "@/lib/server/admin";
+
+type Props = {
+  refreshKey: number; // bump to reload after a Remove
+  onRestored: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function RemovedCadets({ refreshKey, onRestored, onError }: Props) {
+  const [cadets, setCadets] = useState<RemovedCadet[]>([]);
+
+  const load = useCallback(async () => {
+    const res = await repositories.cadets.removed();
+    if (!res.ok) { onError(res, 'Load removed cadets failed'); return; }
+    setCadets(res.data);
+  }, [onError]);
+  useEffect(() => { void load(); }, [load, refreshKey]);
+
+  async function restore(c: RemovedCadet) {
+    const res = await repositories.cadets.restore(c.id);
+    if (!res.ok) { onError(res, 'Restore failed'); return; }
+    setCadets(cs => cs.filter(x => x.id !== c.id));
+    onRestored(`Restored ${c.name} (${res.data.restored} sessions).`);
+  }
+
+  if (!cadets.length) return null;
+  return (
+    <div className="space-y-2">
+      <div className="text-slate-600">Removed cadets:</div>
+      {cadets.map(c => (
+        <div key={c.id} className="flex items-center justify-between bg-slate-50 rounded-xl p-3">
+          <div>
+            <div className="font-medium">{c.name}</div>
+            <div className="text-xs text-slate-600">
+              {c.klass} • {c.company} • {c.voided_sessions} voided sessions{c.removed_at ? ` • removed ${formatDateTimeET(c.removed_at)}` : ''}
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => restore(c)}>Restore</Button>
+        </div>
+      ))}
+    </div>
+  );
+}
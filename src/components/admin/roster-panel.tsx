@@ -0,0 +1,81 @@
+'use client';
+// src/components/admin/roster-panel.tsx
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiGet, apiPost } from "@/lib/api";
+import type { RosterRequest } from "@/lib/server/roster";
+
+type Props = {
+  onStatus: (msg: string) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function RosterPanel({ onStatus, onError }: Props) {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [requests, setRequests] = useState<RosterRequest[]>([]);
+
+  async function loadRequests() {
+    const res = await apiGet<{ requests: RosterRequest[] }>('/api/admin/roster/requests');
+    if (res.ok) setRequests(res.data.requests);
+  }
+  useEffect(() => { void loadRequests(); }, []);
+
+  async function importCsv() {
+    if (!csv.trim()) { onStatus('Choose a roster CSV first.'); return; }
+    setImporting(true);
+    const res = await apiPost<{ created: number; updated: number }>('/api/admin/roster/import', { csv });
+    setImporting(false);
+    if (!res.ok) { onError(res, 'Roster import failed'); return; }
+    setCsv(""); setFileName("");
+    onStatus(`Roster imported: ${res.data.created} new, ${res.data.updated} updated.`);
+  }
+
+  async function resolve(id: string, action: 'approve' | 'reject') {
+    const res = await apiPost('/api/admin/roster/requests', { id, action });
+    if (!res.ok) { onError(res, 'Request update failed'); return; }
+    setRequests(rs => rs.filter(r => r.id !== id));
+    onStatus(action === 'approve' ? 'Cadet added to roster.' : 'Request rejected.');
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-slate-600">Roster:</div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          className="max-w-[260px]"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            setFileName(file.name);
+            setCsv(await file.text());
+          }}
+        />
+        <Button size="sm" onClick={importCsv} disabled={importing || !csv}>{importing ? "Importing..." : "Import roster"}</Button>
+      </div>
+      <div className="text-xs text-slate-500">
+        {fileName ? `Ready: ${fileName}. ` : ''}Columns: name, class_year (or klass), company, cadet_number. Existing cadets are matched by cadet number, then by name.
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-600">Pending name requests ({requests.length})</div>
+        {requests.map(r => (
+          <div key={r.id} className="flex items-center justify-between bg-white rounded-xl p-2">
+            <div>
+              <div className="font-medium">{r.name}</div>
+              <div className="text-xs text-slate-600">{r.klass} • {r.company}</div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => resolve(r.id, 'approve')}>Approve</Button>
+              <Button size="sm" variant="ghost" onClick={() => resolve(r.id, 'reject')}>Reject</Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
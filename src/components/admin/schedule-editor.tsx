@@ -0,0 +1,115 @@
+'use client';
+// src/components/admin/schedule-editor.tsx
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatMinOfDay, parseMinOfDay } from "@/lib/asp";
+import { apiFetch } from "@/lib/api";
+import { WEEKDAY_LABELS, type AspSchedule, type ScheduleException, type Weekday } from "@/lib/schedule";
+
+type Props = {
+  schedule: AspSchedule;
+  onSaved: (schedule: AspSchedule) => void;
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+export function ScheduleEditor({ schedule, onSaved, onError }: Props) {
+  const [draft, setDraft] = useState<AspSchedule>(schedule);
+  const [saving, setSaving] = useState(false);
+  useEffect(() => { setDraft(schedule); }, [schedule]);
+
+  function timeInput(value: number | undefined, onChange: (min: number) => void) {
+    return (
+      <Input
+        type="time"
+        className="max-w-[120px]"
+        value={value === undefined ? "" : formatMinOfDay(value)}
+        onChange={(e) => { const m = parseMinOfDay(e.target.value); if (m !== null) onChange(m); }}
+      />
+    );
+  }
+  function patchException(id: string, patch: Partial<ScheduleException>) {
+    setDraft(d => ({ ...d, exceptions: d.exceptions.map(e => e.id === id ? { ...e, ...patch } : e) }));
+  }
+
+  async function save() {
+    setSaving(true);
+    const res = await apiFetch<{ schedule: AspSchedule }>('PUT', '/api/admin/schedule', { schedule: draft });
+    setSaving(false);
+    if (!res.ok) { onError(res, 'Schedule save failed'); return; }
+    onSaved(res.data.schedule);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-slate-600">ASP schedule (ET):</div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setDraft(schedule)} disabled={saving}>Reset</Button>
+          <Button size="sm" onClick={save} disabled={saving}>{saving ? "Saving..." : "Save schedule"}</Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-600">Weekly windows</div>
+        {draft.weekly.map((w, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Select value={String(w.weekday)} onValueChange={(v) => setDraft(d => ({ ...d, weekly: d.weekly.map((x, j) => j === i ? { ...x, weekday: Number(v) as Weekday } : x) }))}>
+              <SelectTrigger className="w-[90px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {WEEKDAY_LABELS.map((label, day) => <SelectItem key={day} value={String(day)}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {timeInput(w.start_min, (m) => setDraft(d => ({ ...d, weekly: d.weekly.map((x, j) => j === i ? { ...x, start_min: m } : x) })))}
+            <span className="text-slate-500">–</span>
+            {timeInput(w.end_min, (m) => setDraft(d => ({ ...d, weekly: d.weekly.map((x, j) => j === i ? { ...x, end_min: m } : x) })))}
+            <Button size="sm" variant="ghost" onClick={() => setDraft(d => ({ ...d, weekly: d.weekly.filter((_, j) => j !== i) }))}>Remove</Button>
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={() => setDraft(d => ({ ...d, weekly: [...d.weekly, { weekday: 0, start_min: 19*60 + 30, end_min: 21*60 + 30 }] }))}>Add weekly window</Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-600">Added / cancelled dates</div>
+        {draft.exceptions.map(e => (
+          <div key={e.id} className="flex flex-wrap items-center gap-2 bg-white rounded-xl p-2">
+            <Select value={e.kind} onValueChange={(v) => patchException(e.id, v === 'added'
+              ? { kind: 'added', start_min: e.start_min ?? 19*60 + 30, end_min: e.end_min ?? 21*60 + 30 }
+              : { kind: 'cancelled', start_min: undefined, end_min: undefined })}>
+              <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="added">Added</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input type="date" className="max-w-[150px]" value={e.start_date} onChange={(ev) => patchException(e.id, { start_date: ev.target.value })} />
+            <span className="text-slate-500">to</span>
+            <Input type="date" className="max-w-[150px]" value={e.end_date} onChange={(ev) => patchException(e.id, { end_date: ev.target.value })} />
+            {e.kind === 'added' && (
+              <>
+                {timeInput(e.start_min, (m) => patchException(e.id, { start_min: m }))}
+                <span className="text-slate-500">–</span>
+                {timeInput(e.end_min, (m) => patchException(e.id, { end_min: m }))}
+              </>
+            )}
+            <Input placeholder="Note (e.g. Thanksgiving leave)" className="max-w-[220px]" value={e.note ?? ""} onChange={(ev) => patchException(e.id, { note: ev.target.value })} />
+            <Button size="sm" variant="ghost" onClick={() => setDraft(d => ({ ...d, exceptions: d.exceptions.filter(x => x.id !== e.id) }))}>Remove</Button>
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={() => setDraft(d => ({ ...d, exceptions: [...d.exceptions, { id: crypto.randomUUID(), kind: 'cancelled', start_date: '', end_date: '' }] }))}>Add date exception</Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="text-xs font-medium text-slate-600">Nightly cap (minutes)</div>
+        <Input
+          type="number"
+          min={1}
+          className="max-w-[120px]"
+          value={draft.nightly_cap_min}
+          onChange={(e) => setDraft(d => ({ ...d, nightly_cap_min: Math.floor(Number(e.target.value)) }))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+// src/components/admin/session-import-panel.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiFetch, apiGet, apiPost } from "@/lib/api";
+import { TZ, formatDateTimeET } from "@/lib/asp";
+import type { ImportBatch, ImportRow, ImportRowStatus } from "@/lib/server/session-import";
+import { describeIssues } from "@/lib/session-validation";
+
+type Props = {
+  onImported: (msg: string) => void; // refresh the leaderboard
+  onError: (res: { status: number; error: string }, prefix: string) => void;
+};
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  ok: 'Ready', warning: 'Warning', error: 'Conflict', invalid: 'Invalid', unmatched: 'No match', ambiguous: 'Ambiguous', duplicate: 'Duplicate',
+};
+const importable = (r: ImportRow) => r.status === 'ok' || r.status === 'warning';
+const time = (iso: string | null) => iso ? new Date(iso).toLocaleTimeString('en-US', { timeZone: TZ, hour: 'numeric', minute: '2-digit' }) : '—';
+
+export function SessionImportPanel({ onImported, onError }: Props) {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+
+  const loadBatches = useCallback(async () => {
+    const res = await apiGet<{ batches: ImportBatch[] }>('/api/admin/sessions/import');
+    if (!res.ok) { onError(res, 'Loading imports failed'); return; }
+    setBatches(res.data.batches);
+  }, [onError]);
+  useEffect(() => { void loadBatches(); }, [loadBatches]);
+
+  // Ready rows start selected; warnings have to be ticked on purpose.
+  function showPreview(next: ImportRow[]) {
+    setRows(next);
+    setSelected(new Set(next.filter(r => r.status === 'ok').map(r => r.line)));
+  }
+
+  async function preview(text = csv) {
+    setBusy(true);
+    const res = await apiPost<{ rows: ImportRow[] }>('/api/admin/sessions/import', { csv: text });
+    setBusy(false);
+    if (!res.ok) { onError(res, 'Preview failed'); return; }
+    showPreview(res.data.rows);
+  }
+
+  async function commit() {
+    setBusy(true);
+    const res = await apiPost<{ created: number; skipped: number }>('/api/admin/sessions/import', { csv, filename: fileName, commit: true, lines: [...selected] });
+    setBusy(false);
+    if (!res.ok) {
+      if (Array.isArray(res.body?.rows)) showPreview(res.body.rows as ImportRow[]);
+      onError(res, 'Import failed');
+      return;
+    }
+    setCsv(""); setFileName(""); setRows(null);
+    onImported(`Imported ${res.data.created} sessions${res.data.skipped ? `, skipped ${res.data.skipped} rows` : ''}.`);
+    void loadBatches();
+  }
+
+  async function voidBatch(b: ImportBatch) {
+    if (!confirm(`Void all ${b.row_count} sessions imported from ${b.filename ?? 'this batch'}?`)) return;
+    const res = await apiFetch<{ voided: number }>('DELETE', '/api/admin/sessions/import', { batchId: b.id });
+    if (!res.ok) { onError(res, 'Voiding the import failed'); return; }
+    onImported(`Voided ${res.data.voided} imported sessions.`);
+    void loadBatches();
+  }
+
+  const toggle = (line: number, on: boolean) => setSelected(prev => {
+    const next = new Set(prev);
+    if (on) next.add(line); else next.delete(line);
+    return next;
+  });
+  const counts = (rows ?? []).reduce<Partial<Record<ImportRowStatus, number>>>((acc, r) => ({ ...acc, [r.status]: (acc[r.status] ?? 0) + 1 }), {});
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          className="max-w-[260px]"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            const text = await file.text();
+            setFileName(file.name);
+            setCsv(text);
+            void preview(text);
+          }}
+        />
+        {rows && <Button size="sm" variant="outline" onClick={() => preview()} disabled={busy}>Re-check</Button>}
+        {rows && <Button size="sm" onClick={commit} disabled={busy || selected.size === 0}>{busy ? "Working..." : `Import ${selected.size} rows`}</Button>}
+      </div>
+      <div className="text-xs text-slate-500">
+        Columns: name, class_year, company, date, sign_in, sign_out. Times are ET (19:30 or 7:30 PM); dates YYYY-MM-DD or M/D/YYYY.
+        Names must already be on the roster.
+      </div>
+
+      {rows && (
+        <>
+          <div className="text-xs text-slate-600">
+            {fileName}: {(Object.keys(counts) as ImportRowStatus[]).map(s => `${counts[s]} ${STATUS_LABELS[s].toLowerCase()}`).join(' • ')}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead>Line</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Matched cadet</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>In–out (ET)</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(r => (
+                <TableRow key={r.line} className={importable(r) ? undefined : 'text-slate-500'}>
+                  <TableCell>
+                    <input type="checkbox" disabled={!importable(r)} checked={selected.has(r.line)} onChange={(e) => toggle(r.line, e.target.checked)} />
+                  </TableCell>
+                  <TableCell>{r.line}</TableCell>
+                  <TableCell>{r.name} <span className="text-xs text-slate-500">{r.klass} • {r.company}</span></TableCell>
+                  <TableCell>{r.cadet ? `${r.cadet.name} (${r.cadet.klass} • ${r.cadet.company})` : '—'}</TableCell>
+                  <TableCell>{r.date}</TableCell>
+                  <TableCell>{time(r.sign_in)}–{time(r.sign_out)}</TableCell>
+                  <TableCell className="whitespace-normal">
+                    <div className={r.status === 'ok' ? 'text-green-700' : r.status === 'warning' ? 'text-amber-700' : 'text-red-700'}>{STATUS_LABELS[r.status]}</div>
+                    {r.message && <div className="text-xs">{r.message}</div>}
+                    {r.issues.length > 0 && <div className="text-xs">{describeIssues(r.issues)}</div>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-slate-600">Recent imports</div>
+        {batches.map(b => (
+          <div key={b.id} className="flex items-center justify-between bg-white rounded-xl p-2 text-xs">
+            <div>
+              <div className="font-medium">{b.filename ?? 'Untitled import'}</div>
+              <div className="text-slate-600">
+                {formatDateTimeET(b.created_at)} by {b.created_by} • {b.row_count} sessions{b.voided ? ` • ${b.voided} voided` : ''}
+              </div>
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => voidBatch(b)} disabled={b.voided >= b.row_count}>Void batch</Button>
+          </div>
+        ))}
+        {batches.length === 0 && <div className="text-xs text-slate-500">No imports yet.</div>}
+      </div>
+    </div>
+  );
+}
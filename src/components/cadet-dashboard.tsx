@@ -0,0 +1,134 @@
+'use client';
+// src/components/cadet-dashboard.tsx
+// The signed-in cadet's own numbers: total, rank, reward progress, weekly trend and history.
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiGet } from "@/lib/api";
+import { TZ, formatHM, type CadetBrief } from "@/lib/asp";
+import type { CadetDashboard as Dashboard, NightSummary } from "@/lib/cadet-stats";
+import { singularUnit } from "@/lib/incentives";
+import type { Redemption } from "@/lib/server/redemptions";
+
+type Props = {
+  cadet: CadetBrief;
+  unitLabel: string;
+  refreshKey: number;                               // bump after sign-in / sign-out
+  redemptions: Redemption[];
+  buildLocal?: (offset: number) => Promise<Dashboard | null>; // demo mode: built from the local repositories
+  onError: (msg: string) => void;
+};
+
+const time = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { timeZone: TZ, hour: 'numeric', minute: '2-digit' });
+const nightLabel = (key: string) => new Date(`${key}T12:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+
+export function CadetDashboard({ cadet, unitLabel, refreshKey, redemptions, buildLocal, onError }: Props) {
+  const [dash, setDash] = useState<Dashboard | null>(null);
+  const [nights, setNights] = useState<NightSummary[]>([]);
+
+  const load = useCallback(async (offset: number) => {
+    let next: Dashboard | null;
+    if (buildLocal) {
+      next = await buildLocal(offset);
+      if (!next) return;
+    } else {
+      const res = await apiGet<{ dashboard: Dashboard }>(`/api/dashboard?cadetId=${encodeURIComponent(cadet.id)}&offset=${offset}`);
+      if (!res.ok) { onError(`Dashboard failed: ${res.error}`); return; }
+      next = res.data.dashboard;
+    }
+    setDash(next);
+    setNights(prev => offset === 0 ? next.nights : [...prev, ...next.nights]);
+  }, [cadet.id, buildLocal, onError]);
+  useEffect(() => { void load(0); }, [load, refreshKey]);
+
+  if (!dash) return <div className="text-sm text-slate-500">Loading your stats…</div>;
+  const peak = Math.max(1, ...dash.weekly.map(w => w.minutes));
+  const rankText = (r: { rank: number; of: number } | null, label: string) => r ? `#${r.rank} of ${r.of} in ${label}` : `Not ranked in ${label} yet`;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="bg-slate-50 rounded-xl p-3">
+          <div className="text-xs text-slate-500">All-time total</div>
+          <div className="text-xl font-semibold">{formatHM(dash.total_min)}</div>
+          {dash.overridden && <div className="text-xs text-slate-500">Set by an admin</div>}
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3">
+          <div className="text-xs text-slate-500">Rank</div>
+          <div>{rankText(dash.rank.klass, dash.cadet.klass)}</div>
+          <div>{rankText(dash.rank.company, dash.cadet.company)}</div>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3">
+          <div className="text-xs text-slate-500">{unitLabel}</div>
+          <div>Earned <span className="font-semibold">{dash.balance.earned}</span> • redeemed <span className="font-semibold">{dash.balance.redeemed}</span> • available <span className="font-semibold">{dash.balance.available}</span></div>
+          {dash.next ? (
+            <div className="mt-2">
+              <div className="h-2 rounded bg-slate-200 overflow-hidden">
+                <div className="h-2 bg-slate-800" style={{ width: `${Math.round(100 * dash.next.minutes / dash.next.per_unit)}%` }} />
+              </div>
+              <div className="text-xs text-slate-500 mt-1">{formatHM(dash.next.remaining)} to your next {singularUnit(unitLabel)} ({dash.next.rule.name})</div>
+            </div>
+          ) : (
+            <div className="text-xs text-slate-500 mt-1">No incentive rule is running right now.</div>
+          )}
+        </div>
+      </div>
+
+      {redemptions.length > 0 && (
+        <ul className="text-xs text-slate-500 space-y-0.5">
+          {redemptions.map(r => (
+            <li key={r.id}>{r.redeemed_on}: {r.units} redeemed, approved by {r.approver}{r.note ? ` (${r.note})` : ''}</li>
+          ))}
+        </ul>
+      )}
+
+      <div>
+        <div className="text-xs text-slate-500 mb-1">Last {dash.weekly.length} weeks</div>
+        <div className="flex items-end gap-1 h-20">
+          {dash.weekly.map(w => (
+            <div key={w.week_start} className="flex-1 flex flex-col items-center justify-end h-full" title={`Week of ${w.week_start}: ${formatHM(w.minutes)}`}>
+              <div className="w-full bg-slate-800 rounded-t" style={{ height: `${Math.round(100 * w.minutes / peak)}%` }} />
+              <div className="text-[10px] text-slate-500 mt-1">{w.week_start.slice(5)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Night</TableHead>
+            <TableHead>Sessions (ET)</TableHead>
+            <TableHead className="text-right">Counted</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {nights.map(n => (
+            <TableRow key={n.night}>
+              <TableCell>{nightLabel(n.night)}</TableCell>
+              <TableCell className="text-xs text-slate-600">
+                {n.sessions.map(s => (
+                  <div key={s.id}>
+                    {time(s.sign_in)}–{s.sign_out ? time(s.sign_out) : 'now'}{s.auto_closed ? ' (auto sign-out)' : ''}
+                  </div>
+                ))}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatHM(n.minutes)}
+                {n.raw_min > n.minutes && <div className="text-xs text-slate-500">capped from {formatHM(n.raw_min)}</div>}
+              </TableCell>
+            </TableRow>
+          ))}
+          {nights.length === 0 && (
+            <TableRow><TableCell colSpan={3} className="text-center text-slate-500">No sessions yet.</TableCell></TableRow>
+          )}
+        </TableBody>
+      </Table>
+      {dash.has_more && (
+        <div className="flex justify-center">
+          <Button size="sm" variant="ghost" onClick={() => load(nights.length)}>Load older nights</Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+// src/components/cadet-picker.tsx
+// Searchable roster picker for sign-in (queries /api/roster as the cadet types).
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiGet } from "@/lib/api";
+import { type CadetBrief } from "@/lib/asp";
+
+type Props = {
+  value: CadetBrief | null;
+  onChange: (cadet: CadetBrief | null) => void;
+  company?: string; // limit matches to one company
+  placeholder?: string;
+};
+
+export function CadetPicker({ value, onChange, company, placeholder = "Search your name" }: Props) {
+  const [query, setQuery] = useState("");
+  const [matches, setMatches] = useState<CadetBrief[]>([]);
+
+  useEffect(() => {
+    if (value || query.trim().length < 2) { setMatches([]); return; }
+    const id = window.setTimeout(async () => {
+      const scope = company ? `&company=${encodeURIComponent(company)}` : '';
+      const res = await apiGet<{ cadets: CadetBrief[] }>(`/api/roster?q=${encodeURIComponent(query.trim())}${scope}`);
+      if (res.ok) setMatches(res.data.cadets);
+    }, 250);
+    return () => window.clearTimeout(id);
+  }, [query, value, company]);
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between bg-slate-50 rounded-xl p-3">
+        <div>
+          <div className="font-medium">{value.name}</div>
+          <div className="text-xs text-slate-600">{value.klass} • {value.company}</div>
+        </div>
+        <Button size="sm" variant="ghost" onClick={() => { onChange(null); setQuery(""); }}>Change</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Input placeholder={placeholder} value={query} onChange={(e) => setQuery(e.target.value)} />
+      {matches.length > 0 && (
+        <div className="border rounded-md bg-white max-h-56 overflow-y-auto">
+          {matches.map(c => (
+            <button
+              key={c.id}
+              type="button"
+              className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50"
+              onClick={() => { onChange(c); setMatches([]); }}
+            >
+              <span className="font-medium">{c.name}</span> <span className="text-xs text-slate-500">{c.klass} • {c.company}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {query.trim().length >= 2 && matches.length === 0 && (
+        <div className="text-xs text-slate-500">No roster match yet.</div>
+      )}
+    </div>
+  );
+}
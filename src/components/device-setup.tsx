@@ -0,0 +1,45 @@
+'use client';
+// src/components/device-setup.tsx
+// Shown on a shared screen that has no device cookie yet: an admin logged in on this browser
+// names the screen and sets it up (POST /api/admin/devices), after which it keeps working
+// without the admin login until revoked in Admin → Devices.
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiPost } from "@/lib/api";
+import type { DeviceRole } from "@/lib/server/device-auth";
+
+type Props = {
+  role: DeviceRole;
+  defaultLabel: string;
+  onReady: () => void;
+};
+
+export function DeviceSetup({ role, defaultLabel, onReady }: Props) {
+  const [label, setLabel] = useState(defaultLabel);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function setUp() {
+    setBusy(true);
+    const res = await apiPost<{ device: { id: string } }>('/api/admin/devices', { role, label });
+    setBusy(false);
+    if (!res.ok) {
+      setError(res.status === 401 ? "Log in as an admin on the main page in this browser, then try again." : res.error);
+      return;
+    }
+    setError(null);
+    onReady();
+  }
+
+  return (
+    <form className="flex flex-col items-center gap-2" onSubmit={(e) => { e.preventDefault(); void setUp(); }}>
+      <div className="text-slate-600">This screen is not set up yet.</div>
+      <div className="flex gap-2">
+        <Input className="w-56" value={label} onChange={(e) => setLabel(e.target.value)} />
+        <Button type="submit" disabled={busy || !label.trim()}>Set up this screen</Button>
+      </div>
+      {error && <div className="text-sm text-red-700">{error}</div>}
+    </form>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+// src/components/qr-code.tsx
+import React, { useMemo } from "react";
+import { encodeQr } from "@/lib/qr";
+
+const QUIET = 4; // modules of white border scanners expect
+
+export function QrCode({ value, size = 256 }: { value: string; size?: number }) {
+  const { n, path } = useMemo(() => {
+    const matrix = encodeQr(value);
+    const d = matrix.flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET} ${y + QUIET}h1v1h-1z` : ''))).join('');
+    return { n: matrix.length + 2 * QUIET, path: d };
+  }, [value]);
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${n} ${n}`} shapeRendering="crispEdges" role="img" aria-label="QR code">
+      <rect width={n} height={n} fill="white" />
+      <path d={path} fill="black" />
+    </svg>
+  );
+}
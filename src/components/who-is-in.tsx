@@ -0,0 +1,48 @@
+'use client';
+// src/components/who-is-in.tsx
+// Everyone signed in tonight, with time elapsed. Reloads /api/sessions/open on Realtime
+// changes to `sessions`, with a slow poll in case Realtime is not enabled.
+import React, { useCallback, useEffect, useState } from "react";
+import { apiGet } from "@/lib/api";
+import { formatHM } from "@/lib/asp";
+import { useSessionChanges } from "@/lib/realtime";
+import type { OpenSession } from "@/lib/server/sessions";
+
+const POLL_MS = 60_000;
+
+type Props = {
+  refreshKey?: number; // bump after this device signs someone in or out
+};
+
+export function WhoIsIn({ refreshKey = 0 }: Props) {
+  const [sessions, setSessions] = useState<OpenSession[] | null>(null);
+  const [nowTs, setNowTs] = useState(Date.now());
+
+  const load = useCallback(async () => {
+    const res = await apiGet<{ sessions: OpenSession[] }>('/api/sessions/open');
+    if (res.ok) setSessions(res.data.sessions);
+  }, []);
+  useEffect(() => { void load(); }, [load, refreshKey]);
+  useSessionChanges(() => { void load(); });
+  useEffect(() => {
+    const poll = window.setInterval(load, POLL_MS);
+    const tick = window.setInterval(() => setNowTs(Date.now()), 30_000);
+    return () => { window.clearInterval(poll); window.clearInterval(tick); };
+  }, [load]);
+
+  if (!sessions) return <div className="text-sm text-slate-500">Loading…</div>;
+  if (!sessions.length) return <div className="text-sm text-slate-500">Nobody is signed in.</div>;
+  return (
+    <ul className="divide-y text-sm">
+      {sessions.map(s => (
+        <li key={s.session_id} className="flex items-center justify-between py-2">
+          <div>
+            <div className="font-medium">{s.name}</div>
+            <div className="text-xs text-slate-500">{s.klass} • {s.company}</div>
+          </div>
+          <div className="font-mono text-slate-600">{formatHM(Math.max(0, Math.floor((nowTs - new Date(s.sign_in).getTime()) / 60000)))}</div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,138 @@
+// src/lib/analytics.ts
+// Attendance analytics for the admin Analytics tab: nightly headcount, class/company
+// breakdowns, arrival times and a weekday × time heatmap. Voided sessions never reach here.
+import { ALL_KLASSES, addDaysToKey, etDateKey, minutesOfDayET, weekdayOfKey, type Klass, type Session } from "@/lib/asp";
+import { creditedNights } from "@/lib/leaderboard-range";
+import { autoCloseAt, windowsOn, type AspSchedule, type Weekday } from "@/lib/schedule";
+
+export const SLOT_MIN = 15;
+
+export type AnalyticsSession = Pick<Session, 'cadet_id' | 'sign_in' | 'sign_out'> & { klass: Klass; company: string };
+export type RosterMember = { klass: Klass; company: string };
+
+// `minutes` per cadet is capped at the nightly limit; avg_min = minutes / headcount.
+export type NightStat = { night: string; scheduled: boolean; headcount: number; minutes: number; avg_min: number };
+// roster: roster-active cadets in the group; avg_headcount: cadet-nights / nights in the period.
+export type GroupStat = { key: string; roster: number; attendees: number; cadet_nights: number; minutes: number; avg_min: number; avg_headcount: number };
+export type ArrivalBucket = { start_min: number; count: number };
+// cells[i] = average cadets present in slot i (start_min + i * SLOT_MIN) over that weekday's nights.
+export type HeatmapRow = { weekday: Weekday; nights: number; cells: number[] };
+
+export type Analytics = {
+  nights: NightStat[];
+  by_class: GroupStat[];
+  by_company: GroupStat[];
+  arrivals: ArrivalBucket[];
+  heatmap: { start_min: number; rows: HeatmapRow[] };
+  totals: { nights: number; attendees: number; cadet_nights: number; minutes: number };
+};
+
+type Bounds = { from: Date | null; to: Date | null };
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export function buildAnalytics(sessions: AnalyticsSession[], roster: RosterMember[], schedule: AspSchedule, bounds: Bounds, now = new Date()): Analytics {
+  // Cadet-nights: credited minutes per cadet per ET night (sign-in date), as on the leaderboard.
+  const cadetOf = new Map(sessions.map(s => [s.cadet_id, { klass: s.klass, company: s.company }]));
+  const cadetNights = new Map<string, { night: string; cadet_id: string; klass: Klass; company: string; minutes: number }>();
+  for (const cn of creditedNights(schedule, sessions, bounds.from, bounds.to, now)) {
+    cadetNights.set(`${cn.night}|${cn.cadet_id}`, { ...cn, ...cadetOf.get(cn.cadet_id)!, minutes: Math.floor(cn.minutes) });
+  }
+
+  // Every scheduled night in the period (so empty nights show as zero), plus unscheduled
+  // nights that still have sessions.
+  const sessionNights = [...new Set([...cadetNights.values()].map(cn => cn.night))].sort();
+  const today = etDateKey(now);
+  const first = bounds.from ? etDateKey(bounds.from) : sessionNights[0];
+  const lastKey = bounds.to ? etDateKey(new Date(bounds.to.getTime() - 1)) : today;
+  const last = lastKey < today ? lastKey : today;
+  const scheduled = new Set<string>();
+  if (first) for (let k = first; k <= last; k = addDaysToKey(k, 1)) if (windowsOn(schedule, k).length) scheduled.add(k);
+  const allNights = [...new Set([...scheduled, ...sessionNights])].sort();
+
+  const nights: NightStat[] = allNights.map(night => {
+    const here = [...cadetNights.values()].filter(cn => cn.night === night);
+    const minutes = here.reduce((acc, cn) => acc + cn.minutes, 0);
+    return { night, scheduled: scheduled.has(night), headcount: here.length, minutes, avg_min: here.length ? Math.round(minutes / here.length) : 0 };
+  });
+
+  const group = (keyOf: (x: RosterMember) => string, keys: string[]): GroupStat[] => keys.map(key => {
+    const here = [...cadetNights.values()].filter(cn => keyOf(cn) === key);
+    const minutes = here.reduce((acc, cn) => acc + cn.minutes, 0);
+    return {
+      key,
+      roster: roster.filter(r => keyOf(r) === key).length,
+      attendees: new Set(here.map(cn => cn.cadet_id)).size,
+      cadet_nights: here.length,
+      minutes,
+      avg_min: here.length ? Math.round(minutes / here.length) : 0,
+      avg_headcount: allNights.length ? round1(here.length / allNights.length) : 0,
+    };
+  });
+  const companies = [...new Set([...roster.map(r => r.company), ...sessions.map(s => s.company)])].sort();
+
+  const arrivalCounts = new Map<number, number>();
+  for (const s of sessions) {
+    const slot = Math.floor(minutesOfDayET(new Date(s.sign_in)) / SLOT_MIN) * SLOT_MIN;
+    arrivalCounts.set(slot, (arrivalCounts.get(slot) ?? 0) + 1);
+  }
+
+  const cadetNightList = [...cadetNights.values()];
+  return {
+    nights,
+    by_class: group(x => x.klass, ALL_KLASSES),
+    by_company: group(x => x.company, companies),
+    arrivals: [...arrivalCounts.entries()].sort(([a], [b]) => a - b).map(([start_min, count]) => ({ start_min, count })),
+    heatmap: buildHeatmap(sessions, schedule, allNights, now),
+    totals: {
+      nights: allNights.length,
+      attendees: new Set(cadetNightList.map(cn => cn.cadet_id)).size,
+      cadet_nights: cadetNightList.length,
+      minutes: cadetNightList.reduce((acc, cn) => acc + cn.minutes, 0),
+    },
+  };
+}
+
+// Rows are the weekdays with weekly windows; columns span their earliest start to latest end.
+function buildHeatmap(sessions: AnalyticsSession[], schedule: AspSchedule, nights: string[], now: Date) {
+  const weekdays = [...new Set(schedule.weekly.map(w => w.weekday))].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  if (!weekdays.length) return { start_min: 0, rows: [] };
+  const start = Math.floor(Math.min(...schedule.weekly.map(w => w.start_min)) / SLOT_MIN) * SLOT_MIN;
+  const end = Math.max(...schedule.weekly.map(w => w.end_min));
+  const slots = Math.ceil((end - start) / SLOT_MIN);
+
+  const nightsByDay = new Map<Weekday, number>();
+  for (const n of nights) {
+    const wd = weekdayOfKey(n) as Weekday;
+    nightsByDay.set(wd, (nightsByDay.get(wd) ?? 0) + 1);
+  }
+
+  // Distinct cadets present per (night, slot); a session ends by its auto sign-out time and at midnight.
+  const present = new Set<string>();
+  const counts = new Map<string, number>(); // `${weekday}|${slot}` -> cadet-nights present
+  for (const s of sessions) {
+    const sin = new Date(s.sign_in);
+    const night = etDateKey(sin);
+    const wd = weekdayOfKey(night) as Weekday;
+    if (!weekdays.includes(wd)) continue;
+    const a = minutesOfDayET(sin);
+    const end = Math.min(s.sign_out ? new Date(s.sign_out).getTime() : now.getTime(), autoCloseAt(schedule, s).getTime());
+    const b = Math.min(24 * 60, a + Math.max(0, (end - sin.getTime()) / 60000));
+    for (let i = 0; i < slots; i++) {
+      const slotStart = start + i * SLOT_MIN;
+      if (b <= slotStart || a >= slotStart + SLOT_MIN) continue;
+      const key = `${night}|${s.cadet_id}|${i}`;
+      if (present.has(key)) continue;
+      present.add(key);
+      counts.set(`${wd}|${i}`, (counts.get(`${wd}|${i}`) ?? 0) + 1);
+    }
+  }
+
+  return {
+    start_min: start,
+    rows: weekdays.map(weekday => {
+      const n = nightsByDay.get(weekday) ?? 0;
+      return { weekday, nights: n, cells: Array.from({ length: slots }, (_, i) => (n ? round1((counts.get(`${weekday}|${i}`) ?? 0) / n) : 0)) };
+    }),
+  };
+}
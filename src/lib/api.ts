@@ -0,0 +1,47 @@
+// src/lib/api.ts
+// Small fetch wrapper for the app's own route handlers (JSON in, JSON out).
+import { errMsg } from "@/lib/asp";
+
+// `body` is the parsed error response, for routes that return more than `error`.
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; status: number; error: string; body?: Record<string, unknown> };
+
+export async function apiFetch<T>(method: string, path: string, body?: unknown): Promise<ApiResult<T>> {
+  try {
+    const res = await fetch(path, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      credentials: "same-origin",
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) return { ok: false, status: res.status, error: (json as {error?: string}).error ?? res.statusText, body: json as Record<string, unknown> };
+    return { ok: true, data: json as T };
+  } catch (e) {
+    return { ok: false, status: 0, error: errMsg(e) };
+  }
+}
+
+export const apiGet = <T>(path: string) => apiFetch<T>("GET", path);
+export const apiPost = <T>(path: string, body: unknown) => apiFetch<T>("POST", path, body);
+
+// GET a file (e.g. an export) and hand it to the browser as a download. Errors come back
+// as JSON like any other route.
+export async function apiDownload(path: string): Promise<ApiResult<{ filename: string }>> {
+  try {
+    const res = await fetch(path, { credentials: "same-origin" });
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      return { ok: false, status: res.status, error: (json as {error?: string}).error ?? res.statusText, body: json as Record<string, unknown> };
+    }
+    const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ?? 'export';
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+    return { ok: true, data: { filename } };
+  } catch (e) {
+    return { ok: false, status: 0, error: errMsg(e) };
+  }
+}
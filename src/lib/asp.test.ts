@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { fromLocalInputET, toLocalInputET } from "@/lib/asp";
+
+// Every quarter hour of an ET day as a datetime-local value.
+const quarterHours = (day: string) =>
+  Array.from({ length: 96 }, (_, i) => `${day}T${String(Math.floor(i / 4)).padStart(2, '0')}:${String((i % 4) * 15).padStart(2, '0')}`);
+
+describe("datetime-local values in ET", () => {
+  it("reads and writes EDT and EST wall-clock times", () => {
+    expect(fromLocalInputET("2026-10-19T19:30")).toBe("2026-10-19T23:30:00.000Z");
+    expect(fromLocalInputET("2026-12-02T19:30")).toBe("2026-12-03T00:30:00.000Z");
+    expect(toLocalInputET("2026-10-19T23:30:00.000Z")).toBe("2026-10-19T19:30");
+    expect(toLocalInputET("2026-12-03T00:30:00.000Z")).toBe("2026-12-02T19:30");
+  });
+
+  it("round-trips every time on the day DST starts, skipping the missing hour", () => {
+    expect(fromLocalInputET("2026-03-08T01:45")).toBe("2026-03-08T06:45:00.000Z");
+    expect(fromLocalInputET("2026-03-08T03:00")).toBe("2026-03-08T07:00:00.000Z");
+    for (const v of quarterHours("2026-03-08").filter(v => !v.includes("T02:"))) {
+      expect(toLocalInputET(fromLocalInputET(v)!)).toBe(v);
+    }
+  });
+
+  it("round-trips every time on the day DST ends, taking the first 1 a.m.", () => {
+    expect(fromLocalInputET("2026-11-01T01:30")).toBe("2026-11-01T05:30:00.000Z");
+    expect(toLocalInputET("2026-11-01T06:30:00.000Z")).toBe("2026-11-01T01:30"); // the second one, EST
+    expect(fromLocalInputET("2026-11-01T02:00")).toBe("2026-11-01T07:00:00.000Z");
+    for (const v of quarterHours("2026-11-01")) {
+      expect(toLocalInputET(fromLocalInputET(v)!)).toBe(v);
+    }
+  });
+
+  it("rejects values that are not datetime-local", () => {
+    expect(fromLocalInputET("")).toBeNull();
+    expect(fromLocalInputET("2026-10-19 19:30")).toBeNull();
+    expect(fromLocalInputET("19:30")).toBeNull();
+  });
+});
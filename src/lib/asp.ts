@@ -0,0 +1,145 @@
+// src/lib/asp.ts
+// Shared ASP config, time helpers and types (used by the page and the API routes).
+
+// ---------- Config / helpers ----------
+export const TZ = "America/New_York";
+export const TWO_HOURS_MIN = 120;
+export const TWO_HOURS_SEC = TWO_HOURS_MIN * 60;
+
+export type Klass = '1C' | '2C' | '3C' | '4C';
+export const ALL_KLASSES: Klass[] = ['1C','2C','3C','4C'];
+
+export function isKlass(v: unknown): v is Klass {
+  return typeof v === 'string' && (ALL_KLASSES as string[]).includes(v);
+}
+
+export function nyNow() { return new Date(); }
+
+// Graduation year → class (1C = graduating this academic year, which ends in June).
+export function klassForClassYear(classYear: number, now = new Date()): Klass | null {
+  const ayEnd = now.getMonth() >= 6 ? now.getFullYear() + 1 : now.getFullYear();
+  return ALL_KLASSES[classYear - ayEnd] ?? null;
+}
+
+export function pad2(n: number) { return n.toString().padStart(2, '0'); }
+export function formatHMS(totalSeconds: number) {
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = Math.floor(totalSeconds % 60);
+  return `${pad2(h)}:${pad2(m)}:${pad2(s)}`;
+}
+export function formatHM(totalMinutes: number) {
+  const h = Math.floor(totalMinutes / 60);
+  const m = Math.floor(totalMinutes % 60);
+  return `${h}h ${m}m`;
+}
+export function msToMin(ms: number) { return Math.max(0, Math.floor(ms / 60000)); }
+export function errMsg(e: unknown) { return e instanceof Error ? e.message : String(e); }
+
+// Name normalization: trim, collapse spaces
+export function normalizeName(raw: string) {
+  return raw.trim().replace(/\s+/g, " ");
+}
+
+// ET helpers
+export function etParts(d: Date) {
+  const fmt = new Intl.DateTimeFormat("en-US", { timeZone: TZ, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", hour12: false });
+  const parts = fmt.formatToParts(d).reduce((acc, p) => { acc[p.type] = p.value; return acc; }, {} as Record<string,string>);
+  return {
+    y: parseInt(parts.year!,10),
+    m: parseInt(parts.month!,10),
+    da: parseInt(parts.day!,10),
+    h: parseInt(parts.hour!,10) % 24, // some engines emit "24" at midnight
+    mi: parseInt(parts.minute!,10),
+  };
+}
+export function etDateKey(d: Date) {
+  const { y,m,da } = etParts(d);
+  return `${y}-${pad2(m)}-${pad2(da)}`; // YYYY-MM-DD (ET)
+}
+export function minutesOfDayET(d: Date) {
+  const { h, mi } = etParts(d);
+  return h*60 + mi;
+}
+export function overlapMinutesET(aStartMin: number, aEndMin: number, bStartMin: number, bEndMin: number) {
+  const a1 = Math.max(aStartMin, bStartMin);
+  const b1 = Math.min(aEndMin, bEndMin);
+  return Math.max(0, b1 - a1);
+}
+
+// Date-key arithmetic (YYYY-MM-DD, ET calendar days)
+export function addDaysToKey(key: string, days: number) {
+  const [y, m, d] = key.split('-').map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d + days));
+  return `${dt.getUTCFullYear()}-${pad2(dt.getUTCMonth()+1)}-${pad2(dt.getUTCDate())}`;
+}
+export function weekdayOfKey(key: string) { // 0 = Sunday
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+// ET wall-clock (date key + minute of day) → instant. Resolves the UTC offset twice so
+// it stays correct on DST transition days.
+export function etInstant(key: string, minOfDay: number) {
+  const [y, m, d] = key.split('-').map(Number);
+  const wall = Date.UTC(y, m - 1, d, Math.floor(minOfDay / 60), minOfDay % 60);
+  const offsetAt = (ts: number) => {
+    const p = etParts(new Date(ts));
+    return Date.UTC(p.y, p.m - 1, p.da, p.h, p.mi) - Math.floor(ts / 60000) * 60000;
+  };
+  let ts = wall - offsetAt(wall);
+  ts = wall - offsetAt(ts);
+  return new Date(ts);
+}
+
+// <input type="datetime-local"> values ("YYYY-MM-DDTHH:mm") as ET wall-clock time, so
+// admin edits mean the same thing whatever zone the browser is in. In the repeated hour
+// when DST ends, parsing picks the first (EDT) occurrence.
+export function toLocalInputET(iso: string) {
+  const { y, m, da, h, mi } = etParts(new Date(iso));
+  return `${y}-${pad2(m)}-${pad2(da)}T${pad2(h)}:${pad2(mi)}`;
+}
+export function fromLocalInputET(value: string): string | null {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  return etInstant(match[1], Number(match[2]) * 60 + Number(match[3])).toISOString();
+}
+
+export function formatDateTimeET(iso: string) {
+  return new Date(iso).toLocaleString('en-US', { timeZone: TZ, month:'short', day:'numeric', hour:'numeric', minute:'2-digit' }) + ' ET';
+}
+
+export function formatMinOfDay(min: number) { return `${pad2(Math.floor(min / 60))}:${pad2(min % 60)}`; }
+export function parseMinOfDay(hhmm: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!m) return null;
+  const h = Number(m[1]), mi = Number(m[2]);
+  return h < 24 && mi < 60 ? h * 60 + mi : null;
+}
+
+// ---------- Types ----------
+export type Cadet = {
+  id: string;
+  name: string;
+  klass: Klass;
+  company: string;
+  created_at?: string;
+  cadet_number?: string | null;  // official roster id
+  class_year?: number | null;
+  roster_active?: boolean;
+};
+export type CadetBrief = Pick<Cadet, 'id' | 'name' | 'klass' | 'company'>;
+export type Company = {
+  code: string;          // what cadets.company stores, e.g. "G1"
+  display_name: string;  // e.g. "Company G1"
+  active: boolean;
+  roster_size?: number;  // roster-active cadets (from listCompanies)
+};
+export type Session = {
+  id: string;
+  cadet_id: string;
+  sign_in: string;          // ISO
+  sign_out: string | null;  // ISO
+  voided?: boolean;
+  auto_closed?: boolean;    // closed by the auto sign-out sweeper
+};
@@ -0,0 +1,71 @@
+// src/lib/cadet-stats.ts
+// A cadet's own numbers for the dashboard: nights attended, weekly trend and rank. Built on
+// the server from Supabase rows, or in the browser from the local repositories in demo mode.
+import { addDaysToKey, etDateKey, etInstant, weekdayOfKey, type CadetBrief, type Klass, type Session } from "@/lib/asp";
+import type { NextReward, RewardBalance } from "@/lib/incentives";
+import { creditedNights, sessionMinutesInRange } from "@/lib/leaderboard-range";
+import type { AspSchedule } from "@/lib/schedule";
+
+export const DASHBOARD_NIGHTS = 10; // nights per page of history
+export const TREND_WEEKS = 8;
+
+export type DashboardSession = Pick<Session, 'id' | 'sign_in' | 'sign_out' | 'auto_closed'> & { minutes: number };
+// One ET night; `minutes` is capped at the nightly limit, `raw_min` is the uncapped sum.
+export type NightSummary = { night: string; minutes: number; raw_min: number; sessions: DashboardSession[] };
+export type WeekTotal = { week_start: string; minutes: number }; // Monday, ET
+export type Rank = { rank: number; of: number };
+
+export type CadetDashboard = {
+  cadet: CadetBrief;
+  total_min: number;
+  overridden: boolean;
+  rank: { klass: Rank | null; company: Rank | null };
+  weekly: WeekTotal[];
+  nights: NightSummary[];
+  has_more: boolean;
+  balance: RewardBalance;
+  next: NextReward | null;
+};
+
+// Newest night first. Sessions count inside the night's windows, as on the leaderboard.
+export function summarizeNights(sessions: Session[], schedule: AspSchedule, now = new Date()): NightSummary[] {
+  const byNight = new Map<string, DashboardSession[]>();
+  for (const s of sessions) {
+    if (s.voided) continue;
+    const night = etDateKey(new Date(s.sign_in));
+    const list = byNight.get(night) ?? [];
+    list.push({ id: s.id, sign_in: s.sign_in, sign_out: s.sign_out, auto_closed: s.auto_closed, minutes: Math.floor(sessionMinutesInRange(schedule, s, null, null, now)) });
+    byNight.set(night, list);
+  }
+  return [...byNight.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([night, list]) => {
+      const raw = list.reduce((acc, s) => acc + s.minutes, 0);
+      return { night, minutes: Math.min(raw, schedule.nightly_cap_min), raw_min: raw, sessions: list.sort((a, b) => a.sign_in.localeCompare(b.sign_in)) };
+    });
+}
+
+// Minutes per ET week (Monday start) for the last `weeks` weeks, oldest first.
+export function weeklyTrend(sessions: Session[], schedule: AspSchedule, weeks = TREND_WEEKS, now = new Date()): WeekTotal[] {
+  const today = etDateKey(now);
+  const monday = addDaysToKey(today, -((weekdayOfKey(today) + 6) % 7));
+  const out: WeekTotal[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const start = addDaysToKey(monday, -7 * i);
+    const from = etInstant(start, 0), to = etInstant(addDaysToKey(start, 7), 0);
+    const minutes = creditedNights(schedule, sessions, from, to, now).reduce((acc, cn) => acc + cn.minutes, 0);
+    out.push({ week_start: start, minutes: Math.floor(minutes) });
+  }
+  return out;
+}
+
+// Rank by total minutes among cadets in the same class and company; ties share a rank.
+export function rankWithin(rows: Array<{ cadetId?: string; klass: Klass; company: string; total: number }>, cadet: CadetBrief) {
+  const me = rows.find(r => r.cadetId === cadet.id);
+  const rankIn = (group: typeof rows): Rank | null =>
+    me ? { rank: 1 + group.filter(r => r.total > me.total).length, of: group.length } : null;
+  return {
+    klass: rankIn(rows.filter(r => r.klass === cadet.klass)),
+    company: rankIn(rows.filter(r => r.company === cadet.company)),
+  };
+}
@@ -0,0 +1,50 @@
+// src/lib/companies.ts
+// Company codes and the company-vs-company standings.
+import { type Company } from "@/lib/asp";
+
+export const DEFAULT_COMPANY = 'G1';
+
+// "g-1 " → "G-1"; null when it is not a plausible code.
+export function normalizeCompanyCode(raw: string): string | null {
+  const code = raw.trim().toUpperCase();
+  return /^[A-Z0-9][A-Z0-9-]{0,7}$/.test(code) ? code : null;
+}
+
+export function companyLabel(companies: Company[], code: string) {
+  return companies.find(c => c.code === code)?.display_name ?? `Company ${code}`;
+}
+
+export type CompanyStanding = {
+  code: string;
+  display_name: string;
+  cadets: number;        // cadets with minutes on the board
+  members: number;       // per-capita denominator: roster size, else `cadets`
+  total_min: number;
+  per_capita_min: number;
+};
+
+// Aggregates leaderboard rows (totals already override-adjusted) per company.
+export function rankCompanies(rows: Array<{ company: string; total: number }>, companies: Company[], by: 'total' | 'per_capita'): CompanyStanding[] {
+  const acc = new Map<string, { cadets: number; total: number }>();
+  for (const r of rows) {
+    const a = acc.get(r.company) ?? { cadets: 0, total: 0 };
+    a.cadets++; a.total += r.total;
+    acc.set(r.company, a);
+  }
+  for (const c of companies) if (c.active && !acc.has(c.code)) acc.set(c.code, { cadets: 0, total: 0 });
+
+  const standings = [...acc.entries()].map(([code, a]) => {
+    const rosterSize = companies.find(c => c.code === code)?.roster_size ?? 0;
+    const members = rosterSize || a.cadets;
+    return {
+      code,
+      display_name: companyLabel(companies, code),
+      cadets: a.cadets,
+      members,
+      total_min: a.total,
+      per_capita_min: members ? Math.floor(a.total / members) : 0,
+    };
+  });
+  const key = (s: CompanyStanding) => (by === 'total' ? s.total_min : s.per_capita_min);
+  return standings.sort((a, b) => key(b) - key(a) || b.total_min - a.total_min);
+}
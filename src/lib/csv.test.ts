@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvRecords, toCsv } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, escaped quotes and line breaks", () => {
+    expect(parseCsv('name,note\r\n"Able, Alice","said ""hi""\nthen left"\r\n')).toEqual([
+      ["name", "note"],
+      ["Able, Alice", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it("accepts LF, CRLF and a missing final newline, and skips blank lines", () => {
+    expect(parseCsv("a,b\n1,2\r\n\r\n,\n3,4")).toEqual([["a", "b"], ["1", "2"], ["3", "4"]]);
+  });
+
+  it("keeps empty fields", () => {
+    expect(parseCsv('a,,""\n')).toEqual([["a", "", ""]]);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  it("keys rows by the normalised header, dropping a BOM and trimming values", () => {
+    expect(parseCsvRecords('\uFEFFName,Class Year, Sign In\n Alice Able ,2027\n')).toEqual([
+      { name: "Alice Able", class_year: "2027", sign_in: "" },
+    ]);
+  });
+
+  it("returns nothing for an empty file", () => {
+    expect(parseCsvRecords("")).toEqual([]);
+  });
+});
+
+describe("toCsv", () => {
+  it("round-trips through parseCsv", () => {
+    const rows = [["Able, Alice", 'say "hi"', "two\nlines"], ["plain", "", "3"]];
+    expect(parseCsv(toCsv(["a", "b", "c"], rows))).toEqual([["a", "b", "c"], ...rows]);
+  });
+});
@@ -0,0 +1,69 @@
+// src/lib/duplicates.ts
+// Groups cadet rows that are probably the same person (name variants created by free-typed sign-ins).
+import { type Cadet } from "@/lib/asp";
+
+// Lower-case, strip punctuation, collapse spaces: "Smith, John  Q." → "smith john q"
+export function nameKey(raw: string) {
+  return raw.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function levenshtein(a: string, b: string) {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+// "J Smith" ~ "John Smith", "Jon Smith" ~ "John Smith", "Smith John" ~ "John Smith".
+export function namesLikelySame(a: string, b: string) {
+  const ka = nameKey(a), kb = nameKey(b);
+  if (!ka || !kb) return false;
+  if (ka === kb) return true;
+  const ta = ka.split(' '), tb = kb.split(' ');
+  if ([...ta].sort().join(' ') === [...tb].sort().join(' ')) return true;
+  const lastA = ta[ta.length - 1], lastB = tb[tb.length - 1];
+  if (lastA === lastB && ta.length > 1 && tb.length > 1) {
+    const fa = ta[0], fb = tb[0];
+    if (fa[0] === fb[0] && (fa.length === 1 || fb.length === 1 || fa.startsWith(fb) || fb.startsWith(fa))) return true;
+  }
+  const maxTypos = Math.min(ka.length, kb.length) >= 8 ? 2 : 1;
+  return levenshtein(ka, kb) <= maxTypos;
+}
+
+// Returns groups of 2+ cadets with the same class and company in which every pair of names
+// matches directly (A~B and B~C never puts A with C unless A~C). A cadet resembling people
+// who don't resemble each other appears in more than one group.
+export function findDuplicateGroups<T extends Pick<Cadet, 'id' | 'name' | 'klass' | 'company'>>(cadets: T[]): T[][] {
+  const buckets = new Map<string, T[]>();
+  for (const c of cadets) {
+    const k = `${c.klass}|${c.company.trim().toLowerCase()}`;
+    buckets.set(k, [...(buckets.get(k) ?? []), c]);
+  }
+
+  const groups: T[][] = [];
+  for (const bucket of buckets.values()) {
+    const same = bucket.map((a, i) => bucket.map((b, j) => i !== j && namesLikelySame(a.name, b.name)));
+    const found: number[][] = [];
+    // Grow a group from every matching pair not already covered, adding only cadets that
+    // match all current members.
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        if (!same[i][j] || found.some(g => g.includes(i) && g.includes(j))) continue;
+        const g = [i, j];
+        for (let k = 0; k < bucket.length; k++) {
+          if (!g.includes(k) && g.every(m => same[m][k])) g.push(k);
+        }
+        found.push(g.sort((a, b) => a - b));
+      }
+    }
+    for (const g of found) groups.push(g.map(i => bucket[i]));
+  }
+  return groups;
+}
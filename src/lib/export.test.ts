@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { safeText, sheetToCsv } from "@/lib/export";
+
+describe("safeText", () => {
+  it("prefixes text a spreadsheet would run as a formula", () => {
+    for (const v of ["=1+1", "+SUM(A1)", "-2+3", "@cmd", "\tx", "\rx"]) expect(safeText(v)).toBe(`'${v}`);
+  });
+
+  it("leaves other text alone", () => {
+    for (const v of ["Alice Able", "O'Neil", "a=b", ""]) expect(safeText(v)).toBe(v);
+  });
+});
+
+describe("sheetToCsv", () => {
+  it("escapes formulas in text cells only, and quotes fields that need it", () => {
+    const csv = sheetToCsv({
+      name: "Leaderboard",
+      columns: ["Name", "Minutes"],
+      rows: [["=HYPERLINK(\"x\")", -30], ["Able, Alice", 90], ["Line\nbreak", null]],
+    });
+    expect(csv).toBe('\uFEFFName,Minutes\r\n"\'=HYPERLINK(""x"")",-30\r\n"Able, Alice",90\r\n"Line\nbreak",\r\n');
+  });
+});
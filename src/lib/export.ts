@@ -0,0 +1,20 @@
+// src/lib/export.ts
+// Tabular exports: a report is one or more sheets; CSV carries the first sheet only.
+import { toCsv } from "@/lib/csv";
+
+export type Cell = string | number | boolean | null;
+export type Sheet = { name: string; columns: string[]; rows: Cell[][] };
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// CSV text that a spreadsheet would run as a formula (cadet names are typed by cadets) gets a
+// leading apostrophe. XLSX cells are written as inline strings, which are never evaluated.
+export function safeText(v: string) {
+  return /^[=+\-@\t\r]/.test(v) ? `'${v}` : v;
+}
+
+// CSV of one sheet, with a UTF-8 BOM so Excel reads accented names correctly.
+export function sheetToCsv(sheet: Sheet) {
+  return '\uFEFF' + toCsv(sheet.columns, sheet.rows.map(r => r.map(v => (typeof v === 'string' ? safeText(v) : v))));
+}
@@ -0,0 +1,165 @@
+// src/lib/incentives.ts
+// Incentive rules (how ASP minutes turn into PMI days), stored as data in asp_settings so
+// leadership can change them each semester. earnedRewards() is the one place rewards are computed.
+import { ALL_KLASSES, addDaysToKey, formatHM, isKlass, type Klass } from "@/lib/asp";
+import { windowsOn, type AspSchedule } from "@/lib/schedule";
+
+export type IncentiveRule = {
+  id: string;
+  name: string;                                     // e.g. "Fall 2026"
+  minutes_per_unit: number;                         // e.g. 240 min = 1 unit
+  klass_minutes?: Partial<Record<Klass, number>>;   // per-class threshold, e.g. { '4C': 180 }
+  cap_units?: number;                               // most units this rule can award
+  start_date?: string;                              // YYYY-MM-DD (ET), inclusive; open-ended when absent
+  end_date?: string;
+  perfect_attendance_units?: number;                // bonus once a dated period ends with every scheduled night attended
+};
+
+export type IncentiveConfig = {
+  unit_label: string; // plural, e.g. "PMI days"
+  rules: IncentiveRule[];
+};
+
+export const DEFAULT_INCENTIVES: IncentiveConfig = {
+  unit_label: 'PMI days',
+  rules: [{ id: 'default', name: 'All ASP time', minutes_per_unit: 240 }],
+};
+
+// A cadet's minutes (and distinct ET nights attended) inside one rule's dates.
+export type RuleProgress = { minutes: number; nights: number };
+
+export type RewardLine = { rule: IncentiveRule; units: number; capped: boolean; bonus: number };
+export type Rewards = { units: number; lines: RewardLine[] };
+
+// Rules without dates count all-time minutes, the same total the all-time board shows.
+export function isUndated(rule: IncentiveRule) {
+  return !rule.start_date && !rule.end_date;
+}
+
+export function minutesPerUnit(rule: IncentiveRule, klass: Klass) {
+  return rule.klass_minutes?.[klass] ?? rule.minutes_per_unit;
+}
+
+// ET date keys for asp_leaderboard_range / rangeBounds({ kind: 'custom' }).
+export function ruleRange(rule: IncentiveRule) {
+  return { kind: 'custom' as const, from: rule.start_date, to: rule.end_date };
+}
+
+// Scheduled ASP nights in each dated rule that has already ended (for the attendance bonus).
+export function scheduledNightsByRule(config: IncentiveConfig, schedule: AspSchedule, today: string): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const r of config.rules) {
+    if (!r.perfect_attendance_units || !r.start_date || !r.end_date || r.end_date >= today) continue;
+    let n = 0;
+    for (let k = r.start_date; k <= r.end_date; k = addDaysToKey(k, 1)) if (windowsOn(schedule, k).length) n++;
+    out[r.id] = n;
+  }
+  return out;
+}
+
+// `progress` is keyed by rule id; rules without progress count as zero minutes.
+export function earnedRewards(config: IncentiveConfig, klass: Klass, progress: Record<string, RuleProgress>, scheduledNights: Record<string, number> = {}): Rewards {
+  const lines = config.rules.map(rule => {
+    const p = progress[rule.id] ?? { minutes: 0, nights: 0 };
+    const raw = Math.floor(p.minutes / minutesPerUnit(rule, klass));
+    const capped = rule.cap_units !== undefined && raw > rule.cap_units;
+    const needed = scheduledNights[rule.id];
+    const bonus = needed && p.nights >= needed ? rule.perfect_attendance_units ?? 0 : 0;
+    return { rule, units: (capped ? rule.cap_units! : raw) + bonus, capped, bonus };
+  });
+  return { units: lines.reduce((acc, l) => acc + l.units, 0), lines };
+}
+
+// Minutes toward the next unit in the first rule that is running today and not yet capped.
+export type NextReward = { rule: IncentiveRule; minutes: number; per_unit: number; remaining: number };
+
+export function nextReward(config: IncentiveConfig, klass: Klass, progress: Record<string, RuleProgress>, today: string): NextReward | null {
+  for (const rule of config.rules) {
+    if ((rule.start_date && rule.start_date > today) || (rule.end_date && rule.end_date < today)) continue;
+    const perUnit = minutesPerUnit(rule, klass);
+    const minutes = progress[rule.id]?.minutes ?? 0;
+    if (rule.cap_units !== undefined && Math.floor(minutes / perUnit) >= rule.cap_units) continue;
+    const into = minutes % perUnit;
+    return { rule, minutes: into, per_unit: perUnit, remaining: perUnit - into };
+  }
+  return null;
+}
+
+// Overrides are all-time totals, so they replace the minutes of undated rules only.
+export function withOverride(config: IncentiveConfig, progress: Record<string, RuleProgress>, override: number | undefined) {
+  if (typeof override !== 'number') return progress;
+  const next = { ...progress };
+  for (const rule of config.rules) {
+    if (isUndated(rule)) next[rule.id] = { minutes: override, nights: progress[rule.id]?.nights ?? 0 };
+  }
+  return next;
+}
+
+// Earned units minus redemptions recorded in the ledger. `available` goes negative when
+// rules change after days were redeemed, rather than hiding the difference.
+export type RewardBalance = { earned: number; redeemed: number; available: number };
+
+export function rewardBalance(earned: number, redeemed: number): RewardBalance {
+  return { earned, redeemed, available: earned - redeemed };
+}
+
+export function describeRule(rule: IncentiveRule, unitLabel: string) {
+  const parts = [`${formatHM(rule.minutes_per_unit)} = 1 ${singularUnit(unitLabel)}`];
+  const perClass = ALL_KLASSES.filter(k => rule.klass_minutes?.[k] !== undefined).map(k => `${k}: ${formatHM(rule.klass_minutes![k]!)}`);
+  if (perClass.length) parts.push(perClass.join(', '));
+  if (rule.cap_units !== undefined) parts.push(`max ${rule.cap_units}`);
+  if (rule.perfect_attendance_units) parts.push(`+${rule.perfect_attendance_units} for perfect attendance`);
+  const dates = rule.start_date || rule.end_date ? ` (${rule.start_date ?? '…'} to ${rule.end_date ?? '…'})` : '';
+  return `${rule.name}${dates}: ${parts.join('; ')}`;
+}
+
+export function singularUnit(label: string) {
+  return label.endsWith('s') ? label.slice(0, -1) : label;
+}
+
+// ---------- Validation ----------
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const posInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v > 0;
+const nonNegInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+
+// Returns normalized incentives, or an error message.
+export function parseIncentives(raw: unknown): IncentiveConfig | string {
+  if (!raw || typeof raw !== 'object') return "Incentive rules are missing.";
+  const r = raw as Record<string, unknown>;
+  const unitLabel = typeof r.unit_label === 'string' ? r.unit_label.trim() : '';
+  if (!unitLabel) return "Reward unit is required (e.g. PMI days).";
+  if (!Array.isArray(r.rules) || !r.rules.length) return "Add at least one rule.";
+
+  const rules: IncentiveRule[] = [];
+  for (const x of r.rules as Array<Record<string, unknown>>) {
+    const name = typeof x?.name === 'string' ? x.name.trim() : '';
+    if (!name) return "Every rule needs a name.";
+    if (!posInt(x.minutes_per_unit)) return `${name}: minutes per unit must be a positive whole number.`;
+    const rule: IncentiveRule = { id: typeof x.id === 'string' && x.id ? x.id : crypto.randomUUID(), name, minutes_per_unit: x.minutes_per_unit };
+
+    const km = (x.klass_minutes ?? {}) as Record<string, unknown>;
+    for (const [k, v] of Object.entries(km)) {
+      if (v === undefined || v === null) continue;
+      if (!isKlass(k) || !posInt(v)) return `${name}: per-class minutes must be positive whole numbers.`;
+      (rule.klass_minutes ??= {})[k] = v;
+    }
+    if (x.cap_units !== undefined && x.cap_units !== null) {
+      if (!nonNegInt(x.cap_units)) return `${name}: cap must be a whole number.`;
+      rule.cap_units = x.cap_units;
+    }
+    for (const key of ['start_date', 'end_date'] as const) {
+      const v = x[key];
+      if (v === undefined || v === null || v === '') continue;
+      if (typeof v !== 'string' || !DATE_KEY.test(v)) return `${name}: dates must be YYYY-MM-DD.`;
+      rule[key] = v;
+    }
+    if (rule.start_date && rule.end_date && rule.end_date < rule.start_date) return `${name}: end date is before start date.`;
+    if (x.perfect_attendance_units !== undefined && x.perfect_attendance_units !== null && x.perfect_attendance_units !== 0) {
+      if (!posInt(x.perfect_attendance_units)) return `${name}: attendance bonus must be a whole number.`;
+      if (!rule.start_date || !rule.end_date) return `${name}: an attendance bonus needs start and end dates.`;
+      rule.perfect_attendance_units = x.perfect_attendance_units;
+    }
+    rules.push(rule);
+  }
+  return { unit_label: unitLabel, rules };
+}
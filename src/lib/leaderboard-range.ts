@@ -0,0 +1,114 @@
+// src/lib/leaderboard-range.ts
+// Periods the leaderboard can be limited to. Bounds are ET midnights, `from` inclusive and
+// `to` exclusive; null means unbounded.
+import { addDaysToKey, etDateKey, etInstant, weekdayOfKey, type Session } from "@/lib/asp";
+import { windowsOn, type AspSchedule } from "@/lib/schedule";
+
+export type RangeKind = 'all' | 'week' | 'month' | 'semester' | 'year' | 'custom';
+export type LeaderboardRange = { kind: RangeKind; from?: string; to?: string }; // custom: ET date keys, both inclusive
+
+export const RANGE_KINDS: RangeKind[] = ['all', 'week', 'month', 'semester', 'year', 'custom'];
+export const RANGE_LABELS: Record<RangeKind, string> = {
+  all: 'All time',
+  week: 'This week',
+  month: 'This month',
+  semester: 'This semester',
+  year: 'Academic year',
+  custom: 'Custom dates',
+};
+
+// The academic year runs Jul 1 – Jun 30 (as in klassForClassYear); fall semester is
+// Jul–Dec, spring semester Jan–Jun. Weeks start on Monday.
+export function rangeBounds(range: LeaderboardRange, now = new Date()): { from: Date | null; to: Date | null } {
+  const key = etDateKey(now);
+  const [y, m] = key.split('-').map(Number);
+  const at = (k: string) => etInstant(k, 0);
+  const ymd = (yy: number, mm: number) => `${yy}-${String(mm).padStart(2, '0')}-01`;
+  switch (range.kind) {
+    case 'all':
+      return { from: null, to: null };
+    case 'week': {
+      const monday = addDaysToKey(key, -((weekdayOfKey(key) + 6) % 7));
+      return { from: at(monday), to: at(addDaysToKey(monday, 7)) };
+    }
+    case 'month':
+      return { from: at(ymd(y, m)), to: at(m === 12 ? ymd(y + 1, 1) : ymd(y, m + 1)) };
+    case 'semester':
+      return m >= 7
+        ? { from: at(ymd(y, 7)), to: at(ymd(y + 1, 1)) }
+        : { from: at(ymd(y, 1)), to: at(ymd(y, 7)) };
+    case 'year': {
+      const start = m >= 7 ? y : y - 1;
+      return { from: at(ymd(start, 7)), to: at(ymd(start + 1, 7)) };
+    }
+    case 'custom':
+      return {
+        from: range.from ? at(range.from) : null,
+        to: range.to ? at(addDaysToKey(range.to, 1)) : null,
+      };
+  }
+}
+
+// Minutes (fractional) of one session inside [from, to) and inside the scheduled windows of the
+// ET night it started on. Not yet capped per night; see creditedNights().
+export function sessionMinutesInRange(schedule: AspSchedule, s: Pick<Session, 'sign_in' | 'sign_out'>, from: Date | null, to: Date | null, now = new Date()) {
+  const sin = new Date(s.sign_in).getTime();
+  const sout = s.sign_out ? new Date(s.sign_out).getTime() : now.getTime();
+  const night = etDateKey(new Date(sin));
+  let ms = 0;
+  for (const w of windowsOn(schedule, night)) {
+    const start = Math.max(sin, etInstant(night, w.start_min).getTime(), from?.getTime() ?? -Infinity);
+    const end = Math.min(sout, etInstant(night, w.end_min).getTime(), to?.getTime() ?? Infinity);
+    ms += Math.max(0, end - start);
+  }
+  return ms / 60000;
+}
+
+export type CreditedNight = { cadet_id: string; night: string; minutes: number };
+
+// Credited minutes per cadet and ET night inside [from, to): voided sessions skipped, each
+// session clipped to its night's windows, each night capped at the nightly limit. Mirrors
+// asp_credited_nights (the basis of asp_leaderboard_range) for local mode and the dashboard.
+export function creditedNights(schedule: AspSchedule, sessions: Array<Pick<Session, 'cadet_id' | 'sign_in' | 'sign_out' | 'voided'>>, from: Date | null, to: Date | null, now = new Date()): CreditedNight[] {
+  const byNight = new Map<string, CreditedNight>();
+  for (const s of sessions) {
+    if (s.voided) continue;
+    const minutes = sessionMinutesInRange(schedule, s, from, to, now);
+    if (minutes <= 0) continue;
+    const night = etDateKey(new Date(s.sign_in));
+    const key = `${s.cadet_id}|${night}`;
+    const cn = byNight.get(key) ?? { cadet_id: s.cadet_id, night, minutes: 0 };
+    cn.minutes += minutes;
+    byNight.set(key, cn);
+  }
+  return [...byNight.values()].map(cn => ({ ...cn, minutes: Math.min(cn.minutes, schedule.nightly_cap_min) }));
+}
+
+// Credited minutes per session id (voided sessions get 0): each session clipped to its night's
+// windows, and the cadet's nightly cap used up in sign-in order, so a night's sessions add up
+// to what creditedNights() gives that night.
+export function creditedSessionMinutes(schedule: AspSchedule, sessions: Array<Pick<Session, 'id' | 'cadet_id' | 'sign_in' | 'sign_out' | 'voided'>>, now = new Date()) {
+  const left = new Map<string, number>(); // cadet|night -> cap still available
+  const out = new Map<string, number>();
+  for (const s of [...sessions].sort((a, b) => a.sign_in.localeCompare(b.sign_in))) {
+    if (s.voided) { out.set(s.id, 0); continue; }
+    const key = `${s.cadet_id}|${etDateKey(new Date(s.sign_in))}`;
+    const cap = left.get(key) ?? schedule.nightly_cap_min;
+    const minutes = Math.min(sessionMinutesInRange(schedule, s, null, null, now), cap);
+    left.set(key, cap - minutes);
+    out.set(s.id, minutes);
+  }
+  return out;
+}
+
+// Whole minutes and nights per cadet, as asp_leaderboard_range returns them.
+export function rangeTotals(schedule: AspSchedule, sessions: Array<Pick<Session, 'cadet_id' | 'sign_in' | 'sign_out' | 'voided'>>, from: Date | null, to: Date | null, now = new Date()) {
+  const totals = new Map<string, { minutes: number; nights: number }>();
+  for (const cn of creditedNights(schedule, sessions, from, to, now)) {
+    const t = totals.get(cn.cadet_id) ?? { minutes: 0, nights: 0 };
+    totals.set(cn.cadet_id, { minutes: t.minutes + cn.minutes, nights: t.nights + 1 });
+  }
+  return [...totals]
+    .map(([cadet_id, t]) => ({ cadet_id, total_min: Math.floor(t.minutes), nights: t.nights }))
+    .filter(t => t.total_min > 0);
+}
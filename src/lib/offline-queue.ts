@@ -0,0 +1,101 @@
+// src/lib/offline-queue.ts
+// IndexedDB queue of sign-ins and sign-outs made while the server was unreachable. Events
+// keep the time they happened and are replayed in order through POST /api/sessions/sync,
+// with the tokens the server handed out while online (see src/lib/server/sync.ts).
+import { apiGet, apiPost } from "@/lib/api";
+import type { SyncEvent, SyncResult } from "@/lib/server/sync";
+
+const DB_NAME = "asp-offline";
+const STORE = "events";
+const SYNC_TOKEN_KEY = "asp_sync_token";         // { token, expires_at } from /api/sessions/sync-token
+const SESSION_TOKENS_KEY = "asp_session_tokens"; // { [session id]: session token }, newest last
+const SESSION_TOKENS_KEPT = 20;
+const SYNC_TOKEN_REFRESH_MS = 24 * 60 * 60 * 1000; // fetch a new one when less is left
+
+// `cadet_id` is this device's idea of the cadet (may be provisional for a typed name).
+export type QueuedEvent = SyncEvent & { seq?: number; cadet_id: string };
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => { req.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true }); };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ---------- Tokens ----------
+type StoredSyncToken = { token: string; expires_at: string };
+const readJson = <T>(key: string, fallback: T): T => JSON.parse(localStorage.getItem(key) || "null") ?? fallback;
+
+// Keeps a current sync token while online; queued sign-ins carry the one held when they happened.
+export async function refreshSyncToken() {
+  const stored = readJson<StoredSyncToken | null>(SYNC_TOKEN_KEY, null);
+  if (stored && new Date(stored.expires_at).getTime() - Date.now() > SYNC_TOKEN_REFRESH_MS) return;
+  const res = await apiGet<StoredSyncToken>('/api/sessions/sync-token');
+  if (res.ok) localStorage.setItem(SYNC_TOKEN_KEY, JSON.stringify(res.data));
+}
+
+// From an online sign-in or a synced offline one; lets this device sign that session out later.
+export function saveSessionToken(sessionId: string, token: string) {
+  const entries = Object.entries(readJson<Record<string, string>>(SESSION_TOKENS_KEY, {})).filter(([id]) => id !== sessionId);
+  entries.push([sessionId, token]);
+  localStorage.setItem(SESSION_TOKENS_KEY, JSON.stringify(Object.fromEntries(entries.slice(-SESSION_TOKENS_KEPT))));
+}
+
+const sessionTokenFor = (sessionId: string): string | undefined => readJson<Record<string, string>>(SESSION_TOKENS_KEY, {})[sessionId];
+
+export async function enqueueEvent(event: QueuedEvent) {
+  const token = event.kind === 'sign_in' ? event.token ?? readJson<StoredSyncToken | null>(SYNC_TOKEN_KEY, null)?.token : event.token;
+  await withStore('readwrite', (store) => store.add({ ...event, token }));
+}
+
+// Oldest first.
+export function pendingEvents(): Promise<QueuedEvent[]> {
+  return withStore('readonly', (store) => store.getAll() as IDBRequest<QueuedEvent[]>);
+}
+
+async function removeEvents(seqs: number[]) {
+  for (const seq of seqs) await withStore('readwrite', (store) => store.delete(seq));
+}
+
+// The network is down (as opposed to the server answering with an error).
+export const isOffline = (res: { ok: boolean; status?: number }) => !res.ok && res.status === 0;
+
+const BATCH = 50; // the server's per-request limit
+
+// A sign-out picks up its session token at send time: the sign-in it follows may only have
+// been synced (and given one) after the sign-out was queued.
+const toSyncEvent = (e: QueuedEvent): SyncEvent =>
+  e.kind === 'sign_in'
+    ? { kind: e.kind, at: e.at, session_id: e.session_id, input: e.input, token: e.token }
+    : { kind: e.kind, at: e.at, session_id: e.session_id, token: e.token ?? sessionTokenFor(e.session_id) };
+
+// Sends the oldest events; each one the server answered for is removed, whatever the outcome.
+// Returns null when the server can't be reached (try again later).
+export async function syncPending(): Promise<Array<{ event: QueuedEvent; result: SyncResult }> | null> {
+  await refreshSyncToken().catch(() => undefined);
+  const events = (await pendingEvents()).slice(0, BATCH);
+  if (!events.length) return [];
+  const res = await apiPost<{ results: SyncResult[] }>('/api/sessions/sync', { events: events.map(toSyncEvent) });
+  if (!res.ok && res.status !== 400) return null;
+  await removeEvents(events.map(e => e.seq!));
+  // A malformed queue is dropped rather than blocking every later sync.
+  return events.map((event, i) => ({
+    event,
+    result: res.ok ? res.data.results[i] : { kind: event.kind, session_id: event.session_id, status: 'rejected', error: res.error },
+  }));
+}
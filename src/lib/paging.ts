@@ -0,0 +1,18 @@
+// src/lib/paging.ts
+// Reading past PostgREST's row cap, for the server routes and the browser repositories alike.
+
+export const PAGE = 1000; // PostgREST's default max rows per request
+
+type PageQuery = PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>;
+
+// Every row of a query, PAGE rows at a time. `page` must order on a unique column (or end
+// with one) so pages neither overlap nor skip rows.
+export async function selectAll<T>(page: (from: number, to: number) => PageQuery): Promise<{ data: T[]; error: null } | { data: null; error: { message: string } }> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const { data, error } = await page(offset, offset + PAGE - 1);
+    if (error) return { data: null, error };
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE) return { data: rows, error: null };
+  }
+}
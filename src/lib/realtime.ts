@@ -0,0 +1,44 @@
+// src/lib/realtime.ts
+// Supabase Realtime on `sessions`, so open pages follow sign-ins and sign-outs made on other
+// devices. Needs `sessions` in the supabase_realtime publication (see migrations).
+import { useEffect, useRef } from "react";
+import { supabase } from "@/lib/supabase-browser";
+
+// closed: the row has a sign_out after the change (a sign-out, auto sign-out or edit).
+export type SessionChange = { event: 'INSERT' | 'UPDATE' | 'DELETE'; closed: boolean };
+
+const DEBOUNCE_MS = 1000;
+const MAX_WAIT_MS = 5000; // steady traffic still refreshes this often
+
+// Calls `onChange` with a batch of changes once a second passes without one, or at the latest
+// MAX_WAIT_MS after the first change in the batch. Does nothing in demo mode.
+export function useSessionChanges(onChange: (changes: SessionChange[]) => void) {
+  const handler = useRef(onChange);
+  useEffect(() => { handler.current = onChange; });
+
+  useEffect(() => {
+    if (!supabase) return;
+    const client = supabase;
+    let pending: SessionChange[] = [];
+    let timer: number | undefined;
+    let firstAt = 0; // when the first change in `pending` arrived
+    const channel = client
+      .channel(`sessions-${crypto.randomUUID()}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sessions' }, (payload) => {
+        const row = payload.new as { sign_out?: string | null } | undefined;
+        if (!pending.length) firstAt = Date.now();
+        pending.push({ event: payload.eventType, closed: !!row?.sign_out });
+        window.clearTimeout(timer);
+        timer = window.setTimeout(() => {
+          const batch = pending;
+          pending = [];
+          handler.current(batch);
+        }, Math.max(0, Math.min(DEBOUNCE_MS, firstAt + MAX_WAIT_MS - Date.now())));
+      })
+      .subscribe();
+    return () => {
+      window.clearTimeout(timer);
+      void client.removeChannel(channel);
+    };
+  }, []);
+}
@@ -0,0 +1,18 @@
+// src/lib/repositories/index.ts
+// The page's data access: Supabase when configured, otherwise the local stand-in over
+// localStorage (in memory while rendering on the server).
+import { hasSupabase, supabase } from "@/lib/supabase-browser";
+import { localRepositories, memoryStorage } from "@/lib/repositories/local";
+import { supabaseRepositories } from "@/lib/repositories/supabase";
+import type { Repositories } from "@/lib/repositories/types";
+
+export { localRepositories, memoryStorage, type LocalStore } from "@/lib/repositories/local";
+export { supabaseRepositories } from "@/lib/repositories/supabase";
+export type {
+  CadetLookup, CadetRepository, LeaderboardEntry, OverrideRepository, RangeTotal, RedemptionRepository, Repositories,
+  SessionRepository, SettingsRepository,
+} from "@/lib/repositories/types";
+
+export const repositories: Repositories = hasSupabase && supabase
+  ? supabaseRepositories(supabase)
+  : localRepositories(typeof window !== "undefined" ? window.localStorage : memoryStorage());
@@ -0,0 +1,224 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_SCHEDULE, type AspSchedule } from "@/lib/schedule";
+import { localRepositories, memoryStorage } from "@/lib/repositories/local";
+import type { Repositories } from "@/lib/repositories/types";
+
+// Monday 2026-10-19; the default windows are Mon & Wed 19:30–21:30 ET (23:30–01:30Z in EDT).
+const MON = "2026-10-19";
+const at = (et: string, day = MON) => new Date(`${day}T${et}:00-04:00`);
+const ALICE = { name: "Alice Able", klass: "2C", company: "CS-01" } as const;
+const BOB = { name: "Bob Baker", klass: "3C", company: "CS-01" } as const;
+
+let clock: Date;
+let repos: Repositories;
+const setup = (schedule?: AspSchedule) => { repos = localRepositories(memoryStorage(), { schedule, now: () => clock }); };
+
+// Signs in at `from`, out at `to` (ET times on `day`), returning the session.
+async function visit(cadet: typeof ALICE | typeof BOB, from: string, to: string, day = MON) {
+  clock = at(from, day);
+  const res = await repos.sessions.signIn(cadet);
+  if (!res.ok || res.data.status === 'queued') throw new Error(`sign-in failed: ${JSON.stringify(res)}`);
+  clock = at(to, day);
+  const out = await repos.sessions.signOut(res.data.session);
+  if (!out.ok) throw new Error(`sign-out failed: ${out.error}`);
+  return out.data.session;
+}
+
+beforeEach(() => setup());
+
+describe("sign-in and sign-out", () => {
+  it("opens a session, resumes it and signs out once", async () => {
+    clock = at("19:45");
+    const first = await repos.sessions.signIn(ALICE);
+    expect(first.ok && first.data.status).toBe('signed_in');
+    if (!first.ok || first.data.status === 'queued') return;
+    expect(first.data.session.sign_in).toBe(clock.toISOString());
+
+    clock = at("20:00");
+    const again = await repos.sessions.signIn({ cadetId: first.data.cadet.id });
+    expect(again.ok && again.data.status === 'resumed' && again.data.session.id).toBe(first.data.session.id);
+
+    clock = at("20:15");
+    const out = await repos.sessions.signOut(first.data.session);
+    expect(out.ok && out.data.session.sign_out).toBe(at("20:15").toISOString());
+
+    clock = at("20:30");
+    const twice = await repos.sessions.signOut(first.data.session);
+    expect(twice.ok && twice.data.session.sign_out).toBe(at("20:15").toISOString());
+  });
+
+  it("reuses the cadet for the same name, class and company", async () => {
+    const a = await visit(ALICE, "19:30", "19:40");
+    clock = at("19:50");
+    const res = await repos.sessions.signIn({ ...ALICE, name: "alice able" });
+    expect(res.ok && res.data.status !== 'queued' && res.data.cadet.id).toBe(a.cadet_id);
+  });
+
+  it("rejects sign-in outside the ASP window", async () => {
+    clock = at("18:00");
+    const res = await repos.sessions.signIn(ALICE);
+    expect(res.ok).toBe(false);
+    expect(!res.ok && res.status).toBe(403);
+  });
+
+  it("rejects an unknown cadet id", async () => {
+    clock = at("19:45");
+    const res = await repos.sessions.signIn({ cadetId: "missing" });
+    expect(!res.ok && res.status).toBe(404);
+  });
+
+  it("rejects signing out someone else's session", async () => {
+    clock = at("19:45");
+    const res = await repos.sessions.signIn(ALICE);
+    if (!res.ok || res.data.status === 'queued') throw new Error("sign-in failed");
+    const out = await repos.sessions.signOut({ id: res.data.session.id, cadet_id: "someone-else" });
+    expect(!out.ok && out.status).toBe(404);
+  });
+
+  it("caps a late sign-out at the window end", async () => {
+    const s = await visit(ALICE, "21:00", "23:00");
+    expect(s.sign_out).toBe(at("21:30").toISOString());
+  });
+});
+
+describe("nightly cap", () => {
+  const capped: AspSchedule = { ...DEFAULT_SCHEDULE, nightly_cap_min: 60 };
+
+  it("rejects another sign-in once the cap is used up", async () => {
+    setup(capped);
+    await visit(ALICE, "19:30", "20:30");
+    clock = at("20:45");
+    const res = await repos.sessions.signIn(ALICE);
+    expect(!res.ok && res.status).toBe(409);
+  });
+
+  it("signs out at the cap", async () => {
+    setup(capped);
+    const s = await visit(ALICE, "19:40", "21:20");
+    expect(s.sign_out).toBe(at("20:40").toISOString());
+  });
+
+  it("starts over on the next night", async () => {
+    setup(capped);
+    await visit(ALICE, "19:30", "20:30");
+    clock = at("19:45", "2026-10-21");
+    const res = await repos.sessions.signIn(ALICE);
+    expect(res.ok && res.data.status).toBe('signed_in');
+  });
+});
+
+describe("leaderboard", () => {
+  it("ranks cadets by credited minutes", async () => {
+    await visit(ALICE, "19:30", "20:00");
+    await visit(BOB, "19:30", "21:00");
+    await visit(ALICE, "19:30", "20:00", "2026-10-21");
+
+    const res = await repos.sessions.leaderboard({ kind: 'all' });
+    expect(res.ok && res.data.map(r => [r.name, r.totalMin])).toEqual([["Bob Baker", 90], ["Alice Able", 60]]);
+  });
+
+  it("uses up the nightly cap in sign-in order", async () => {
+    setup({ ...DEFAULT_SCHEDULE, nightly_cap_min: 60 });
+    await visit(ALICE, "19:30", "20:15");
+    await visit(ALICE, "20:20", "21:00");
+
+    const res = await repos.sessions.leaderboard({ kind: 'all' });
+    expect(res.ok && res.data.map(r => r.totalMin)).toEqual([60]);
+  });
+
+  it("leaves out cadets without credited minutes, as the server does", async () => {
+    await visit(ALICE, "19:30", "20:00");
+    await visit(BOB, "19:30", "19:30");
+
+    const res = await repos.sessions.leaderboard({ kind: 'all' });
+    expect(res.ok && res.data.map(r => r.name)).toEqual(["Alice Able"]);
+  });
+
+  it("only counts time inside the range", async () => {
+    await visit(ALICE, "19:30", "20:00", "2026-10-12");
+    await visit(BOB, "19:30", "20:00");
+
+    clock = at("22:00");
+    const week = await repos.sessions.leaderboard({ kind: 'week' });
+    expect(week.ok && week.data.map(r => r.name)).toEqual(["Bob Baker"]);
+    const all = await repos.sessions.leaderboard({ kind: 'all' });
+    expect(all.ok && all.data.map(r => r.name).sort()).toEqual(["Alice Able", "Bob Baker"]);
+  });
+});
+
+describe("admin edits", () => {
+  const iso = (et: string, day = MON) => at(et, day).toISOString();
+
+  it("saves changed sessions and the override together", async () => {
+    const a = await visit(ALICE, "19:30", "20:00");
+    const b = await visit(ALICE, "20:10", "20:30");
+    clock = at("23:00");
+    const res = await repos.sessions.saveEdits({
+      cadetId: a.cadet_id, override: 500,
+      updates: [{ id: a.id, sign_in: iso("19:30"), sign_out: iso("20:05") }, { id: b.id, sign_in: b.sign_in, sign_out: b.sign_out }],
+    }, false);
+    expect(res.ok && res.data.results.map(r => r.status)).toEqual(['updated', 'unchanged']);
+    expect(res.ok && res.data.override).toBe(500);
+
+    const own = await repos.sessions.forCadet(a.cadet_id);
+    expect(own.ok && own.data.map(s => s.sign_out)).toEqual([iso("20:30"), iso("20:05")]);
+    expect(await repos.overrides.get(a.cadet_id)).toEqual({ ok: true, data: 500 });
+  });
+
+  it("saves nothing when a row is invalid", async () => {
+    const a = await visit(ALICE, "19:30", "20:00");
+    const b = await visit(ALICE, "20:10", "20:30");
+    clock = at("23:00");
+    const res = await repos.sessions.saveEdits({
+      cadetId: a.cadet_id, override: 500,
+      updates: [{ id: a.id, sign_in: iso("19:30"), sign_out: iso("20:05") }, { id: b.id, sign_in: iso("20:40"), sign_out: b.sign_out }], // sign-out before sign-in
+    }, false);
+    expect(!res.ok && res.status).toBe(422);
+    expect(!res.ok && (res.body?.results as Array<{ status: string }>).map(r => r.status)).toEqual(['skipped', 'invalid']);
+    const own = await repos.sessions.forCadet(a.cadet_id);
+    expect(own.ok && own.data.map(s => s.sign_in)).toEqual([iso("20:10"), iso("19:30")]);
+    expect(await repos.overrides.get(a.cadet_id)).toEqual({ ok: true, data: null });
+  });
+
+  it("adds a session once its warnings are acknowledged", async () => {
+    const a = await visit(ALICE, "19:30", "20:00");
+    clock = at("23:00");
+    const late = { cadetId: a.cadet_id, sign_in: iso("21:00"), sign_out: iso("22:00") }; // runs past the window
+    const first = await repos.sessions.create(late, false);
+    expect(!first.ok && first.error).toMatch(/^Needs acknowledgement/);
+    const second = await repos.sessions.create(late, true);
+    expect(second.ok && second.data.session.sign_out).toBe(iso("22:00"));
+    expect(!(await repos.sessions.create({ ...late, cadetId: "missing" }, true)).ok).toBe(true);
+  });
+
+  it("voids and un-voids sessions, and sets or clears the override", async () => {
+    const a = await visit(ALICE, "19:30", "20:00");
+    expect(await repos.sessions.setVoided([a.id, "missing"], true)).toEqual({ ok: true, data: { changed: 1 } });
+    expect(await repos.sessions.setVoided([a.id], true)).toEqual({ ok: true, data: { changed: 0 } });
+    const board = await repos.sessions.leaderboard({ kind: 'all' });
+    expect(board.ok && board.data).toEqual([]);
+    expect(await repos.sessions.setVoided([a.id], false)).toEqual({ ok: true, data: { changed: 1 } });
+
+    expect(await repos.overrides.set(a.cadet_id, 90.7)).toEqual({ ok: true, data: { override: 90 } });
+    expect(await repos.overrides.set(a.cadet_id, null)).toEqual({ ok: true, data: { override: null } });
+    expect(await repos.overrides.all()).toEqual({ ok: true, data: {} });
+  });
+});
+
+describe("remove and restore", () => {
+  it("restores only the sessions the last Remove voided", async () => {
+    const a = await visit(ALICE, "19:30", "20:00");
+    const b = await visit(ALICE, "20:10", "20:30");
+    await repos.sessions.setVoided([a.id], true);
+
+    clock = at("23:00");
+    expect(await repos.cadets.remove(b.cadet_id)).toEqual({ ok: true, data: { voided: 1 } });
+    const removed = await repos.cadets.removed();
+    expect(removed.ok && removed.data.map(c => [c.name, c.voided_sessions, c.removed_at])).toEqual([["Alice Able", 2, clock.toISOString()]]);
+
+    expect(await repos.cadets.restore(b.cadet_id)).toEqual({ ok: true, data: { restored: 1 } });
+    const own = await repos.sessions.forCadet(b.cadet_id);
+    expect(own.ok && own.data.map(s => [s.id, !!s.voided])).toEqual([[b.id, false], [a.id, true]]);
+    expect(await repos.cadets.removed()).toEqual({ ok: true, data: [] });
+  });
+});
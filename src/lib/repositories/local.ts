@@ -0,0 +1,235 @@
+// src/lib/repositories/local.ts
+// Local stand-in for Supabase: cadets, sessions and overrides kept in a Storage (localStorage
+// in demo mode, memoryStorage() in tests), with the same rules the server applies.
+import type { ApiResult } from "@/lib/api";
+import { normalizeName, type Cadet, type Session } from "@/lib/asp";
+import { DEFAULT_INCENTIVES } from "@/lib/incentives";
+import { rangeBounds, rangeTotals } from "@/lib/leaderboard-range";
+import { DEFAULT_SCHEDULE, autoCloseAt, describeWeekly, isAspOpen, minutesTonightET, type AspSchedule } from "@/lib/schedule";
+import type { RemovedCadet } from "@/lib/server/admin";
+import { checkSessionEdits, rejectIssues, validateSessions } from "@/lib/session-validation";
+import type { LeaderboardEntry, RangeTotal, Repositories } from "@/lib/repositories/types";
+
+export type LocalStore = Pick<Storage, 'getItem' | 'setItem' | 'key' | 'length'>;
+
+// Key names predate this module; demo data saved by older builds keeps working.
+const SESSIONS_KEY = "asp_sessions";
+const CADET_PREFIX = "asp_current_cadet_";
+const OVERRIDES_KEY = "asp_overrides"; // { cadet_id: minutes }
+const REMOVED_KEY = "asp_removed";     // { cadet_id: the last Remove }, what the server's audit log keeps
+
+type Removal = { removed_at: string; session_ids: string[] };
+
+const done = <T>(data: T): ApiResult<T> => ({ ok: true, data });
+const fail = (status: number, error: string, body?: Record<string, unknown>): ApiResult<never> => ({ ok: false, status, error, body });
+const newestFirst = (a: Session, b: Session) => new Date(b.sign_in).getTime() - new Date(a.sign_in).getTime();
+
+export function memoryStorage(): LocalStore {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    key: (index) => [...items.keys()][index] ?? null,
+    get length() { return items.size; },
+  };
+}
+
+// `schedule` is what the server uses when there is no database (DEFAULT_SCHEDULE).
+export function localRepositories(store: LocalStore, opts: { schedule?: AspSchedule; now?: () => Date } = {}): Repositories {
+  const schedule = opts.schedule ?? DEFAULT_SCHEDULE;
+  const now = opts.now ?? (() => new Date());
+
+  const readJson = <T>(key: string, fallback: T): T => JSON.parse(store.getItem(key) || "null") ?? fallback;
+  const loadSessions = () => readJson<Session[]>(SESSIONS_KEY, []);
+  const saveSessions = (sessions: Session[]) => store.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  const loadCadet = (id: string) => readJson<Cadet | null>(`${CADET_PREFIX}${id}`, null);
+  const saveCadet = (c: Cadet) => store.setItem(`${CADET_PREFIX}${c.id}`, JSON.stringify(c));
+  const loadOverrides = () => readJson<Record<string, number>>(OVERRIDES_KEY, {});
+  const loadRemovals = () => readJson<Record<string, Removal>>(REMOVED_KEY, {});
+  const liveSessions = (cadetId: string) => loadSessions().filter(s => s.cadet_id === cadetId && !s.voided);
+
+  function setOverride(cadetId: string, minutes: number | null) {
+    const all = loadOverrides();
+    if (minutes === null) delete all[cadetId];
+    else all[cadetId] = Math.max(0, Math.floor(minutes));
+    store.setItem(OVERRIDES_KEY, JSON.stringify(all));
+    return all[cadetId] ?? null;
+  }
+  function loadCadets(): Cadet[] {
+    const out: Cadet[] = [];
+    for (let i = 0; i < store.length; i++) {
+      const key = store.key(i);
+      if (key?.startsWith(CADET_PREFIX)) out.push(JSON.parse(store.getItem(key) || "null"));
+    }
+    return out.filter(Boolean);
+  }
+
+  function findCadet(row: { name: string; klass: string; company: string }): Cadet | undefined {
+    const same = loadCadets().filter(c => c.klass === row.klass && c.company === row.company);
+    return same.find(c => c.name === row.name) ?? same.find(c => c.name.toLowerCase() === row.name.toLowerCase());
+  }
+
+  const totalsIn = (from: Date | null, to: Date | null): RangeTotal[] => rangeTotals(schedule, loadSessions(), from, to, now());
+
+  return {
+    cadets: {
+      get: async (id) => {
+        const c = loadCadet(id);
+        return done(c && { id: c.id, name: c.name, klass: c.klass, company: c.company });
+      },
+      resolveId: async (row) => done(row.cadetId ?? findCadet(row)?.id ?? null),
+
+      async remove(cadetId) {
+        const sessions = loadSessions();
+        const voided = sessions.filter(s => s.cadet_id === cadetId && !s.voided);
+        for (const s of voided) s.voided = true;
+        saveSessions(sessions);
+        store.setItem(REMOVED_KEY, JSON.stringify({
+          ...loadRemovals(), [cadetId]: { removed_at: now().toISOString(), session_ids: voided.map(s => s.id) },
+        }));
+        return done({ voided: voided.length });
+      },
+
+      // Without a record of the Remove (or one that voided nothing), every voided session.
+      async restore(cadetId) {
+        const removals = loadRemovals();
+        const ids = removals[cadetId]?.session_ids.length ? new Set(removals[cadetId].session_ids) : null;
+        const sessions = loadSessions();
+        const restored = sessions.filter(s => s.cadet_id === cadetId && s.voided && (!ids || ids.has(s.id)));
+        for (const s of restored) s.voided = false;
+        saveSessions(sessions);
+        delete removals[cadetId];
+        store.setItem(REMOVED_KEY, JSON.stringify(removals));
+        return done({ restored: restored.length });
+      },
+
+      async removed() {
+        const byCadet = new Map<string, Session[]>();
+        for (const s of loadSessions()) byCadet.set(s.cadet_id, [...(byCadet.get(s.cadet_id) ?? []), s]);
+        const removals = loadRemovals();
+        const out: RemovedCadet[] = [];
+        for (const [id, own] of byCadet) {
+          const c = loadCadet(id);
+          if (!c || !own.every(s => s.voided)) continue;
+          out.push({ id, name: c.name, klass: c.klass, company: c.company, voided_sessions: own.length, removed_at: removals[id]?.removed_at ?? null });
+        }
+        return done(out.sort((a, b) => (b.removed_at ?? '').localeCompare(a.removed_at ?? '')));
+      },
+    },
+
+    sessions: {
+      // Same steps as signIn() / openSessionFor() on the server. There is no roster, company
+      // list or room display without a database, so those checks don't apply.
+      async signIn(input) {
+        const at = now();
+        if (!isAspOpen(schedule, at)) return fail(403, `ASP is closed right now (${describeWeekly(schedule)}).`);
+        let c: Cadet;
+        if ('cadetId' in input) {
+          const found = loadCadet(input.cadetId);
+          if (!found) return fail(404, "Pick your name from the roster.");
+          c = found;
+        } else {
+          const name = normalizeName(input.name);
+          c = { id: findCadet({ ...input, name })?.id ?? crypto.randomUUID(), name, klass: input.klass, company: input.company };
+          saveCadet(c);
+        }
+
+        const sessions = loadSessions();
+        const own = sessions.filter(s => s.cadet_id === c.id);
+        const open = own.find(s => !s.sign_out);
+        if (open) return done({ status: 'resumed', cadet: c, session: open });
+        const since = at.getTime() - 36*60*60*1000;
+        const recent = own.filter(s => !s.voided && new Date(s.sign_in).getTime() >= since);
+        if (minutesTonightET(schedule, recent, at) >= schedule.nightly_cap_min) {
+          return fail(409, `You’ve already logged ${schedule.nightly_cap_min} minutes tonight. See you next time!`);
+        }
+        if (recent.some(s => new Date(s.sign_out ?? s.sign_in).getTime() > at.getTime())) {
+          return fail(409, "A later session is already recorded for you.");
+        }
+        const session: Session = { id: crypto.randomUUID(), cadet_id: c.id, sign_in: at.toISOString(), sign_out: null };
+        saveSessions([...sessions, session]);
+        return done({ status: 'signed_in', cadet: c, session });
+      },
+
+      async signOut({ id, cadet_id }) {
+        const sessions = loadSessions();
+        const session = sessions.find(s => s.id === id);
+        if (!session || session.cadet_id !== cadet_id) return fail(404, "Session not found.");
+        if (session.sign_out) return done({ session });
+        session.sign_out = new Date(Math.min(now().getTime(), autoCloseAt(schedule, session).getTime())).toISOString();
+        saveSessions(sessions);
+        return done({ session });
+      },
+
+      async leaderboard(range) {
+        const { from, to } = rangeBounds(range, now());
+        const rows: LeaderboardEntry[] = [];
+        for (const t of totalsIn(from, to)) {
+          const c = loadCadet(t.cadet_id);
+          if (c) rows.push({ cadetId: c.id, name: c.name, klass: c.klass, company: c.company, totalMin: t.total_min });
+        }
+        return done(rows.sort((a, b) => b.totalMin - a.totalMin));
+      },
+
+      rangeTotals: async (from, to) => done(totalsIn(from, to)),
+
+      async forCadet(cadetId, page) {
+        const own = loadSessions().filter(s => s.cadet_id === cadetId).sort(newestFirst);
+        return done(page ? own.slice(page.offset, page.offset + page.limit) : own);
+      },
+
+      // Same checks as createSession() / saveCadetEdits() on the server.
+      async create(input, acknowledged) {
+        if (!loadCadet(input.cadetId)) return fail(404, "Cadet not found.");
+        const candidate = { id: 'new', sign_in: input.sign_in, sign_out: input.sign_out };
+        const issues = validateSessions(schedule, [...liveSessions(input.cadetId), candidate], { now: now(), only: new Set(['new']) });
+        const rejected = rejectIssues(issues, acknowledged);
+        if (rejected) return fail(rejected.status, rejected.error);
+        const session: Session = { id: crypto.randomUUID(), cadet_id: input.cadetId, sign_in: input.sign_in, sign_out: input.sign_out, voided: false };
+        saveSessions([...loadSessions(), session]);
+        return done({ session });
+      },
+
+      async setVoided(ids, voided) {
+        const wanted = new Set(ids);
+        const sessions = loadSessions();
+        const changed = sessions.filter(s => wanted.has(s.id) && !!s.voided !== voided);
+        for (const s of changed) s.voided = voided;
+        saveSessions(sessions);
+        return done({ changed: changed.length });
+      },
+
+      async saveEdits(edits, acknowledged) {
+        const { results, changed, rejected } = checkSessionEdits(schedule, liveSessions(edits.cadetId), edits.updates, acknowledged, now());
+        if (rejected) return fail(rejected.status, rejected.error, { results });
+        const byId = new Map(changed.map(u => [u.id, u]));
+        saveSessions(loadSessions().map(s => {
+          const u = byId.get(s.id);
+          return u ? { ...s, sign_in: u.sign_in, sign_out: u.sign_out } : s;
+        }));
+        const override = edits.override === undefined ? loadOverrides()[edits.cadetId] ?? null : setOverride(edits.cadetId, edits.override);
+        return done({ results, override });
+      },
+    },
+
+    overrides: {
+      all: async () => done(loadOverrides()),
+      get: async (cadetId) => done(loadOverrides()[cadetId] ?? null),
+      set: async (cadetId, minutes) => done({ override: setOverride(cadetId, minutes) }),
+    },
+
+    // Redemptions are only recorded in the database (Admin → Redemptions).
+    redemptions: {
+      totals: async () => done({}),
+      forCadet: async () => done([]),
+    },
+
+    settings: {
+      schedule: async () => done(schedule),
+      incentives: async () => done(DEFAULT_INCENTIVES),
+      companies: async () => done([]),
+      rosterEnabled: async () => done(false),
+      kioskRequired: async () => done(false),
+    },
+  };
+}
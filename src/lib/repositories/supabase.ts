@@ -0,0 +1,142 @@
+// src/lib/repositories/supabase.ts
+// Repositories backed by Supabase: sign-in / sign-out and admin writes through the route
+// handlers (the browser never writes tables), reads through the anon client and the
+// leaderboard RPCs, settings and redemptions from their public routes.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { apiGet, apiPost, type ApiResult } from "@/lib/api";
+import type { CadetBrief, Company, Klass, Session } from "@/lib/asp";
+import type { IncentiveConfig } from "@/lib/incentives";
+import { rangeBounds } from "@/lib/leaderboard-range";
+import { selectAll } from "@/lib/paging";
+import type { AspSchedule } from "@/lib/schedule";
+import type { EditRowResult, RemovedCadet } from "@/lib/server/admin";
+import type { Redemption } from "@/lib/server/redemptions";
+import type { SignInResult } from "@/lib/server/sessions";
+import type { LeaderboardEntry, RangeTotal, Repositories } from "@/lib/repositories/types";
+
+interface LeaderboardRowDBv1 { name: string; klass: Klass; company: string; total_min: number; }
+interface LeaderboardRowDBv2 extends LeaderboardRowDBv1 { cadet_id: string; }
+type RangeRowDB = LeaderboardRowDBv2 & { nights: number };
+
+const failed = (error: { message: string }): ApiResult<never> => ({ ok: false, status: 500, error: error.message });
+const done = <T>(data: T): ApiResult<T> => ({ ok: true, data });
+// Unwraps a route's `{ [key]: value }` response.
+async function field<T, K extends keyof T>(req: Promise<ApiResult<T>>, key: K): Promise<ApiResult<T[K]>> {
+  const res = await req;
+  return res.ok ? done(res.data[key]) : res;
+}
+const toEntry = (r: LeaderboardRowDBv2): LeaderboardEntry => ({
+  cadetId: r.cadet_id, name: r.name, klass: r.klass, company: r.company, totalMin: Math.floor(Number(r.total_min)),
+});
+
+export function supabaseRepositories(supabase: SupabaseClient): Repositories {
+  // Board RPCs are read in pages ordered by cadet_id (name for v1, which has no ids) and
+  // sorted by total here.
+  const rangeRpc = (from: Date | null, to: Date | null) => selectAll<RangeRowDB>((f, t) => supabase
+    .rpc('asp_leaderboard_range', { p_from: from?.toISOString() ?? null, p_to: to?.toISOString() ?? null })
+    .order('cadet_id').range(f, t));
+  const byTotal = (rows: LeaderboardEntry[]) => rows.sort((a, b) => b.totalMin - a.totalMin);
+
+  async function resolveId(row: { cadetId?: string; name: string; klass: Klass; company: string }): Promise<ApiResult<string | null>> {
+    if (row.cadetId) return done(row.cadetId);
+    const exact = await supabase
+      .from('cadets').select('id').eq('name', row.name).eq('klass', row.klass).eq('company', row.company).limit(1);
+    if (exact.error) return failed(exact.error);
+    if (exact.data.length) return done((exact.data[0] as {id:string}).id);
+    const ci = await supabase
+      .from('cadets').select('id').ilike('name', row.name).eq('klass', row.klass).eq('company', row.company).limit(1);
+    if (ci.error) return failed(ci.error);
+    return done(ci.data.length ? (ci.data[0] as {id:string}).id : null);
+  }
+
+  return {
+    cadets: {
+      async get(id) {
+        const { data, error } = await supabase.from('cadets').select('id,name,klass,company').eq('id', id).maybeSingle();
+        return error ? failed(error) : done(data as CadetBrief | null);
+      },
+      resolveId,
+      remove: (cadetId) => apiPost<{ voided: number }>('/api/admin/cadets/remove', { cadetId }),
+      restore: (cadetId) => apiPost<{ restored: number }>('/api/admin/cadets/restore', { cadetId }),
+      removed: () => field(apiGet<{ cadets: RemovedCadet[] }>('/api/admin/cadets/removed'), 'cadets'),
+    },
+
+    sessions: {
+      signIn: (input) => apiPost<SignInResult>('/api/sessions/sign-in', input),
+      signOut: (session) => apiPost<{ session: Session }>('/api/sessions/sign-out', { sessionId: session.id, cadetId: session.cadet_id }),
+
+      async leaderboard(range) {
+        if (range.kind !== 'all') {
+          const { from, to } = rangeBounds(range);
+          const res = await rangeRpc(from, to);
+          return res.error ? failed(res.error) : done(byTotal(res.data.map(toEntry)));
+        }
+        const v2 = await selectAll<LeaderboardRowDBv2>((f, t) => supabase.rpc('asp_leaderboard_all_time_v2').order('cadet_id').range(f, t));
+        if (!v2.error) return done(byTotal(v2.data.map(toEntry)));
+
+        // Older databases: v1 has no ids, so look each cadet up by name.
+        const v1 = await selectAll<LeaderboardRowDBv1>((f, t) =>
+          supabase.rpc('asp_leaderboard_all_time').order('name').order('klass').order('company').range(f, t));
+        if (v1.error) return failed(v1.error);
+        const rows: LeaderboardEntry[] = [];
+        for (const r of v1.data) {
+          const { data: cad } = await supabase
+            .from('cadets').select('id').eq('klass', r.klass).eq('company', r.company).ilike('name', r.name).limit(1);
+          const cadetId = Array.isArray(cad) && cad.length ? (cad[0] as {id:string}).id : undefined;
+          rows.push({ cadetId, name: r.name, klass: r.klass, company: r.company, totalMin: Math.floor(Number(r.total_min)) });
+        }
+        return done(byTotal(rows));
+      },
+
+      async rangeTotals(from, to) {
+        const res = await rangeRpc(from, to);
+        if (res.error) return failed(res.error);
+        return done(res.data.map((r): RangeTotal => ({ cadet_id: r.cadet_id, total_min: Number(r.total_min), nights: Number(r.nights) })));
+      },
+
+      async forCadet(cadetId, page) {
+        const q = supabase
+          .from('sessions').select('id,cadet_id,sign_in,sign_out,voided,auto_closed')
+          .eq('cadet_id', cadetId).order('sign_in', { ascending: false });
+        const { data, error } = page ? await q.range(page.offset, page.offset + page.limit - 1) : await q;
+        return error ? failed(error) : done((data ?? []) as Session[]);
+      },
+
+      create: (input, acknowledged) => apiPost<{ session: Session }>('/api/admin/sessions', { ...input, acknowledged }),
+      setVoided: (ids, voided) => apiPost<{ changed: number }>('/api/admin/sessions/void', { ids, voided }),
+      saveEdits: (edits, acknowledged) =>
+        apiPost<{ results: EditRowResult[]; override: number | null }>('/api/admin/cadets/edits', { ...edits, acknowledged }),
+    },
+
+    overrides: {
+      async all() {
+        const { data, error } = await selectAll<{cadet_id:string; minutes_override:number}>((f, t) =>
+          supabase.from('leaderboard_overrides').select('cadet_id,minutes_override').order('cadet_id').range(f, t));
+        if (error) return failed(error);
+        const map: Record<string, number> = {};
+        for (const r of data) map[r.cadet_id] = Number(r.minutes_override);
+        return done(map);
+      },
+      async get(cadetId) {
+        const { data, error } = await supabase.from('leaderboard_overrides').select('minutes_override').eq('cadet_id', cadetId).maybeSingle();
+        if (error) return failed(error);
+        return done(data ? Number((data as {minutes_override:number}).minutes_override) : null);
+      },
+      // An edit-panel save with no session changes.
+      set: (cadetId, minutes) => apiPost<{ override: number | null }>('/api/admin/cadets/edits', { cadetId, updates: [], override: minutes }),
+    },
+
+    redemptions: {
+      totals: () => field(apiGet<{ redeemed: Record<string, number> }>('/api/redemptions'), 'redeemed'),
+      forCadet: (cadetId) => field(apiGet<{ redemptions: Redemption[] }>(`/api/redemptions?cadetId=${encodeURIComponent(cadetId)}`), 'redemptions'),
+    },
+
+    settings: {
+      schedule: () => field(apiGet<{ schedule: AspSchedule }>('/api/schedule'), 'schedule'),
+      incentives: () => field(apiGet<{ incentives: IncentiveConfig }>('/api/incentives'), 'incentives'),
+      companies: () => field(apiGet<{ companies: Company[] }>('/api/companies'), 'companies'),
+      rosterEnabled: () => field(apiGet<{ enabled: boolean }>('/api/roster'), 'enabled'),
+      kioskRequired: () => field(apiGet<{ required: boolean }>('/api/kiosk'), 'required'),
+    },
+  };
+}
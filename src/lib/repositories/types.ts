@@ -0,0 +1,86 @@
+// src/lib/repositories/types.ts
+// Data access for the page, so it behaves the same against Supabase (route handlers + the
+// anon client) and the local stand-in (localStorage demo mode, or in memory for tests).
+// Admin writes go through the admin routes with Supabase (the admin cookie authorizes them);
+// the local stand-in applies the same checks to its own store.
+//
+// Not covered: the offline sign-in queue, the In the room list and the server-built cadet
+// dashboard (the page builds it from these repositories instead), and the admin panels other
+// than Edit / Remove, which call their routes directly and need the database.
+import type { ApiResult } from "@/lib/api";
+import type { CadetBrief, Company, Klass, Session } from "@/lib/asp";
+import type { IncentiveConfig } from "@/lib/incentives";
+import type { LeaderboardRange } from "@/lib/leaderboard-range";
+import type { AspSchedule } from "@/lib/schedule";
+import type { CadetEdits, EditRowResult, NewSession, RemovedCadet } from "@/lib/server/admin";
+import type { Redemption } from "@/lib/server/redemptions";
+import type { SignInInput, SignInResult } from "@/lib/server/sessions";
+
+// `cadetId` is missing only for boards from databases without asp_leaderboard_all_time_v2
+// whose name no longer matches a cadet.
+export type LeaderboardEntry = { cadetId?: string; name: string; klass: Klass; company: string; totalMin: number };
+
+// Capped minutes and distinct ET nights per cadet inside a range.
+export type RangeTotal = { cadet_id: string; total_min: number; nights: number };
+
+export type CadetLookup = { cadetId?: string; name: string; klass: Klass; company: string };
+
+export interface CadetRepository {
+  get(id: string): Promise<ApiResult<CadetBrief | null>>;
+  // The row's own id, else an exact name/class/company match, else a case-insensitive one.
+  resolveId(row: CadetLookup): Promise<ApiResult<string | null>>;
+  // Remove voids every live session of the cadet; restore un-voids the ones the last Remove voided.
+  remove(cadetId: string): Promise<ApiResult<{ voided: number }>>;
+  restore(cadetId: string): Promise<ApiResult<{ restored: number }>>;
+  // Cadets whose sessions are all voided, most recently removed first.
+  removed(): Promise<ApiResult<RemovedCadet[]>>;
+}
+
+export interface SessionRepository {
+  // Resolves the cadet, resumes an open session or opens a new one (see sessions.ts).
+  signIn(input: SignInInput): Promise<ApiResult<SignInResult>>;
+  // Idempotent; the recorded sign-out never goes past 2h or the window end.
+  signOut(session: Pick<Session, 'id' | 'cadet_id'>): Promise<ApiResult<{ session: Session }>>;
+  // Highest first, overrides not applied. Only cadets with credited minutes inside the range,
+  // the all-time board included.
+  leaderboard(range: LeaderboardRange): Promise<ApiResult<LeaderboardEntry[]>>;
+  rangeTotals(from: Date | null, to: Date | null): Promise<ApiResult<RangeTotal[]>>;
+  // Newest first, voided sessions included. Without `page`, every session.
+  forCadet(cadetId: string, page?: { offset: number; limit: number }): Promise<ApiResult<Session[]>>;
+  // Admin writes, checked with session-validation.ts; warnings need `acknowledged`.
+  create(input: NewSession, acknowledged: boolean): Promise<ApiResult<{ session: Session }>>;
+  setVoided(ids: string[], voided: boolean): Promise<ApiResult<{ changed: number }>>;
+  // The edit panel's save: changed rows and the override together, or nothing. A rejected
+  // save carries the per-row `results` in the error body.
+  saveEdits(edits: CadetEdits, acknowledged: boolean): Promise<ApiResult<{ results: EditRowResult[]; override: number | null }>>;
+}
+
+export interface OverrideRepository {
+  all(): Promise<ApiResult<Record<string, number>>>; // cadet_id -> minutes_override
+  get(cadetId: string): Promise<ApiResult<number | null>>;
+  // null clears it.
+  set(cadetId: string, minutes: number | null): Promise<ApiResult<{ override: number | null }>>;
+}
+
+export interface RedemptionRepository {
+  totals(): Promise<ApiResult<Record<string, number>>>; // cadet_id -> units redeemed
+  forCadet(cadetId: string): Promise<ApiResult<Redemption[]>>;
+}
+
+// What the server has configured. The local stand-in has no roster, company list or room
+// display, and uses the default schedule and incentives.
+export interface SettingsRepository {
+  schedule(): Promise<ApiResult<AspSchedule>>;
+  incentives(): Promise<ApiResult<IncentiveConfig>>;
+  companies(): Promise<ApiResult<Company[]>>; // active only
+  rosterEnabled(): Promise<ApiResult<boolean>>;
+  kioskRequired(): Promise<ApiResult<boolean>>;
+}
+
+export type Repositories = {
+  cadets: CadetRepository;
+  sessions: SessionRepository;
+  overrides: OverrideRepository;
+  redemptions: RedemptionRepository;
+  settings: SettingsRepository;
+};
@@ -0,0 +1,173 @@
+// src/lib/schedule.ts
+// ASP schedule model: recurring weekly windows plus one-off added/cancelled dates (ET).
+// Shared by the page (badge, "Next session") and the server (sign-in gating, nightly cap).
+import {
+  TWO_HOURS_MIN, TZ, addDaysToKey, etDateKey, etInstant, formatMinOfDay, minutesOfDayET, overlapMinutesET,
+  weekdayOfKey, type Session,
+} from "@/lib/asp";
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export type WeeklyWindow = { weekday: Weekday; start_min: number; end_min: number };
+
+// `added` puts an extra window on each date in [start_date, end_date];
+// `cancelled` removes every window on those dates (holidays, leave periods).
+export type ScheduleException = {
+  id: string;
+  kind: 'added' | 'cancelled';
+  start_date: string; // YYYY-MM-DD (ET)
+  end_date: string;   // YYYY-MM-DD (ET), inclusive
+  start_min?: number; // required for `added`
+  end_min?: number;
+  note?: string;
+};
+
+export type AspSchedule = {
+  weekly: WeeklyWindow[];
+  exceptions: ScheduleException[];
+  nightly_cap_min: number;
+};
+
+export type AspWindow = { start_min: number; end_min: number };
+
+export const DEFAULT_SCHEDULE: AspSchedule = {
+  weekly: [
+    { weekday: 1, start_min: 19*60 + 30, end_min: 21*60 + 30 },
+    { weekday: 3, start_min: 19*60 + 30, end_min: 21*60 + 30 },
+  ],
+  exceptions: [],
+  nightly_cap_min: TWO_HOURS_MIN,
+};
+
+// ---------- Queries ----------
+export function windowsOn(schedule: AspSchedule, key: string): AspWindow[] {
+  const inRange = (e: ScheduleException) => e.start_date <= key && key <= e.end_date;
+  if (schedule.exceptions.some(e => e.kind === 'cancelled' && inRange(e))) return [];
+  const dow = weekdayOfKey(key);
+  const windows: AspWindow[] = schedule.weekly
+    .filter(w => w.weekday === dow)
+    .map(w => ({ start_min: w.start_min, end_min: w.end_min }));
+  for (const e of schedule.exceptions) {
+    if (e.kind === 'added' && inRange(e) && e.start_min !== undefined && e.end_min !== undefined) {
+      windows.push({ start_min: e.start_min, end_min: e.end_min });
+    }
+  }
+  return windows.sort((a, b) => a.start_min - b.start_min);
+}
+
+export function currentWindow(schedule: AspSchedule, now = new Date()): AspWindow | null {
+  const min = minutesOfDayET(now);
+  return windowsOn(schedule, etDateKey(now)).find(w => min >= w.start_min && min < w.end_min) ?? null;
+}
+
+export function isAspOpen(schedule: AspSchedule, now = new Date()) {
+  return currentWindow(schedule, now) !== null;
+}
+
+// Start of the next window strictly after `now` (looks ahead up to `horizonDays`).
+export function nextWindowStart(schedule: AspSchedule, now = new Date(), horizonDays = 120): Date | null {
+  const today = etDateKey(now);
+  for (let add = 0; add <= horizonDays; add++) {
+    const key = addDaysToKey(today, add);
+    for (const w of windowsOn(schedule, key)) {
+      const start = etInstant(key, w.start_min);
+      if (start.getTime() > now.getTime()) return start;
+    }
+  }
+  return null;
+}
+
+// End of the window `at` falls in (or null when closed).
+export function windowEndFor(schedule: AspSchedule, at: Date): Date | null {
+  const w = currentWindow(schedule, at);
+  return w ? etInstant(etDateKey(at), w.end_min) : null;
+}
+
+// When an open session must be closed: the nightly cap after sign-in or at the end of its
+// window, whichever comes first.
+export function autoCloseAt(schedule: AspSchedule, session: Pick<Session, 'sign_in'>): Date {
+  const sin = new Date(session.sign_in);
+  const cap = sin.getTime() + schedule.nightly_cap_min * 60000;
+  const end = windowEndFor(schedule, sin);
+  return new Date(end ? Math.min(cap, end.getTime()) : cap);
+}
+
+// Minutes logged inside tonight's scheduled windows, capped at the nightly limit.
+export function minutesTonightET(schedule: AspSchedule, sessions: Session[], now: Date): number {
+  const tonightKey = etDateKey(now);
+  const windows = windowsOn(schedule, tonightKey);
+  let sum = 0;
+  for (const s of sessions) {
+    const sin = new Date(s.sign_in);
+    const sout = new Date(s.sign_out ?? now);
+    if (etDateKey(sin) !== tonightKey) continue;
+    const a = minutesOfDayET(sin);
+    const b = etDateKey(sout) === tonightKey ? minutesOfDayET(sout) : 24 * 60;
+    for (const w of windows) sum += overlapMinutesET(a, b, w.start_min, w.end_min);
+  }
+  return Math.min(sum, schedule.nightly_cap_min);
+}
+
+// ---------- Display ----------
+// e.g. "Mon & Wed 19:30–21:30 (ET)"
+export function describeWeekly(schedule: AspSchedule) {
+  const byTime = new Map<string, Weekday[]>();
+  for (const w of [...schedule.weekly].sort((a, b) => a.weekday - b.weekday)) {
+    const k = `${formatMinOfDay(w.start_min)}–${formatMinOfDay(w.end_min)}`;
+    byTime.set(k, [...(byTime.get(k) ?? []), w.weekday]);
+  }
+  if (!byTime.size) return "No weekly sessions (ET)";
+  return [...byTime.entries()]
+    .map(([time, days]) => `${days.map(d => WEEKDAY_LABELS[d]).join(' & ')} ${time}`)
+    .join('; ') + " (ET)";
+}
+
+export function formatWindowStart(d: Date) {
+  return new Intl.DateTimeFormat('en-US', { timeZone: TZ, weekday:'long', month:'short', day:'numeric', hour:'numeric', minute:'2-digit' }).format(d);
+}
+
+// ---------- Validation ----------
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function validWindow(start: unknown, end: unknown): start is number {
+  return typeof start === 'number' && typeof end === 'number'
+    && Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end <= 24 * 60 && start < end;
+}
+
+// Returns a normalized schedule, or an error message.
+export function parseSchedule(raw: unknown): AspSchedule | string {
+  if (!raw || typeof raw !== 'object') return "Schedule is missing.";
+  const r = raw as Record<string, unknown>;
+  if (!Array.isArray(r.weekly) || !Array.isArray(r.exceptions)) return "Schedule needs weekly windows and exceptions.";
+
+  const weekly: WeeklyWindow[] = [];
+  for (const w of r.weekly as Array<Record<string, unknown>>) {
+    const day = w?.weekday;
+    if (typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6) return "Weekly window has an invalid weekday.";
+    if (!validWindow(w.start_min, w.end_min)) return `${WEEKDAY_LABELS[day]} window must start before it ends.`;
+    weekly.push({ weekday: day as Weekday, start_min: w.start_min, end_min: w.end_min as number });
+  }
+
+  const exceptions: ScheduleException[] = [];
+  for (const e of r.exceptions as Array<Record<string, unknown>>) {
+    if (e?.kind !== 'added' && e?.kind !== 'cancelled') return "Exception kind must be added or cancelled.";
+    const start = typeof e.start_date === 'string' ? e.start_date : '';
+    const end = typeof e.end_date === 'string' && e.end_date ? e.end_date : start;
+    if (!DATE_KEY.test(start) || !DATE_KEY.test(end) || end < start) return "Exception dates are invalid.";
+    const ex: ScheduleException = {
+      id: typeof e.id === 'string' && e.id ? e.id : crypto.randomUUID(),
+      kind: e.kind, start_date: start, end_date: end,
+      note: typeof e.note === 'string' && e.note.trim() ? e.note.trim() : undefined,
+    };
+    if (e.kind === 'added') {
+      if (!validWindow(e.start_min, e.end_min)) return `Added session on ${start} must start before it ends.`;
+      ex.start_min = e.start_min; ex.end_min = e.end_min as number;
+    }
+    exceptions.push(ex);
+  }
+
+  const cap = r.nightly_cap_min;
+  if (typeof cap !== 'number' || !Number.isInteger(cap) || cap <= 0 || cap > 24 * 60) return "Nightly cap must be a positive number of minutes.";
+  return { weekly, exceptions, nightly_cap_min: cap };
+}
@@ -0,0 +1,110 @@
+// src/lib/server/admin-auth.ts
+// Server-verified admin login: per-admin scrypt password hashes from the environment,
+// and a signed, HTTP-only session cookie with an expiry.
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+
+export const ADMIN_COOKIE = "asp_admin";
+export const ADMIN_SESSION_TTL_SEC = 8 * 60 * 60; // 8h
+
+export type AdminSession = { username: string; exp: number }; // exp: epoch seconds
+
+// ---------- Password hashing ----------
+// Stored format: `scrypt$<salt hex>$<hash hex>`
+export function hashPassword(password: string, salt = randomBytes(16).toString('hex')) {
+  const hash = scryptSync(password, salt, 32).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ASP_ADMINS="alice=scrypt$salt$hash,bob=scrypt$salt$hash"
+function adminAccounts(): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const entry of (process.env.ASP_ADMINS ?? '').split(',')) {
+    const i = entry.indexOf('=');
+    if (i <= 0) continue;
+    map.set(entry.slice(0, i).trim().toLowerCase(), entry.slice(i + 1).trim());
+  }
+  return map;
+}
+
+export function adminLoginConfigured() {
+  return adminAccounts().size > 0 && !!process.env.ASP_SESSION_SECRET;
+}
+
+export function checkAdminCredentials(username: string, password: string): string | null {
+  const user = username.trim().toLowerCase();
+  const stored = adminAccounts().get(user);
+  // Hash even for unknown users so timing does not reveal which usernames exist.
+  const ok = verifyPassword(password, stored ?? hashPassword('', '00'));
+  return stored && ok ? user : null;
+}
+
+// ---------- Signed session token ----------
+function sign(payload: string) {
+  const secret = process.env.ASP_SESSION_SECRET;
+  if (!secret) throw new Error("ASP_SESSION_SECRET is not set.");
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+// `<base64url JSON>.<HMAC>`; also used for device tokens (device-auth.ts).
+export function createSignedToken(data: object) {
+  const payload = Buffer.from(JSON.stringify(data)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// The token's JSON if the signature matches; callers check its shape and expiry.
+export function readSignedToken(token: string | undefined): unknown {
+  if (!token || !process.env.ASP_SESSION_SECRET) return null;
+  const [payload, sig] = token.split('.');
+  if (!payload || !sig) return null;
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function createAdminToken(username: string, now = Date.now()) {
+  const session: AdminSession = { username, exp: Math.floor(now / 1000) + ADMIN_SESSION_TTL_SEC };
+  return { token: createSignedToken(session), session };
+}
+
+export function readAdminToken(token: string | undefined, now = Date.now()): AdminSession | null {
+  const session = readSignedToken(token) as AdminSession | null;
+  if (typeof session?.username !== 'string' || typeof session.exp !== 'number') return null;
+  return session.exp * 1000 > now ? session : null;
+}
+
+// ---------- Route helpers ----------
+export function getAdmin(req: NextRequest): AdminSession | null {
+  return readAdminToken(req.cookies.get(ADMIN_COOKIE)?.value);
+}
+
+export function unauthorized() {
+  return NextResponse.json({ error: "Admin login required." }, { status: 401 });
+}
+
+export function setAdminCookie(res: NextResponse, token: string) {
+  res.cookies.set(ADMIN_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: ADMIN_SESSION_TTL_SEC,
+  });
+}
+
+export function clearAdminCookie(res: NextResponse) {
+  res.cookies.set(ADMIN_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
@@ -0,0 +1,158 @@
+// src/lib/server/admin.ts
+// Admin mutations (session edits, manual sessions, overrides, removals). Callers must check getAdmin() first;
+// each one runs as an SQL function that writes its audit_log rows under `actor` in the same transaction.
+import { type Session } from "@/lib/asp";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+import {
+  checkSessionEdits, rejectIssues, skipUpdated, validateSessions,
+  type EditRowResult, type SessionUpdate,
+} from "@/lib/session-validation";
+
+export type { EditRowResult, EditRowStatus, SessionUpdate } from "@/lib/session-validation";
+
+function isIso(v: unknown): v is string {
+  return typeof v === 'string' && !Number.isNaN(new Date(v).getTime());
+}
+
+export function parseSessionUpdates(body: unknown): SessionUpdate[] | null {
+  const raw = (body as { updates?: unknown } | null)?.updates;
+  if (!Array.isArray(raw)) return null;
+  const out: SessionUpdate[] = [];
+  for (const u of raw as Array<Record<string, unknown>>) {
+    if (!u || typeof u.id !== 'string' || !isIso(u.sign_in)) return null;
+    if (u.sign_out !== null && !isIso(u.sign_out)) return null;
+    out.push({ id: u.id, sign_in: new Date(u.sign_in).toISOString(), sign_out: u.sign_out ? new Date(u.sign_out).toISOString() : null });
+  }
+  return out;
+}
+
+const IDS_PER_QUERY = 100; // keeps the `in.(...)` filter well inside URL length limits
+
+// The cadets' other live sessions, so edits (and imports) can be checked for overlaps.
+export async function siblingSessions(cadetIds: string[]): Promise<FlowResult<Session[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const out: Session[] = [];
+  for (let i = 0; i < cadetIds.length; i += IDS_PER_QUERY) {
+    const ids = cadetIds.slice(i, i + IDS_PER_QUERY);
+    const { data, error } = await selectAll<Session>((from, to) => supabase
+      .from('sessions').select('id,cadet_id,sign_in,sign_out').in('cadet_id', ids).eq('voided', false)
+      .order('id').range(from, to));
+    if (error) return fail(500, error.message);
+    out.push(...data);
+  }
+  return ok(out);
+}
+
+export type CadetEdits = { cadetId: string; updates: SessionUpdate[]; override?: number | null };
+
+// `override` omitted leaves it alone; null clears it.
+export function parseCadetEdits(body: unknown): CadetEdits | null {
+  const b = body as { cadetId?: unknown; override?: unknown } | null;
+  const updates = parseSessionUpdates(body);
+  if (!b || typeof b.cadetId !== 'string' || !updates) return null;
+  const o = b.override;
+  if (!(o === undefined || o === null || (typeof o === 'number' && Number.isFinite(o)))) return null;
+  return { cadetId: b.cadetId, updates, override: o === undefined ? undefined : o === null ? null : Math.max(0, Math.floor(o)) };
+}
+
+// Saves the edit panel for one cadet: only changed rows are written, all of them plus the
+// override and their audit rows in one transaction (asp_save_cadet_edits). Per-row results come back either way;
+// on a rejected save every valid changed row is 'skipped'.
+export async function saveCadetEdits(input: CadetEdits, actor: string, acknowledged = false): Promise<FlowResult<{ results: EditRowResult[]; override: number | null }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const siblings = await siblingSessions([input.cadetId]);
+  if (!siblings.ok) return siblings;
+  const { results, changed, rejected } = checkSessionEdits(await loadSchedule(), siblings.data, input.updates, acknowledged);
+  if (rejected) return fail(rejected.status, rejected.error, { results });
+
+  const { data: prev } = await supabase.from('leaderboard_overrides').select('minutes_override').eq('cadet_id', input.cadetId).maybeSingle();
+  const overrideBefore = prev ? Number((prev as {minutes_override:number}).minutes_override) : null;
+  const setOverrideTo = input.override !== undefined && input.override !== overrideBefore;
+  if (!changed.length && !setOverrideTo) return ok({ results, override: overrideBefore });
+
+  const { error } = await supabase.rpc('asp_save_cadet_edits', {
+    p_cadet: input.cadetId,
+    p_updates: changed,
+    p_set_override: setOverrideTo,
+    p_override: setOverrideTo ? input.override : null,
+    p_actor: actor,
+  });
+  if (error) return fail(500, `Save failed: ${error.message}`, { results: skipUpdated(results) });
+  const override = setOverrideTo ? input.override ?? null : overrideBefore;
+  return ok({ results, override });
+}
+
+export type NewSession = { cadetId: string; sign_in: string; sign_out: string };
+
+export function parseNewSession(body: unknown): NewSession | null {
+  const b = body as { cadetId?: unknown; sign_in?: unknown; sign_out?: unknown } | null;
+  if (!b || typeof b.cadetId !== 'string' || !isIso(b.sign_in) || !isIso(b.sign_out)) return null;
+  return { cadetId: b.cadetId, sign_in: new Date(b.sign_in).toISOString(), sign_out: new Date(b.sign_out).toISOString() };
+}
+
+// Manual entry for a cadet who could not sign in (dead phone etc.), checked with the same
+// rules as edits.
+export async function createSession(input: NewSession, actor: string, acknowledged = false): Promise<FlowResult<{ session: Session }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data: cadet } = await supabase.from('cadets').select('id').eq('id', input.cadetId).maybeSingle();
+  if (!cadet) return fail(404, "Cadet not found.");
+
+  const siblings = await siblingSessions([input.cadetId]);
+  if (!siblings.ok) return siblings;
+  const candidate = { id: 'new', sign_in: input.sign_in, sign_out: input.sign_out };
+  const issues = validateSessions(await loadSchedule(), [...siblings.data, candidate], { only: new Set(['new']) });
+  const rejected = rejectIssues(issues, acknowledged);
+  if (rejected) return fail(rejected.status, rejected.error);
+
+  const { data, error } = await supabase.rpc('asp_create_session', {
+    p_id: crypto.randomUUID(), p_cadet: input.cadetId, p_sign_in: input.sign_in, p_sign_out: input.sign_out, p_actor: actor,
+  });
+  if (error || !data) return fail(500, error?.message ?? 'Could not create session.');
+  return ok({ session: data as Session });
+}
+
+export async function voidCadetSessions(cadetId: string, actor: string): Promise<FlowResult<{ voided: number }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.rpc('asp_remove_cadet', { p_cadet: cadetId, p_actor: actor });
+  if (error) return fail(500, error.message);
+  return ok({ voided: Number(data) });
+}
+
+export async function setSessionsVoided(ids: string[], voided: boolean, actor: string): Promise<FlowResult<{ changed: number }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.rpc('asp_set_sessions_voided', { p_ids: ids, p_voided: voided, p_actor: actor });
+  if (error) return fail(500, error.message);
+  return ok({ changed: Number(data) });
+}
+
+export type RemovedCadet = { id: string; name: string; klass: string; company: string; voided_sessions: number; removed_at: string | null };
+
+// Cadets whose sessions are all voided (i.e. taken off the leaderboard with Remove), from
+// asp_removed_cadets(). Most recently removed first.
+export async function listRemovedCadets(): Promise<FlowResult<RemovedCadet[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await selectAll<RemovedCadet>((from, to) =>
+    supabase.rpc('asp_removed_cadets').order('id').range(from, to));
+  if (error) return fail(500, error.message);
+  return ok(data
+    .map(c => ({ ...c, voided_sessions: Number(c.voided_sessions) }))
+    .sort((a, b) => (b.removed_at ?? '').localeCompare(a.removed_at ?? '')));
+}
+
+// Reverses the most recent Remove: un-voids the sessions that removal voided (or all
+// voided sessions when there is no audit record of it).
+export async function restoreCadet(cadetId: string, actor: string): Promise<FlowResult<{ restored: number }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.rpc('asp_restore_cadet', { p_cadet: cadetId, p_actor: actor });
+  if (error) return fail(500, error.message);
+  return ok({ restored: Number(data) });
+}
@@ -0,0 +1,49 @@
+// src/lib/server/analytics.ts
+// Loads non-voided sessions for a period and hands them to buildAnalytics().
+import { type Klass, type Session } from "@/lib/asp";
+import { buildAnalytics, type Analytics, type AnalyticsSession, type RosterMember } from "@/lib/analytics";
+import { RANGE_KINDS, rangeBounds, type LeaderboardRange, type RangeKind } from "@/lib/leaderboard-range";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query string → range; unknown kinds fall back to this semester.
+export function parseAnalyticsRange(p: URLSearchParams): LeaderboardRange | string {
+  const kind = (p.get('range') ?? 'semester') as RangeKind;
+  if (!RANGE_KINDS.includes(kind)) return `Unknown range "${kind}".`;
+  if (kind !== 'custom') return { kind };
+  const from = p.get('from') || undefined, to = p.get('to') || undefined;
+  if ((from && !DATE_KEY.test(from)) || (to && !DATE_KEY.test(to))) return "Dates must be YYYY-MM-DD.";
+  return { kind, from, to };
+}
+
+// Sessions are attributed to the ET night they started on, so the period filters on sign_in.
+export async function loadAnalytics(range: LeaderboardRange, now = new Date()): Promise<FlowResult<Analytics>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const bounds = rangeBounds(range, now);
+
+  const [sessions, cadets, schedule] = await Promise.all([
+    selectAll<Pick<Session, 'cadet_id' | 'sign_in' | 'sign_out'>>((from, to) => {
+      let q = supabase.from('sessions').select('cadet_id,sign_in,sign_out').eq('voided', false);
+      if (bounds.from) q = q.gte('sign_in', bounds.from.toISOString());
+      if (bounds.to) q = q.lt('sign_in', bounds.to.toISOString());
+      return q.order('sign_in').order('id').range(from, to);
+    }),
+    selectAll<{id:string; klass:Klass; company:string; roster_active:boolean | null}>((from, to) =>
+      supabase.from('cadets').select('id,klass,company,roster_active').order('id').range(from, to)),
+    loadSchedule(),
+  ]);
+  if (sessions.error) return fail(500, sessions.error.message);
+  if (cadets.error) return fail(500, cadets.error.message);
+  const byId = new Map(cadets.data.map(c => [c.id, c]));
+  const rows: AnalyticsSession[] = sessions.data.flatMap(s => {
+    const c = byId.get(s.cadet_id);
+    return c ? [{ ...s, klass: c.klass, company: c.company }] : [];
+  });
+  const roster: RosterMember[] = [...byId.values()].filter(c => c.roster_active).map(c => ({ klass: c.klass, company: c.company }));
+
+  return ok(buildAnalytics(rows, roster, schedule, bounds, now));
+}
@@ -0,0 +1,59 @@
+// src/lib/server/audit.ts
+// Append-only record of admin mutations (`audit_log`). Each mutation writes its rows inside
+// the SQL function that makes the change (see 20261019001800_audited_writes.sql).
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+export type AuditEntry = {
+  actor: string;
+  action: string;          // e.g. 'cadet.merge'
+  cadet_id?: string | null;
+  session_id?: string | null;
+  before?: unknown;
+  after?: unknown;
+  note?: string | null;
+};
+
+export type AuditRow = Required<Omit<AuditEntry, 'note'>> & {
+  id: string;
+  created_at: string;
+  note: string | null;
+  cadet_name: string | null;
+};
+// Keyset cursor: the created_at and id of the last row seen. Several rows can share one
+// created_at (batch inserts), so the id breaks ties.
+export type AuditCursor = { created_at: string; id: string };
+export type AuditFilter = { cadetId?: string; action?: string; actor?: string; before?: AuditCursor; limit?: number };
+
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-]\d{2}(:?\d{2})?)?$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Newest first (ties by id); page with `before` = the last row seen.
+export async function listAudit(filter: AuditFilter): Promise<FlowResult<AuditRow[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  let q = supabase
+    .from('audit_log').select('id,created_at,actor,action,cadet_id,session_id,before,after,note')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(Math.min(Math.max(filter.limit ?? 50, 1), 200));
+  if (filter.cadetId) q = q.eq('cadet_id', filter.cadetId);
+  if (filter.action) q = q.like('action', `${filter.action.replace(/[%_]/g, '')}%`);
+  if (filter.actor) q = q.eq('actor', filter.actor.toLowerCase());
+  if (filter.before) {
+    const { created_at: at, id } = filter.before;
+    if (!TIMESTAMP.test(at) || !UUID.test(id)) return fail(400, "Invalid audit cursor.");
+    q = q.or(`created_at.lt."${at}",and(created_at.eq."${at}",id.lt.${id})`);
+  }
+  const { data, error } = await q;
+  if (error) return fail(500, error.message);
+
+  const rows = (data ?? []) as Array<Omit<AuditRow, 'cadet_name'>>;
+  const ids = [...new Set(rows.map(r => r.cadet_id).filter((x): x is string => !!x))];
+  const names = new Map<string, string>();
+  if (ids.length) {
+    const { data: cads } = await supabase.from('cadets').select('id,name').in('id', ids);
+    for (const c of (cads ?? []) as Array<{id:string; name:string}>) names.set(c.id, c.name);
+  }
+  return ok(rows.map(r => ({ ...r, cadet_name: r.cadet_id ? names.get(r.cadet_id) ?? null : null })));
+}
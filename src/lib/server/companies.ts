@@ -0,0 +1,50 @@
+// src/lib/server/companies.ts
+// Companies sharing this deployment. cadets.company holds the company code.
+import { type Company } from "@/lib/asp";
+import { normalizeCompanyCode } from "@/lib/companies";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+export async function listCompanies(includeInactive = false): Promise<FlowResult<Company[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  let q = supabase.from('companies').select('code,display_name,active').order('code');
+  if (!includeInactive) q = q.eq('active', true);
+  const [companies, roster] = await Promise.all([
+    q,
+    supabase.from('cadets').select('company').eq('roster_active', true),
+  ]);
+  if (companies.error) return fail(500, companies.error.message);
+  const sizes = new Map<string, number>();
+  for (const r of (roster.data ?? []) as Array<{company:string}>) sizes.set(r.company, (sizes.get(r.company) ?? 0) + 1);
+  return ok(((companies.data ?? []) as Company[]).map(c => ({ ...c, roster_size: sizes.get(c.code) ?? 0 })));
+}
+
+// Free-typed sign-ins must name an active company once any company is configured.
+export async function companyAllowed(code: string): Promise<boolean> {
+  const supabase = getServerSupabase();
+  if (!supabase) return true;
+  const { data, error } = await supabase.from('companies').select('code,active');
+  if (error || !data?.length) return true;
+  return (data as Array<{code:string; active:boolean}>).some(c => c.code === code && c.active);
+}
+
+export function parseCompany(body: unknown): Company | string {
+  const b = body as { code?: unknown; display_name?: unknown; active?: unknown } | null;
+  const code = typeof b?.code === 'string' ? normalizeCompanyCode(b.code) : null;
+  if (!code) return "Company code must be 1–8 letters, digits or dashes (e.g. G1).";
+  const displayName = typeof b?.display_name === 'string' ? b.display_name.trim() : '';
+  if (!displayName) return "Display name is required.";
+  return { code, display_name: displayName, active: b?.active !== false };
+}
+
+export async function saveCompany(company: Company, actor: string): Promise<FlowResult<Company>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  // Upsert and company.save audit row in one transaction.
+  const { data, error } = await supabase.rpc('asp_save_company', {
+    p_code: company.code, p_display_name: company.display_name, p_active: company.active, p_actor: actor,
+  });
+  if (error) return fail(500, error.message);
+  return ok(data as Company);
+}
@@ -0,0 +1,48 @@
+// src/lib/server/dashboard.ts
+// A cadet's dashboard: the authoritative all-time total, session history by night, weekly
+// trend, rank within class and company, and reward balance.
+import { etDateKey, type CadetBrief, type Session } from "@/lib/asp";
+import { DASHBOARD_NIGHTS, rankWithin, summarizeNights, weeklyTrend, type CadetDashboard } from "@/lib/cadet-stats";
+import { nextReward } from "@/lib/incentives";
+import { loadLeaderboard } from "@/lib/server/leaderboard";
+import { cadetRewardState } from "@/lib/server/redemptions";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+// `offset` counts nights, newest first (DASHBOARD_NIGHTS per page).
+export async function cadetDashboard(cadetId: string, offset = 0): Promise<FlowResult<CadetDashboard>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const [cadet, sessions, board, schedule, rewards] = await Promise.all([
+    supabase.from('cadets').select('id,name,klass,company').eq('id', cadetId).maybeSingle(),
+    supabase.from('sessions').select('id,cadet_id,sign_in,sign_out,voided,auto_closed').eq('cadet_id', cadetId).eq('voided', false),
+    loadLeaderboard({ kind: 'all' }),
+    loadSchedule(),
+    cadetRewardState(cadetId),
+  ]);
+  if (cadet.error) return fail(500, cadet.error.message);
+  if (!cadet.data) return fail(404, "Cadet not found.");
+  if (sessions.error) return fail(500, sessions.error.message);
+  if (!rewards.ok) return rewards;
+  if (!board.ok) return board;
+
+  const rows = board.data.map(r => ({ cadetId: r.cadet_id, klass: r.klass, company: r.company, total: r.total_min }));
+  const mine = board.data.find(r => r.cadet_id === cadetId);
+  const me = cadet.data as CadetBrief;
+  const own = (sessions.data ?? []) as Session[];
+  const nights = summarizeNights(own, schedule);
+  const { incentives, klass, progress, balance } = rewards.data;
+
+  return ok({
+    cadet: me,
+    total_min: mine?.total_min ?? 0,
+    overridden: mine?.overridden ?? false,
+    rank: rankWithin(rows, me),
+    weekly: weeklyTrend(own, schedule),
+    nights: nights.slice(offset, offset + DASHBOARD_NIGHTS),
+    has_more: nights.length > offset + DASHBOARD_NIGHTS,
+    balance,
+    next: nextReward(incentives, klass, progress, etDateKey(new Date())),
+  });
+}
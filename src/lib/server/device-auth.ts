@@ -0,0 +1,87 @@
+// src/lib/server/device-auth.ts
+// Credentials for shared screens (room display, door tablet) that must keep working without an
+// admin logged in. An admin sets up the screen once (a `devices` row plus a signed cookie on
+// that browser); the cookie only unlocks its role's routes, lasts DEVICE_TOKEN_TTL_SEC, and
+// stops working once the row is revoked in Admin → Devices.
+import { NextResponse, type NextRequest } from "next/server";
+import { createSignedToken, readSignedToken } from "@/lib/server/admin-auth";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+export const DEVICE_ROLES = ['display', 'door'] as const;
+export type DeviceRole = typeof DEVICE_ROLES[number];
+export const DEVICE_TOKEN_TTL_SEC = 180 * 24 * 60 * 60; // 180 days
+
+export type Device = {
+  id: string;
+  role: DeviceRole;
+  label: string;
+  created_by: string;
+  created_at: string;
+  revoked_by: string | null;
+  revoked_at: string | null;
+};
+
+type DeviceToken = { device: string; role: DeviceRole; exp: number }; // exp: epoch seconds
+
+const COLUMNS = 'id,role,label,created_by,created_at,revoked_by,revoked_at';
+const cookieName = (role: DeviceRole) => `asp_device_${role}`;
+
+export function isDeviceRole(v: unknown): v is DeviceRole {
+  return typeof v === 'string' && (DEVICE_ROLES as readonly string[]).includes(v);
+}
+
+// Newest first, revoked ones included.
+export async function listDevices(): Promise<FlowResult<Device[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.from('devices').select(COLUMNS).order('created_at', { ascending: false });
+  if (error) return fail(500, error.message);
+  return ok((data ?? []) as Device[]);
+}
+
+// Returns the device and the token to store in its cookie.
+export async function registerDevice(role: DeviceRole, label: string, actor: string, now = Date.now()): Promise<FlowResult<{ device: Device; token: string }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.rpc('asp_register_device', { p_role: role, p_label: label, p_actor: actor });
+  if (error || !data) return fail(500, error?.message ?? 'Could not register the device.');
+  const device = data as Device;
+  const token: DeviceToken = { device: device.id, role, exp: Math.floor(now / 1000) + DEVICE_TOKEN_TTL_SEC };
+  return ok({ device, token: createSignedToken(token) });
+}
+
+export async function revokeDevice(id: string, actor: string): Promise<FlowResult<Device>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.rpc('asp_revoke_device', { p_id: id, p_actor: actor });
+  if (error) return fail(500, error.message);
+  if (!data) return fail(404, "Device not found or already revoked.");
+  return ok(data as Device);
+}
+
+// ---------- Route helpers ----------
+// The device behind the request's cookie for `role`, if it is signed, unexpired and not revoked.
+export async function getDevice(req: NextRequest, role: DeviceRole, now = Date.now()): Promise<Device | null> {
+  const token = readSignedToken(req.cookies.get(cookieName(role))?.value) as DeviceToken | null;
+  if (typeof token?.device !== 'string' || token.role !== role || typeof token.exp !== 'number' || token.exp * 1000 <= now) return null;
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase.from('devices').select(COLUMNS).eq('id', token.device).maybeSingle();
+  const device = data as Device | null;
+  return device && device.role === role && !device.revoked_at ? device : null;
+}
+
+export function deviceUnauthorized() {
+  return NextResponse.json({ error: "This screen is not set up. An admin needs to set it up again." }, { status: 401 });
+}
+
+export function setDeviceCookie(res: NextResponse, role: DeviceRole, token: string) {
+  res.cookies.set(cookieName(role), token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: DEVICE_TOKEN_TTL_SEC,
+  });
+}
@@ -0,0 +1,49 @@
+// src/lib/server/door.ts
+// Shared door tablet. The device keeps no identity between cadets: each visit looks the cadet
+// up (roster pick or ID scan), shows their status and signs them in or out by cadet id.
+import type { Cadet, Session } from "@/lib/asp";
+import { minutesTonightET } from "@/lib/schedule";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { findRosterCadet, findRosterCadetByNumber } from "@/lib/server/roster";
+import { signIn, signOut } from "@/lib/server/sessions";
+import { loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+export type DoorStatus = { cadet: Cadet; session: Session | null; tonight_min: number };
+export type DoorAction = 'sign_in' | 'sign_out';
+
+export type DoorLookup = { cadetId: string } | { cadetNumber: string };
+
+export async function doorStatus(lookup: DoorLookup, now = new Date()): Promise<FlowResult<DoorStatus>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const cadet = 'cadetId' in lookup ? await findRosterCadet(lookup.cadetId) : await findRosterCadetByNumber(lookup.cadetNumber);
+  if (!cadet) return fail(404, 'cadetId' in lookup ? "Pick your name from the roster." : "That ID is not on the roster.");
+
+  const since = new Date(now.getTime() - 36 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('sessions').select('id,cadet_id,sign_in,sign_out')
+    .eq('cadet_id', cadet.id).eq('voided', false).gte('sign_in', since).order('sign_in', { ascending: false });
+  if (error) return fail(500, error.message);
+  const recent = (data ?? []) as Session[];
+  return ok({
+    cadet,
+    session: recent.find(s => !s.sign_out) ?? null,
+    tonight_min: minutesTonightET(await loadSchedule(), recent, now),
+  });
+}
+
+// Signs the cadet in (the tablet is in the room, so no room code) or closes their open session.
+export async function doorAction(cadetId: string, action: DoorAction, now = new Date()): Promise<FlowResult<DoorStatus>> {
+  if (action === 'sign_in') {
+    const res = await signIn({ cadetId }, now, { inRoom: true });
+    if (!res.ok) return res;
+  } else {
+    const status = await doorStatus({ cadetId }, now);
+    if (!status.ok) return status;
+    if (!status.data.session) return fail(409, "You are not signed in.");
+    const res = await signOut({ sessionId: status.data.session.id, cadetId }, now);
+    if (!res.ok) return res;
+  }
+  return doorStatus({ cadetId }, now);
+}
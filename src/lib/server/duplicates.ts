@@ -0,0 +1,60 @@
+// src/lib/server/duplicates.ts
+// Admin duplicate finder and merge (the merge itself runs in the asp_merge_cadets SQL function).
+import { type Cadet } from "@/lib/asp";
+import { findDuplicateGroups, namesLikelySame } from "@/lib/duplicates";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+
+export type DuplicateCandidate = Pick<Cadet, 'id' | 'name' | 'klass' | 'company' | 'cadet_number' | 'roster_active'> & {
+  sessions: number;
+  override: number | null;
+};
+
+export async function listDuplicateGroups(): Promise<FlowResult<DuplicateCandidate[][]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const [cadets, counts, overrides] = await Promise.all([
+    selectAll<Cadet>((from, to) => supabase.from('cadets').select('id,name,klass,company,cadet_number,roster_active').order('id').range(from, to)),
+    selectAll<{cadet_id:string; sessions:number}>((from, to) => supabase.rpc('asp_session_counts').order('cadet_id').range(from, to)),
+    selectAll<{cadet_id:string; minutes_override:number}>((from, to) => supabase.from('leaderboard_overrides').select('cadet_id,minutes_override').order('cadet_id').range(from, to)),
+  ]);
+  const err = cadets.error ?? counts.error ?? overrides.error;
+  if (err) return fail(500, err.message);
+
+  const sessionCounts = new Map(counts.data!.map(c => [c.cadet_id, Number(c.sessions)]));
+  const ovMap = new Map(overrides.data!.map(o => [o.cadet_id, Number(o.minutes_override)]));
+
+  const candidates: DuplicateCandidate[] = cadets.data!.map(c => ({
+    id: c.id, name: c.name, klass: c.klass, company: c.company,
+    cadet_number: c.cadet_number ?? null, roster_active: !!c.roster_active,
+    sessions: sessionCounts.get(c.id) ?? 0,
+    override: ovMap.get(c.id) ?? null,
+  }));
+  // Most likely survivor first: roster cadet, then most sessions.
+  const rank = (c: DuplicateCandidate) => (c.roster_active ? 1e6 : 0) + c.sessions;
+  return ok(findDuplicateGroups(candidates).map(g => g.sort((a, b) => rank(b) - rank(a))));
+}
+
+export async function mergeCadets(survivorId: string, loserIds: string[], actor: string): Promise<FlowResult<{ sessions_moved: number }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const losers = [...new Set(loserIds)].filter(id => id !== survivorId);
+  if (!losers.length) return fail(400, "Pick at least one cadet to merge.");
+
+  const { data: before, error: beforeErr } = await supabase
+    .from('cadets').select('id,name,klass,company,cadet_number').in('id', [survivorId, ...losers]);
+  if (beforeErr) return fail(500, beforeErr.message);
+  // Only cadets that directly resemble the survivor can be merged into it.
+  const rows = (before ?? []) as Cadet[];
+  const survivor = rows.find(c => c.id === survivorId);
+  if (!survivor) return fail(404, "Surviving cadet not found.");
+  const unlike = rows.find(c => c.id !== survivorId && !(c.klass === survivor.klass
+    && c.company.trim().toLowerCase() === survivor.company.trim().toLowerCase() && namesLikelySame(c.name, survivor.name)));
+  if (unlike) return fail(400, `${unlike.name} does not look like the same cadet as ${survivor.name}.`);
+
+  // Moves everything, deletes the losers and writes the cadet.merge audit row in one transaction.
+  const { data, error } = await supabase.rpc('asp_merge_cadets', { p_survivor: survivorId, p_losers: losers, p_actor: actor });
+  if (error) return fail(500, `Merge failed: ${error.message}`);
+  const summary = (data ?? {}) as { sessions_moved?: number; override_moved?: number | null };
+  return ok({ sessions_moved: summary.sessions_moved ?? 0 });
+}
@@ -0,0 +1,152 @@
+// src/lib/server/exports.ts
+// Admin exports: the leaderboard as filtered on the page, raw sessions for a date range and
+// the PMI awards report. Each builds sheets for toCsv() / toXlsx().
+import { etDateKey, formatHM, isKlass, toLocalInputET, type Klass, type Session } from "@/lib/asp";
+import { EXPORT_FORMATS, type ExportFormat, type Sheet } from "@/lib/export";
+import { earnedRewards, rewardBalance, scheduledNightsByRule, withOverride } from "@/lib/incentives";
+import { RANGE_KINDS, RANGE_LABELS, creditedSessionMinutes, rangeBounds, type LeaderboardRange, type RangeKind } from "@/lib/leaderboard-range";
+import { loadLeaderboard } from "@/lib/server/leaderboard";
+import { redeemedTotals, rewardProgressByCadet } from "@/lib/server/redemptions";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { loadIncentives, loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+
+export const EXPORT_REPORTS = ['leaderboard', 'sessions', 'awards'] as const;
+export type ExportReport = typeof EXPORT_REPORTS[number];
+
+export type ExportRequest = {
+  report: ExportReport;
+  format: ExportFormat;
+  range: LeaderboardRange;
+  klass?: Klass;     // leaderboard tab
+  company?: string;  // company scope
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const etText = (iso: string) => toLocalInputET(iso).replace('T', ' ');
+
+// Query string → export request, or an error message.
+export function parseExportRequest(p: URLSearchParams): ExportRequest | string {
+  const report = p.get('report') as ExportReport;
+  if (!EXPORT_REPORTS.includes(report)) return "Unknown report.";
+  const format = (p.get('format') ?? 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) return "Format must be csv or xlsx.";
+  const kind = (p.get('range') ?? 'all') as RangeKind;
+  if (!RANGE_KINDS.includes(kind)) return `Unknown range "${kind}".`;
+  const from = p.get('from') || undefined, to = p.get('to') || undefined;
+  if ((from && !DATE_KEY.test(from)) || (to && !DATE_KEY.test(to))) return "Dates must be YYYY-MM-DD.";
+  const klass = p.get('klass');
+  if (klass && !isKlass(klass)) return "Unknown class.";
+  return {
+    report, format,
+    range: kind === 'custom' ? { kind, from, to } : { kind },
+    klass: klass ? klass as Klass : undefined,
+    company: p.get('company') || undefined,
+  };
+}
+
+// e.g. "asp-sessions-2026-10-19.xlsx"
+export function exportFilename(req: ExportRequest, now = new Date()) {
+  return `asp-${req.report}-${etDateKey(now)}.${req.format}`;
+}
+
+export async function buildExport(req: ExportRequest): Promise<FlowResult<Sheet[]>> {
+  switch (req.report) {
+    case 'leaderboard': return leaderboardSheets(req);
+    case 'sessions': return sessionSheets(req);
+    case 'awards': return awardSheets(req);
+  }
+}
+
+async function leaderboardSheets(req: ExportRequest): Promise<FlowResult<Sheet[]>> {
+  const board = await loadLeaderboard(req.range);
+  if (!board.ok) return board;
+  const rows = board.data.filter(r => (!req.klass || r.klass === req.klass) && (!req.company || r.company === req.company));
+  return ok([{
+    name: `Leaderboard ${RANGE_LABELS[req.range.kind]}`,
+    columns: ['Rank', 'Name', 'Class', 'Company', 'Minutes', 'Total (h:mm)', 'Override'],
+    rows: rows.map((r, i) => [i + 1, r.name, r.klass, r.company, r.total_min, formatHM(r.total_min), r.overridden]),
+  }]);
+}
+
+// All sessions that started in the range, voided ones included and flagged.
+async function sessionSheets(req: ExportRequest): Promise<FlowResult<Sheet[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { from, to } = rangeBounds(req.range);
+
+  const [sessions, cadets, schedule] = await Promise.all([
+    selectAll<Session>((start, end) => {
+      let q = supabase.from('sessions').select('id,cadet_id,sign_in,sign_out,voided,auto_closed');
+      if (from) q = q.gte('sign_in', from.toISOString());
+      if (to) q = q.lt('sign_in', to.toISOString());
+      return q.order('sign_in').order('id').range(start, end);
+    }),
+    selectAll<{id:string; name:string; klass:Klass; company:string; cadet_number:string | null}>((start, end) =>
+      supabase.from('cadets').select('id,name,klass,company,cadet_number').order('id').range(start, end)),
+    loadSchedule(),
+  ]);
+  if (sessions.error) return fail(500, sessions.error.message);
+  if (cadets.error) return fail(500, cadets.error.message);
+  const byId = new Map(cadets.data.map(c => [c.id, c]));
+  // Nights are capped across all of a cadet's sessions, before the class / company filter.
+  const credited = creditedSessionMinutes(schedule, sessions.data);
+
+  const rows = sessions.data
+    .map(s => ({ s, c: byId.get(s.cadet_id) }))
+    .filter(({ c }) => (!req.klass || c?.klass === req.klass) && (!req.company || c?.company === req.company));
+  return ok([{
+    name: 'Sessions',
+    columns: ['Cadet', 'Cadet number', 'Class', 'Company', 'Sign in (ET)', 'Sign out (ET)', 'Capped minutes', 'Voided', 'Auto signed out', 'Session id'],
+    rows: rows.map(({ s, c }) => [
+      c?.name ?? s.cadet_id, c?.cadet_number ?? null, c?.klass ?? null, c?.company ?? null,
+      etText(s.sign_in), s.sign_out ? etText(s.sign_out) : null,
+      Math.floor(credited.get(s.id) ?? 0), !!s.voided, !!s.auto_closed, s.id,
+    ]),
+  }]);
+}
+
+// Per cadet: units per incentive rule, earned, redeemed, available; plus the redemption ledger.
+async function awardSheets(req: ExportRequest): Promise<FlowResult<Sheet[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const [board, incentives, schedule, redeemed, ledger] = await Promise.all([
+    loadLeaderboard({ kind: 'all' }),
+    loadIncentives(),
+    loadSchedule(),
+    redeemedTotals(),
+    selectAll<{cadet_id:string; units:number; redeemed_on:string; approver:string; note:string | null; created_by:string}>((from, to) =>
+      supabase.from('pmi_redemptions').select('cadet_id,units,redeemed_on,approver,note,created_by').order('redeemed_on').order('id').range(from, to)),
+  ]);
+  if (!board.ok) return board;
+  if (!redeemed.ok) return redeemed;
+  if (ledger.error) return fail(500, ledger.error.message);
+  const progress = await rewardProgressByCadet(incentives);
+  if (!progress.ok) return progress;
+
+  const nights = scheduledNightsByRule(incentives, schedule, etDateKey(new Date()));
+  const cadets = board.data.filter(r => (!req.klass || r.klass === req.klass) && (!req.company || r.company === req.company));
+  const names = new Map(cadets.map(c => [c.cadet_id, c]));
+  const unit = incentives.unit_label;
+
+  const awards: Sheet = {
+    name: unit,
+    columns: ['Name', 'Class', 'Company', 'All-time minutes', ...incentives.rules.map(r => r.name), `Earned ${unit}`, 'Redeemed', 'Available'],
+    rows: cadets.map(c => {
+      const earned = earnedRewards(incentives, c.klass, withOverride(incentives, progress.data[c.cadet_id] ?? {}, c.overridden ? c.total_min : undefined), nights);
+      const balance = rewardBalance(earned.units, redeemed.data[c.cadet_id] ?? 0);
+      return [c.name, c.klass, c.company, c.total_min, ...earned.lines.map(l => l.units), balance.earned, balance.redeemed, balance.available];
+    }),
+  };
+  const redemptions: Sheet = {
+    name: 'Redemptions',
+    columns: ['Name', 'Class', 'Company', 'Date', 'Units', 'Approver', 'Note', 'Recorded by'],
+    rows: ledger.data
+      .filter(r => names.has(r.cadet_id))
+      .map(r => {
+        const c = names.get(r.cadet_id)!;
+        return [c.name, c.klass, c.company, r.redeemed_on, r.units, r.approver, r.note, r.created_by];
+      }),
+  };
+  return ok([awards, redemptions]);
+}
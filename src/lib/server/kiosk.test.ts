@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { currentKioskCode, KIOSK_STEP_SEC, kioskRequired, verifyKioskCode } from "@/lib/server/kiosk";
+
+// Start of a display step, so "n steps later" lands exactly on a rotation.
+const SHOWN = Math.floor(Date.parse("2026-10-19T23:30:00Z") / 1000 / KIOSK_STEP_SEC) * KIOSK_STEP_SEC * 1000;
+const later = (steps: number, sec = 0) => SHOWN + (steps * KIOSK_STEP_SEC + sec) * 1000;
+
+describe("kiosk codes", () => {
+  beforeEach(() => { process.env.ASP_KIOSK_SECRET = "test-secret"; });
+  afterEach(() => { delete process.env.ASP_KIOSK_SECRET; });
+
+  it("is off without a secret", () => {
+    delete process.env.ASP_KIOSK_SECRET;
+    expect(kioskRequired()).toBe(false);
+    expect(currentKioskCode(SHOWN)).toBeNull();
+  });
+
+  it("shows a six-digit code until the next rotation", () => {
+    const shown = currentKioskCode(SHOWN)!;
+    expect(shown.code).toMatch(/^\d{6}$/);
+    expect(shown.expires_at).toBe(new Date(later(1)).toISOString());
+    expect(currentKioskCode(later(0, KIOSK_STEP_SEC - 1))!.code).toBe(shown.code);
+  });
+
+  it("accepts a shown code for the grace window after it rotates", () => {
+    const { code } = currentKioskCode(SHOWN)!;
+    expect(verifyKioskCode(code, SHOWN)).toBe(true);
+    expect(verifyKioskCode(` ${code} `, later(1))).toBe(true);
+    expect(verifyKioskCode(code, later(4, KIOSK_STEP_SEC - 1))).toBe(true);
+  });
+
+  it("rejects a shown code once the grace window is over", () => {
+    const { code } = currentKioskCode(SHOWN)!;
+    expect(verifyKioskCode(code, later(5))).toBe(false);
+    expect(verifyKioskCode(code, later(-1))).toBe(false); // not valid before it is shown
+  });
+
+  it("rejects malformed and other-secret codes", () => {
+    const { code } = currentKioskCode(SHOWN)!;
+    expect(verifyKioskCode(undefined, SHOWN)).toBe(false);
+    expect(verifyKioskCode("", SHOWN)).toBe(false);
+    expect(verifyKioskCode("12ab56", SHOWN)).toBe(false);
+    process.env.ASP_KIOSK_SECRET = "another-secret";
+    expect(verifyKioskCode(code, SHOWN)).toBe(false);
+  });
+});
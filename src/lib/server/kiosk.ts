@@ -0,0 +1,37 @@
+// src/lib/server/kiosk.ts
+// Room check for sign-in. The kiosk display in the ASP room shows a short code (and a QR
+// code linking to the page with it) that rotates every KIOSK_STEP_SEC; once ASP_KIOSK_SECRET
+// is set, sign-in must present a current one, so cadets cannot sign in from elsewhere.
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const KIOSK_STEP_SEC = 30;
+const KIOSK_GRACE_STEPS = 4; // a scanned code stays valid ~2 min while the cadet picks their name
+const CODE_DIGITS = 6;
+
+export type KioskCode = { code: string; expires_at: string }; // expires_at: when the display rotates
+
+export function kioskRequired() {
+  return !!process.env.ASP_KIOSK_SECRET;
+}
+
+function codeForStep(step: number) {
+  const mac = createHmac('sha256', process.env.ASP_KIOSK_SECRET ?? '').update(`kiosk:${step}`).digest();
+  return String(mac.readUInt32BE(0) % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+}
+
+export function currentKioskCode(now = Date.now()): KioskCode | null {
+  if (!kioskRequired()) return null;
+  const step = Math.floor(now / 1000 / KIOSK_STEP_SEC);
+  return { code: codeForStep(step), expires_at: new Date((step + 1) * KIOSK_STEP_SEC * 1000).toISOString() };
+}
+
+export function verifyKioskCode(code: unknown, now = Date.now()) {
+  if (typeof code !== 'string' || !/^\d+$/.test(code.trim())) return false;
+  const actual = Buffer.from(code.trim().padStart(CODE_DIGITS, '0'));
+  const step = Math.floor(now / 1000 / KIOSK_STEP_SEC);
+  for (let s = step; s >= step - KIOSK_GRACE_STEPS; s--) {
+    const expected = Buffer.from(codeForStep(s));
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) return true;
+  }
+  return false;
+}
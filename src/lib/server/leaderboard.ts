@@ -0,0 +1,43 @@
+// src/lib/server/leaderboard.ts
+// Server-side leaderboard for a range, matching what the page shows: the all-time board uses
+// asp_leaderboard_all_time_v2 with overrides applied; other ranges use asp_leaderboard_range.
+import { type Klass } from "@/lib/asp";
+import { rangeBounds, type LeaderboardRange } from "@/lib/leaderboard-range";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+
+export type BoardRow = { cadet_id: string; name: string; klass: Klass; company: string; total_min: number; overridden: boolean };
+
+type RpcRow = { cadet_id: string; name: string; klass: Klass; company: string; total_min: number };
+
+// Sorted by total_min, highest first.
+export async function loadLeaderboard(range: LeaderboardRange, now = new Date()): Promise<FlowResult<BoardRow[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { from, to } = rangeBounds(range, now);
+  // Paged by cadet_id; the board is sorted by total below.
+  const rangeRpc = () => selectAll<RpcRow>((f, t) => supabase
+    .rpc('asp_leaderboard_range', { p_from: from?.toISOString() ?? null, p_to: to?.toISOString() ?? null })
+    .order('cadet_id').range(f, t));
+
+  let board = range.kind === 'all'
+    ? await selectAll<RpcRow>((f, t) => supabase.rpc('asp_leaderboard_all_time_v2').order('cadet_id').range(f, t))
+    : await rangeRpc();
+  if (board.error && range.kind === 'all') board = await rangeRpc(); // older databases without v2
+  if (board.error) return fail(500, board.error.message);
+
+  const overrides = new Map<string, number>();
+  if (range.kind === 'all') {
+    const { data, error } = await selectAll<{cadet_id:string; minutes_override:number}>((f, t) =>
+      supabase.from('leaderboard_overrides').select('cadet_id,minutes_override').order('cadet_id').range(f, t));
+    if (error) return fail(500, error.message);
+    for (const o of data) overrides.set(o.cadet_id, Number(o.minutes_override));
+  }
+  return ok(board.data
+    .map(r => ({
+      cadet_id: r.cadet_id, name: r.name, klass: r.klass, company: r.company,
+      total_min: overrides.get(r.cadet_id) ?? Math.floor(Number(r.total_min)),
+      overridden: overrides.has(r.cadet_id),
+    }))
+    .sort((a, b) => b.total_min - a.total_min));
+}
@@ -0,0 +1,188 @@
+// src/lib/server/redemptions.ts
+// PMI redemption ledger (`pmi_redemptions`). Earned units are recomputed here from the
+// incentive rules so an admin cannot redeem more than a cadet has available.
+import { etDateKey, type Klass } from "@/lib/asp";
+import {
+  earnedRewards, isUndated, rewardBalance, ruleRange, scheduledNightsByRule, withOverride,
+  type IncentiveConfig, type RewardBalance, type RuleProgress,
+} from "@/lib/incentives";
+import { rangeBounds } from "@/lib/leaderboard-range";
+import { loadLeaderboard } from "@/lib/server/leaderboard";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { loadIncentives, loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+
+export type Redemption = {
+  id: string;
+  cadet_id: string;
+  units: number;
+  redeemed_on: string; // YYYY-MM-DD (ET)
+  approver: string;
+  note: string | null;
+  created_by: string;
+  created_at: string;
+};
+
+export type NewRedemption = { cadetId: string; units: number; redeemed_on: string; approver: string | null; note: string | null };
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const COLUMNS = 'id,cadet_id,units,redeemed_on,approver,note,created_by,created_at';
+
+// Returns the redemption, or an error message. approver defaults to the signed-in admin.
+export function parseRedemption(body: unknown): NewRedemption | string {
+  const b = body as { cadetId?: unknown; units?: unknown; redeemed_on?: unknown; approver?: unknown; note?: unknown } | null;
+  if (typeof b?.cadetId !== 'string' || !b.cadetId) return "Missing cadet.";
+  if (typeof b.units !== 'number' || !Number.isInteger(b.units) || b.units <= 0) return "Units must be a positive whole number.";
+  if (typeof b.redeemed_on !== 'string' || !DATE_KEY.test(b.redeemed_on)) return "Redemption date must be YYYY-MM-DD.";
+  if (b.redeemed_on > etDateKey(new Date())) return "Redemption date is in the future.";
+  const approver = typeof b.approver === 'string' && b.approver.trim() ? b.approver.trim() : null;
+  const note = typeof b.note === 'string' && b.note.trim() ? b.note.trim() : null;
+  return { cadetId: b.cadetId, units: b.units, redeemed_on: b.redeemed_on, approver, note };
+}
+
+// cadet_id -> units redeemed, for the leaderboard balance column.
+export async function redeemedTotals(): Promise<FlowResult<Record<string, number>>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await selectAll<{cadet_id:string; units:number}>((from, to) =>
+    supabase.from('pmi_redemptions').select('cadet_id,units').order('id').range(from, to));
+  if (error) return fail(500, error.message);
+  const totals: Record<string, number> = {};
+  for (const r of data) totals[r.cadet_id] = (totals[r.cadet_id] ?? 0) + Number(r.units);
+  return ok(totals);
+}
+
+export async function listRedemptions(cadetId: string): Promise<FlowResult<Redemption[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase
+    .from('pmi_redemptions').select(COLUMNS).eq('cadet_id', cadetId)
+    .order('redeemed_on', { ascending: false }).order('created_at', { ascending: false });
+  if (error) return fail(500, error.message);
+  return ok((data ?? []) as Redemption[]);
+}
+
+const rangeParams = (rule: IncentiveConfig['rules'][number]) => {
+  const { from, to } = rangeBounds(ruleRange(rule));
+  return { from: from?.toISOString() ?? null, to: to?.toISOString() ?? null };
+};
+
+// cadet_id -> rule id -> minutes and nights inside the rule's dates (one RPC per rule), for
+// exports over the whole corps. Undated rules take their minutes from the all-time board, as
+// on the leaderboard.
+export async function rewardProgressByCadet(incentives: IncentiveConfig): Promise<FlowResult<Record<string, Record<string, RuleProgress>>>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  let allTime: Map<string, number> | undefined;
+  if (incentives.rules.some(isUndated)) {
+    const board = await loadLeaderboard({ kind: 'all' });
+    if (!board.ok) return board;
+    allTime = new Map(board.data.map(r => [r.cadet_id, r.total_min]));
+  }
+  const out: Record<string, Record<string, RuleProgress>> = {};
+  for (const rule of incentives.rules) {
+    const { from, to } = rangeParams(rule);
+    const res = await selectAll<{cadet_id:string; total_min:number; nights:number}>((f, t) => supabase
+      .rpc('asp_leaderboard_range', { p_from: from, p_to: to }).order('cadet_id').range(f, t));
+    if (res.error) return fail(500, res.error.message);
+    for (const r of res.data) {
+      (out[r.cadet_id] ??= {})[rule.id] = { minutes: Number(r.total_min), nights: Number(r.nights) };
+    }
+    if (isUndated(rule) && allTime) {
+      for (const [cadetId, minutes] of allTime) (out[cadetId] ??= {})[rule.id] = { minutes, nights: out[cadetId][rule.id]?.nights ?? 0 };
+    }
+  }
+  return ok(out);
+}
+
+// One cadet's progress per rule in a single RPC (asp_cadet_range_totals). Undated rules use
+// the cadet's row of the all-time board, overrides not applied.
+async function cadetRuleProgress(incentives: IncentiveConfig, cadetId: string): Promise<FlowResult<Record<string, RuleProgress>>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const progress: Record<string, RuleProgress> = {};
+  if (!incentives.rules.length) return ok(progress);
+  const res = await supabase.rpc('asp_cadet_range_totals', {
+    p_cadet: cadetId, p_ranges: incentives.rules.map(rule => ({ id: rule.id, ...rangeParams(rule) })),
+  });
+  if (res.error) return fail(500, res.error.message);
+  for (const r of res.data as Array<{id:string; total_min:number; nights:number}>) {
+    if (Number(r.total_min) > 0) progress[r.id] = { minutes: Number(r.total_min), nights: Number(r.nights) };
+  }
+  if (incentives.rules.some(isUndated)) {
+    const board = await supabase.rpc('asp_leaderboard_all_time_v2').eq('cadet_id', cadetId).maybeSingle();
+    if (board.error) return ok(progress); // older databases without v2: the range totals above
+    const allTime = board.data ? Math.floor(Number((board.data as {total_min:number}).total_min)) : 0;
+    for (const rule of incentives.rules.filter(isUndated)) {
+      progress[rule.id] = { minutes: allTime, nights: progress[rule.id]?.nights ?? 0 };
+    }
+  }
+  return ok(progress);
+}
+
+export type RewardState = { incentives: IncentiveConfig; klass: Klass; progress: Record<string, RuleProgress>; balance: RewardBalance };
+
+// Same calculation as the page's balanceFor(): per-rule progress, the override on undated
+// rules, and the perfect-attendance bonus for ended rules.
+export async function cadetRewardState(cadetId: string): Promise<FlowResult<RewardState>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const [cadet, override, redeemed, incentives, schedule] = await Promise.all([
+    supabase.from('cadets').select('klass').eq('id', cadetId).maybeSingle(),
+    supabase.from('leaderboard_overrides').select('minutes_override').eq('cadet_id', cadetId).maybeSingle(),
+    supabase.from('pmi_redemptions').select('units').eq('cadet_id', cadetId),
+    loadIncentives(),
+    loadSchedule(),
+  ]);
+  if (cadet.error) return fail(500, cadet.error.message);
+  if (!cadet.data) return fail(404, "Cadet not found.");
+  if (redeemed.error) return fail(500, redeemed.error.message);
+
+  const rules = await cadetRuleProgress(incentives, cadetId);
+  if (!rules.ok) return rules;
+  const progress = rules.data;
+  const overrideMin = override.data ? Number((override.data as {minutes_override:number}).minutes_override) : undefined;
+  const klass = (cadet.data as {klass:Klass}).klass;
+  const withOv = withOverride(incentives, progress, overrideMin);
+  const earned = earnedRewards(incentives, klass, withOv, scheduledNightsByRule(incentives, schedule, etDateKey(new Date()))).units;
+  const total = ((redeemed.data ?? []) as Array<{units:number}>).reduce((acc, r) => acc + Number(r.units), 0);
+  return ok({ incentives, klass, progress: withOv, balance: rewardBalance(earned, total) });
+}
+
+export async function cadetBalance(cadetId: string): Promise<FlowResult<RewardBalance>> {
+  const state = await cadetRewardState(cadetId);
+  return state.ok ? ok(state.data.balance) : state;
+}
+
+// The balance check, the insert and its audit row run in one transaction (asp_record_redemption)
+// holding a lock on the cadet, so concurrent redemptions cannot both spend the same units.
+export async function recordRedemption(input: NewRedemption, actor: string): Promise<FlowResult<{ redemption: Redemption; balance: RewardBalance }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const balance = await cadetBalance(input.cadetId);
+  if (!balance.ok) return balance;
+  const { earned } = balance.data;
+
+  const { data, error } = await supabase.rpc('asp_record_redemption', {
+    p_cadet: input.cadetId, p_units: input.units, p_redeemed_on: input.redeemed_on,
+    p_approver: input.approver ?? actor, p_note: input.note, p_created_by: actor, p_earned: earned,
+  });
+  if (error) return fail(500, error.message);
+  const result = data as { redeemed: number; redemption: Redemption | null };
+  if (!result.redemption) {
+    const current = rewardBalance(earned, Number(result.redeemed));
+    return fail(409, `Only ${Math.max(0, current.available)} available (earned ${current.earned}, redeemed ${current.redeemed}).`, { balance: current });
+  }
+  const redemption = result.redemption;
+  return ok({ redemption, balance: rewardBalance(earned, Number(result.redeemed) + input.units) });
+}
+
+// Corrects a mistaken entry; the audit log keeps what was deleted.
+export async function deleteRedemption(id: string, actor: string): Promise<FlowResult<{ deleted: string }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.rpc('asp_delete_redemption', { p_id: id, p_actor: actor });
+  if (error) return fail(500, error.message);
+  if (!data) return fail(404, "Redemption not found.");
+  return ok({ deleted: id });
+}
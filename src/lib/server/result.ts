@@ -0,0 +1,18 @@
+// src/lib/server/result.ts
+// Result type shared by server flows; route handlers map `status` onto the HTTP response.
+import { NextResponse } from "next/server";
+
+// `details` is merged into the error body, e.g. per-row results for a rejected batch.
+export type FlowResult<T> = { ok: true; data: T } | { ok: false; status: number; error: string; details?: Record<string, unknown> };
+
+export function ok<T>(data: T): FlowResult<T> { return { ok: true, data }; }
+export function fail<T>(status: number, error: string, details?: Record<string, unknown>): FlowResult<T> {
+  return details ? { ok: false, status, error, details } : { ok: false, status, error };
+}
+
+export const noSupabase = () => fail<never>(503, "Supabase is not configured on the server.");
+
+export function toResponse<T>(result: FlowResult<T>, wrap: (data: T) => unknown = (d) => d) {
+  if (!result.ok) return NextResponse.json({ ...result.details, error: result.error }, { status: result.status });
+  return NextResponse.json(wrap(result.data));
+}
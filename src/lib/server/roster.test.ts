@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseRosterRecords } from "@/lib/server/roster";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("parseRosterRecords", () => {
+  it("reads class years and class names", () => {
+    const { rows, errors } = parseRosterRecords([
+      { name: " alice  able ", class_year: "2027", company: "CS-01", cadet_number: "C1" },
+      { name: "Bob Baker", klass: "3c", company: "CS-02", cadet_number: "C2" },
+    ], NOW);
+    expect(errors).toEqual([]);
+    expect(rows.map(r => [r.klass, r.cadet_number])).toEqual([["1C", "C1"], ["3C", "C2"]]);
+  });
+
+  it("rejects a cadet number used twice", () => {
+    const { rows, errors } = parseRosterRecords([
+      { name: "Alice Able", klass: "2C", company: "CS-01", cadet_number: "C1" },
+      { name: "Alice Abel", klass: "2C", company: "CS-01", cadet_number: " C1 " },
+    ], NOW);
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual(["Line 3: cadet number C1 is already on line 2."]);
+  });
+
+  it("reports missing fields by line", () => {
+    const { errors } = parseRosterRecords([{ name: "Alice Able", klass: "2C", company: "", cadet_number: "C1" }], NOW);
+    expect(errors).toEqual(["Line 2: name, company and cadet number are required."]);
+  });
+});
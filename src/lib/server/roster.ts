@@ -0,0 +1,150 @@
+// src/lib/server/roster.ts
+// Official cadet roster: admin CSV import, public name search for the sign-in picker,
+// and a queue of unknown names waiting for admin approval.
+import { isKlass, klassForClassYear, normalizeName, type Cadet, type CadetBrief, type Klass } from "@/lib/asp";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+
+export type RosterRow = { name: string; klass: Klass; class_year: number | null; company: string; cadet_number: string };
+export type RosterRequest = {
+  id: string;
+  name: string;
+  klass: Klass;
+  company: string;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+  cadet_id?: string | null;
+};
+
+const CADET_COLS = 'id,name,klass,company,cadet_number,class_year,roster_active';
+
+// The roster is "on" once at least one cadet has been imported; until then sign-in
+// falls back to free-typed names.
+export async function rosterEnabled(): Promise<boolean> {
+  const supabase = getServerSupabase();
+  if (!supabase) return false;
+  const { count, error } = await supabase.from('cadets').select('id', { count: 'exact', head: true }).eq('roster_active', true);
+  return !error && (count ?? 0) > 0;
+}
+
+export async function searchRoster(q: string, company?: string, limit = 20): Promise<FlowResult<CadetBrief[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const term = normalizeName(q).replace(/[%_]/g, '');
+  if (term.length < 2) return ok([]);
+  let query = supabase
+    .from('cadets').select('id,name,klass,company')
+    .eq('roster_active', true).ilike('name', `%${term}%`);
+  if (company) query = query.eq('company', company);
+  const { data, error } = await query.order('name').limit(limit);
+  if (error) return fail(500, error.message);
+  return ok((data ?? []) as CadetBrief[]);
+}
+
+export async function findRosterCadet(id: string): Promise<Cadet | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase.from('cadets').select(CADET_COLS).eq('id', id).eq('roster_active', true).maybeSingle();
+  return (data as Cadet | null) ?? null;
+}
+
+// ID card scan at the door tablet.
+export async function findRosterCadetByNumber(cadetNumber: string): Promise<Cadet | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase.from('cadets').select(CADET_COLS).eq('cadet_number', cadetNumber.trim()).eq('roster_active', true).maybeSingle();
+  return (data as Cadet | null) ?? null;
+}
+
+// ---------- Import ----------
+// Accepts `class_year` (e.g. 2027) or `klass`/`class` (1C–4C); returns row-level errors.
+// A cadet number may appear only once: each row becomes one cadet.
+export function parseRosterRecords(records: Array<Record<string, string>>, now = new Date()) {
+  const rows: RosterRow[] = [];
+  const errors: string[] = [];
+  const lineByNumber = new Map<string, number>();
+  records.forEach((r, i) => {
+    const line = i + 2; // header is line 1
+    const name = normalizeName(r.name ?? '');
+    const company = (r.company ?? '').trim();
+    const cadetNumber = (r.cadet_number ?? r.cadet_no ?? '').trim();
+    const classYear = r.class_year ? Number(r.class_year) : null;
+    const klassRaw = (r.klass ?? r.class ?? '').toUpperCase();
+    const klass = isKlass(klassRaw) ? klassRaw : classYear ? klassForClassYear(classYear, now) : null;
+    if (!name || !company || !cadetNumber) { errors.push(`Line ${line}: name, company and cadet number are required.`); return; }
+    if (!klass) { errors.push(`Line ${line}: class year "${r.class_year ?? r.klass ?? ''}" is not a current class.`); return; }
+    const seen = lineByNumber.get(cadetNumber);
+    if (seen) { errors.push(`Line ${line}: cadet number ${cadetNumber} is already on line ${seen}.`); return; }
+    lineByNumber.set(cadetNumber, line);
+    rows.push({ name, klass, class_year: classYear, company, cadet_number: cadetNumber });
+  });
+  return { rows, errors };
+}
+
+export async function importRoster(rows: RosterRow[], actor: string): Promise<FlowResult<{ created: number; updated: number }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data: existing, error } = await selectAll<Cadet>((from, to) =>
+    supabase.from('cadets').select(CADET_COLS).order('id').range(from, to));
+  if (error) return fail(500, error.message);
+
+  // Match by cadet number first, then by name/class/company so past sessions stay attached.
+  const byNumber = new Map(existing.filter(c => c.cadet_number).map(c => [c.cadet_number!, c]));
+  const key = (name: string, klass: string, company: string) => `${name.toLowerCase()}|${klass}|${company.toLowerCase()}`;
+  const byName = new Map(existing.map(c => [key(normalizeName(c.name), c.klass, c.company), c]));
+
+  let created = 0, updated = 0;
+  const upserts = rows.map(r => {
+    const match = byNumber.get(r.cadet_number) ?? byName.get(key(r.name, r.klass, r.company));
+    if (match) updated++; else created++;
+    return {
+      id: match?.id ?? crypto.randomUUID(),
+      name: r.name, klass: r.klass, company: r.company,
+      cadet_number: r.cadet_number, class_year: r.class_year, roster_active: true,
+    };
+  });
+  // The upsert and the roster.import audit row commit together.
+  const { error: upErr } = await supabase.rpc('asp_import_roster', { p_cadets: upserts, p_created: created, p_updated: updated, p_actor: actor });
+  if (upErr) return fail(500, upErr.message);
+  return ok({ created, updated });
+}
+
+// ---------- Approval queue ----------
+export async function queueRosterRequest(input: { name: string; klass: Klass; company: string }): Promise<FlowResult<{ request_id: string }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const pending = await supabase
+    .from('roster_requests').select('id')
+    .ilike('name', input.name).eq('klass', input.klass).eq('company', input.company).eq('status', 'pending')
+    .limit(1);
+  if (!pending.error && pending.data?.length) return ok({ request_id: (pending.data[0] as {id:string}).id });
+
+  const { data, error } = await supabase
+    .from('roster_requests')
+    .insert({ id: crypto.randomUUID(), name: input.name, klass: input.klass, company: input.company, status: 'pending' })
+    .select('id').single();
+  if (error || !data) return fail(500, error?.message ?? 'Could not queue request.');
+  return ok({ request_id: (data as {id:string}).id });
+}
+
+export async function listRosterRequests(): Promise<FlowResult<RosterRequest[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase
+    .from('roster_requests').select('id,name,klass,company,status,created_at,cadet_id')
+    .eq('status', 'pending').order('created_at');
+  if (error) return fail(500, error.message);
+  return ok((data ?? []) as RosterRequest[]);
+}
+
+export async function resolveRosterRequest(id: string, action: 'approve' | 'reject', admin: string): Promise<FlowResult<{ cadet_id: string | null }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  // Approving reuses an existing (pre-roster) cadet row with the same name so history is kept;
+  // the cadet, the request and the audit row are written in one transaction.
+  const { data, error } = await supabase.rpc('asp_resolve_roster_request', { p_id: id, p_approve: action === 'approve', p_actor: admin });
+  if (error) return fail(500, error.message);
+  const res = data as { resolved: boolean; cadet_id: string | null };
+  if (!res.resolved) return fail(404, "Request not found or already resolved.");
+  return ok({ cadet_id: res.cadet_id });
+}
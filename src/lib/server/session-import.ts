@@ -0,0 +1,202 @@
+// src/lib/server/session-import.ts
+// CSV import of paper sign-in sheets and past semesters. The preview matches names to
+// `cadets` and runs the session validation rules; commit re-runs the preview and inserts
+// the accepted rows as sessions tagged with an `import_batches` row.
+import { etInstant, isKlass, normalizeName, type CadetBrief } from "@/lib/asp";
+import { siblingSessions } from "@/lib/server/admin";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+import { validateSessions, type SessionCandidate, type SessionIssue } from "@/lib/session-validation";
+
+export const IMPORT_MAX_ROWS = 2000;
+
+// ok: importable; warning: importable once the admin accepts it; the rest are never imported.
+export type ImportRowStatus = 'ok' | 'warning' | 'error' | 'invalid' | 'unmatched' | 'ambiguous' | 'duplicate';
+
+export type ImportRow = {
+  line: number;                 // CSV line (header is line 1)
+  name: string;
+  klass: string;
+  company: string;
+  date: string;                 // YYYY-MM-DD (ET)
+  sign_in: string | null;       // ISO
+  sign_out: string | null;
+  cadet: CadetBrief | null;
+  status: ImportRowStatus;
+  message?: string;             // for invalid / unmatched / ambiguous / duplicate
+  issues: SessionIssue[];
+};
+
+export type ImportBatch = { id: string; created_at: string; created_by: string; filename: string | null; row_count: number; voided: number };
+
+type ParsedRow = { line: number; name: string; klass: string; company: string; date: string; sign_in: string | null; sign_out: string | null; error?: string };
+
+// ---------- Parsing ----------
+// 2026-03-02, 3/2/2026 or 3/2/26 → "2026-03-02"
+export function parseSheetDate(raw: string): string | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(raw);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(raw);
+  const [y, m, d] = iso ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us ? [Number(us[3].length === 2 ? `20${us[3]}` : us[3]), Number(us[1]), Number(us[2])]
+    : [NaN, NaN, NaN];
+  if (!y || m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const key = `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+  const check = new Date(`${key}T12:00:00Z`);
+  return check.getUTCDate() === d ? key : null; // rejects Feb 30 etc.
+}
+
+// 19:30, 1930, 7:30 PM, 7:30pm, 7pm → minutes after midnight
+export function parseSheetTime(raw: string): number | null {
+  const m = /^(\d{1,2}):?(\d{2})?\s*([ap])?\.?m?\.?$/i.exec(raw.trim());
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = m[2] ? Number(m[2]) : 0;
+  if (m[3]) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (m[3].toLowerCase() === 'p' ? 12 : 0);
+  } else if (!m[2]) {
+    return null; // a bare "7" is too ambiguous
+  }
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+// Columns: name, class_year (or class / klass), company, date, sign_in, sign_out (times are ET).
+export function parseImportRecords(records: Array<Record<string, string>>): ParsedRow[] {
+  return records.map((r, i) => {
+    const line = i + 2;
+    const name = normalizeName(r.name ?? '');
+    const klass = (r.class_year ?? r.class ?? r.klass ?? '').toUpperCase();
+    const company = (r.company ?? '').trim();
+    const date = parseSheetDate((r.date ?? '').trim());
+    const inMin = parseSheetTime(r.sign_in ?? r.in ?? '');
+    const outMin = parseSheetTime(r.sign_out ?? r.out ?? '');
+    const base = { line, name, klass, company, date: date ?? (r.date ?? '').trim(), sign_in: null, sign_out: null };
+    if (!name) return { ...base, error: "Name is required." };
+    if (!isKlass(klass)) return { ...base, error: `Class "${klass}" must be 1C–4C.` };
+    if (!company) return { ...base, error: "Company is required." };
+    if (!date) return { ...base, error: `Date "${r.date ?? ''}" is not a valid date.` };
+    if (inMin === null) return { ...base, error: `Sign-in "${r.sign_in ?? ''}" is not a valid time.` };
+    if (outMin === null) return { ...base, error: `Sign-out "${r.sign_out ?? ''}" is not a valid time.` };
+    return { ...base, sign_in: etInstant(date, inMin).toISOString(), sign_out: etInstant(date, outMin).toISOString() };
+  });
+}
+
+// ---------- Preview ----------
+const cadetKey = (name: string, klass: string, company: string) => `${normalizeName(name).toLowerCase()}|${klass}|${company.toLowerCase()}`;
+
+export async function previewImport(rows: ParsedRow[], now = new Date()): Promise<FlowResult<ImportRow[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data: cadets, error } = await selectAll<CadetBrief>((from, to) =>
+    supabase.from('cadets').select('id,name,klass,company').order('id').range(from, to));
+  if (error) return fail(500, error.message);
+
+  // Exact name/class/company first; a name alone only counts when it is unique, and then needs
+  // the admin's attention because the sheet's class or company disagrees with the roster.
+  const byKey = new Map(cadets.map(c => [cadetKey(c.name, c.klass, c.company), c]));
+  const byName = new Map<string, CadetBrief[]>();
+  for (const c of cadets) {
+    const k = normalizeName(c.name).toLowerCase();
+    byName.set(k, [...(byName.get(k) ?? []), c]);
+  }
+
+  const out: ImportRow[] = rows.map(r => {
+    const row: ImportRow = { ...r, cadet: null, status: 'invalid', issues: [] };
+    if (r.error) return { ...row, message: r.error };
+    const exact = byKey.get(cadetKey(r.name, r.klass, r.company));
+    const sameName = byName.get(r.name.toLowerCase()) ?? [];
+    if (exact) return { ...row, cadet: exact, status: 'ok' };
+    if (sameName.length === 1) {
+      const c = sameName[0];
+      return { ...row, cadet: c, status: 'warning', message: `Matched by name to ${c.name} (${c.klass} • ${c.company}); the sheet says ${r.klass} • ${r.company}.` };
+    }
+    if (sameName.length > 1) return { ...row, status: 'ambiguous', message: `${sameName.length} cadets are named ${r.name}; fix the class or company.` };
+    return { ...row, status: 'unmatched', message: "No cadet with this name. Add them to the roster first." };
+  });
+
+  const matched = out.filter(r => r.cadet);
+  const siblings = await siblingSessions([...new Set(matched.map(r => r.cadet!.id))]);
+  if (!siblings.ok) return siblings;
+  const schedule = await loadSchedule();
+  const same = (a: string | null, b: string | null) => a !== null && b !== null && new Date(a).getTime() === new Date(b).getTime();
+
+  const byCadet = new Map<string, ImportRow[]>();
+  for (const r of matched) byCadet.set(r.cadet!.id, [...(byCadet.get(r.cadet!.id) ?? []), r]);
+  for (const [cadetId, list] of byCadet) {
+    const existing = siblings.data.filter(s => s.cadet_id === cadetId);
+    const fresh: ImportRow[] = [];
+    for (const r of list) {
+      // Re-importing the same sheet: skip rows already in the database (or repeated in the file).
+      if (existing.some(s => same(s.sign_in, r.sign_in) && same(s.sign_out, r.sign_out))) {
+        Object.assign(r, { status: 'duplicate', message: "Already recorded." });
+      } else if (fresh.some(f => same(f.sign_in, r.sign_in) && same(f.sign_out, r.sign_out))) {
+        Object.assign(r, { status: 'duplicate', message: "Repeated in this file." });
+      } else {
+        fresh.push(r);
+      }
+    }
+    const candidates: SessionCandidate[] = fresh.map(r => ({ id: `line-${r.line}`, sign_in: r.sign_in!, sign_out: r.sign_out }));
+    const issues = validateSessions(schedule, [...existing, ...candidates], { now, only: new Set(candidates.map(c => c.id)) });
+    for (const r of fresh) {
+      r.issues = issues.filter(i => i.session_id === `line-${r.line}`);
+      r.status = r.issues.some(i => i.severity === 'error') ? 'error' : r.issues.length || r.status === 'warning' ? 'warning' : 'ok';
+    }
+  }
+  return ok(out);
+}
+
+// ---------- Commit ----------
+// `lines` are the rows the admin accepted in the preview; only ok/warning rows are inserted.
+export async function commitImport(rows: ParsedRow[], lines: number[], filename: string | null, actor: string): Promise<FlowResult<{ batch_id: string; created: number; skipped: number }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  // Only the selected rows are checked together, so an overlap with a row the admin left
+  // out doesn't block the one they kept.
+  const wanted = new Set(lines);
+  const preview = await previewImport(rows.filter(r => wanted.has(r.line)));
+  if (!preview.ok) return preview;
+  const accepted = preview.data;
+  if (!accepted.length) return fail(400, "No rows selected.");
+  const blocked = accepted.filter(r => r.status !== 'ok' && r.status !== 'warning');
+  if (blocked.length) {
+    return fail(409, `Line ${blocked[0].line}: ${blocked[0].message ?? blocked[0].issues[0]?.message ?? 'cannot be imported'}`, { rows: accepted });
+  }
+
+  // The batch, its sessions and the session.import audit row are written in one transaction.
+  const batchId = crypto.randomUUID();
+  const { error } = await supabase.rpc('asp_import_sessions', {
+    p_batch: batchId, p_filename: filename,
+    p_sessions: accepted.map(r => ({ id: crypto.randomUUID(), cadet_id: r.cadet!.id, sign_in: r.sign_in, sign_out: r.sign_out })),
+    p_lines: accepted.map(r => r.line), p_actor: actor,
+  });
+  if (error) return fail(500, error.message);
+  return ok({ batch_id: batchId, created: accepted.length, skipped: rows.length - accepted.length });
+}
+
+// ---------- Batches ----------
+export async function listImportBatches(limit = 20): Promise<FlowResult<ImportBatch[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase
+    .from('import_batches').select('id,created_at,created_by,filename,row_count')
+    .order('created_at', { ascending: false }).limit(limit);
+  if (error) return fail(500, error.message);
+  const batches = (data ?? []) as Array<Omit<ImportBatch, 'voided'>>;
+  if (!batches.length) return ok([]);
+  const { data: voided } = await supabase
+    .from('sessions').select('import_batch').in('import_batch', batches.map(b => b.id)).eq('voided', true);
+  const counts = new Map<string, number>();
+  for (const v of (voided ?? []) as Array<{import_batch:string}>) counts.set(v.import_batch, (counts.get(v.import_batch) ?? 0) + 1);
+  return ok(batches.map(b => ({ ...b, voided: counts.get(b.id) ?? 0 })));
+}
+
+// Undo an import: voids every session in the batch (reversible from the edit panel).
+export async function voidImportBatch(batchId: string, actor: string): Promise<FlowResult<{ voided: number }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase.rpc('asp_void_import_batch', { p_batch: batchId, p_actor: actor });
+  if (error) return fail(500, error.message);
+  return ok({ voided: Number(data) });
+}
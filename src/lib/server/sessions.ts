@@ -0,0 +1,191 @@
+// src/lib/server/sessions.ts
+// Sign-in / sign-out flow, run on the server so the browser never writes `sessions` directly.
+import { etDateKey, etInstant, isKlass, normalizeName, type Cadet, type Klass, type Session } from "@/lib/asp";
+import { autoCloseAt, describeWeekly, isAspOpen, minutesTonightET } from "@/lib/schedule";
+import { companyAllowed } from "@/lib/server/companies";
+import { kioskRequired, verifyKioskCode } from "@/lib/server/kiosk";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { findRosterCadet, queueRosterRequest, rosterEnabled } from "@/lib/server/roster";
+import { loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+// Roster pick (`cadetId`) or a free-typed name (legacy, or queued for approval once a roster exists).
+// `kioskCode` is the room display's current code, required once kiosk codes are on.
+export type SignInInput = ({ cadetId: string } | { name: string; klass: Klass; company: string }) & { kioskCode?: string };
+// `session_token` is added by the sign-in route to a new session, for an offline sign-out later
+// (see sync.ts).
+export type SignInResult =
+  | { status: 'signed_in' | 'resumed'; cadet: Cadet; session: Session; session_token?: string }
+  | { status: 'queued'; request_id: string };
+
+export function parseSignInInput(body: unknown): SignInInput | null {
+  if (!body || typeof body !== 'object') return null;
+  const b = body as Record<string, unknown>;
+  const kioskCode = typeof b.kioskCode === 'string' && b.kioskCode ? b.kioskCode : undefined;
+  if (typeof b.cadetId === 'string' && b.cadetId) return { cadetId: b.cadetId, kioskCode };
+  const name = typeof b.name === 'string' ? normalizeName(b.name) : '';
+  const company = typeof b.company === 'string' ? b.company.trim() : '';
+  if (!name || !company || !isKlass(b.klass)) return null;
+  return { name, klass: b.klass, company, kioskCode };
+}
+
+// `inRoom`: the caller is the door tablet (already in the ASP room), so no room code is needed.
+// `sessionId`: id chosen by the device for an offline sign-in being replayed (see sync.ts).
+export async function signIn(input: SignInInput, now = new Date(), opts: { inRoom?: boolean; sessionId?: string } = {}): Promise<FlowResult<SignInResult>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+
+  // Checked before anything is written, so roster requests can't be queued while ASP is closed.
+  const schedule = await loadSchedule();
+  if (!isAspOpen(schedule, now)) return fail(403, `ASP is closed right now (${describeWeekly(schedule)}).`);
+  // The room check too: free-typed names are upserted or queued below.
+  if (!opts.inRoom && kioskRequired() && !verifyKioskCode(input.kioskCode, now.getTime())) {
+    return fail(403, "Scan the QR code on the ASP room display (or enter its code) to sign in.", { kiosk: true });
+  }
+
+  let c: Cadet;
+  if ('cadetId' in input) {
+    const found = await findRosterCadet(input.cadetId);
+    if (!found) return fail(404, "Pick your name from the roster.");
+    c = found;
+  } else if (!(await companyAllowed(input.company))) {
+    return fail(400, `Unknown company "${input.company}".`);
+  } else if (await rosterEnabled()) {
+    // Unknown names never create cadets directly; an admin approves them first.
+    const queued = await queueRosterRequest(input);
+    if (!queued.ok) return queued;
+    return ok({ status: 'queued', request_id: queued.data.request_id });
+  } else {
+    const resolved = await resolveFreeTextCadet(input);
+    if (!resolved.ok) return resolved;
+    c = resolved.data;
+  }
+
+  return openSessionFor(c, now, opts.sessionId);
+}
+
+// Steps 1–2 of the legacy flow: resolve by name (exact, then case-insensitive) and upsert.
+async function resolveFreeTextCadet(input: { name: string; klass: Klass; company: string }): Promise<FlowResult<Cadet>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const canonicalName = normalizeName(input.name);
+  const c: Cadet = { id: crypto.randomUUID(), name: canonicalName, klass: input.klass, company: input.company };
+
+  // 1) Find existing cadet (exact normalized match first, then case-insensitive)
+  let resolvedId: string | null = null;
+  const exact = await supabase.from('cadets').select('id,name,klass,company').eq('name', canonicalName).eq('klass', c.klass).eq('company', c.company).maybeSingle();
+  if (!exact.error && exact.data) {
+    resolvedId = (exact.data as {id:string}).id;
+  } else {
+    const ci = await supabase.from('cadets').select('id,name,klass,company').ilike('name', canonicalName).eq('klass', c.klass).eq('company', c.company).limit(1);
+    if (!ci.error && Array.isArray(ci.data) && ci.data.length) resolvedId = (ci.data[0] as {id:string}).id;
+  }
+  if (resolvedId) c.id = resolvedId;
+
+  // 2) Upsert (also normalizes stored name to canonical)
+  const { error: cadetErr } = await supabase
+    .from('cadets')
+    .upsert({ id: c.id, name: canonicalName, klass: c.klass, company: c.company }, { onConflict: 'id' });
+  if (cadetErr) return fail(500, `Cadet save failed: ${cadetErr.message}`);
+  return ok(c);
+}
+
+// Steps 3–5: resume an open session, enforce the nightly cap, or insert a new session.
+// Callers must already have checked that ASP is open.
+export async function openSessionFor(c: Cadet, now = new Date(), sessionId: string = crypto.randomUUID()): Promise<FlowResult<SignInResult>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const schedule = await loadSchedule();
+
+  // 3) If there is an already open session → resume (prevents overlap)
+  const open = await supabase
+    .from('sessions').select('id,cadet_id,sign_in,sign_out').eq('cadet_id', c.id).is('sign_out', null).maybeSingle();
+  if (!open.error && open.data) {
+    return ok({ status: 'resumed', cadet: c, session: open.data as Session });
+  }
+
+  // 4) Guard: if they already hit the nightly cap in tonight’s windows, block another sign-in
+  const since = new Date(now.getTime() - 36*60*60*1000).toISOString();
+  const recent = await supabase
+    .from('sessions')
+    .select('id,cadet_id,sign_in,sign_out,voided')
+    .eq('cadet_id', c.id)
+    .eq('voided', false)
+    .gte('sign_in', since)
+    .order('sign_in', { ascending: false });
+  if (recent.error) return fail(500, `Sign-in failed: ${recent.error.message}`);
+  if (minutesTonightET(schedule, recent.data as Session[], now) >= schedule.nightly_cap_min) {
+    return fail(409, `You’ve already logged ${schedule.nightly_cap_min} minutes tonight. See you next time!`);
+  }
+  // Only possible when replaying an offline sign-in: the server already has time after it.
+  if ((recent.data as Session[]).some(s => new Date(s.sign_out ?? s.sign_in).getTime() > now.getTime())) {
+    return fail(409, "A later session is already recorded for you.");
+  }
+
+  // 5) Create new session (timestamp is the server clock, or the bounds-checked time of a
+  //    replayed offline sign-in)
+  const inserted = await supabase
+    .from('sessions')
+    .insert({ id: sessionId, cadet_id: c.id, sign_in: now.toISOString(), sign_out: null })
+    .select('id,cadet_id,sign_in,sign_out')
+    .single();
+  if (inserted.error || !inserted.data) return fail(500, `Sign-in failed: ${inserted.error?.message ?? 'unknown error'}`);
+
+  return ok({ status: 'signed_in', cadet: c, session: inserted.data as Session });
+}
+
+export type SignOutInput = { sessionId: string; cadetId: string };
+
+export function parseSignOutInput(body: unknown): SignOutInput | null {
+  if (!body || typeof body !== 'object') return null;
+  const b = body as Record<string, unknown>;
+  if (typeof b.sessionId !== 'string' || typeof b.cadetId !== 'string' || !b.sessionId || !b.cadetId) return null;
+  return { sessionId: b.sessionId, cadetId: b.cadetId };
+}
+
+export async function signOut(input: SignOutInput, now = new Date()): Promise<FlowResult<Session>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+
+  const { data, error } = await supabase
+    .from('sessions').select('id,cadet_id,sign_in,sign_out').eq('id', input.sessionId).maybeSingle();
+  if (error) return fail(500, `Sign-out failed: ${error.message}`);
+  const session = data as Session | null;
+  if (!session || session.cadet_id !== input.cadetId) return fail(404, "Session not found.");
+  if (session.sign_out) return ok(session); // already closed → idempotent
+
+  // Never record past 2h or the window end, whatever the client was doing.
+  const cap = autoCloseAt(await loadSchedule(), session).getTime();
+  const signOutIso = new Date(Math.min(now.getTime(), cap)).toISOString();
+  const updated = await supabase
+    .from('sessions')
+    .update({ sign_out: signOutIso })
+    .eq('id', session.id)
+    .is('sign_out', null)
+    .select('id,cadet_id,sign_in,sign_out')
+    .maybeSingle();
+  if (updated.error) return fail(500, `Sign-out failed: ${updated.error.message}`);
+  return ok((updated.data as Session | null) ?? { ...session, sign_out: signOutIso });
+}
+
+// Everyone signed in tonight (open, non-voided sessions started today ET), longest-present first.
+export type OpenSession = { session_id: string; cadet_id: string; name: string; klass: Klass; company: string; sign_in: string };
+
+export async function openSessions(now = new Date()): Promise<FlowResult<OpenSession[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase
+    .from('sessions').select('id,cadet_id,sign_in').is('sign_out', null).eq('voided', false)
+    .gte('sign_in', etInstant(etDateKey(now), 0).toISOString()).order('sign_in');
+  if (error) return fail(500, error.message);
+  const open = (data ?? []) as Array<Pick<Session, 'id' | 'cadet_id' | 'sign_in'>>;
+  if (!open.length) return ok([]);
+  const { data: cadets, error: cadetErr } = await supabase
+    .from('cadets').select('id,name,klass,company').in('id', [...new Set(open.map(s => s.cadet_id))]);
+  if (cadetErr) return fail(500, cadetErr.message);
+  const byId = new Map(((cadets ?? []) as Cadet[]).map(c => [c.id, c]));
+  return ok(open.filter(s => byId.has(s.cadet_id)).map(s => {
+    const c = byId.get(s.cadet_id)!;
+    return { session_id: s.id, cadet_id: s.cadet_id, name: c.name, klass: c.klass, company: c.company, sign_in: s.sign_in };
+  }));
+}
@@ -0,0 +1,50 @@
+// src/lib/server/settings.ts
+// JSON settings stored in `asp_settings` (one row per key), with code defaults as fallback.
+import { DEFAULT_INCENTIVES, parseIncentives, type IncentiveConfig } from "@/lib/incentives";
+import { DEFAULT_SCHEDULE, parseSchedule, type AspSchedule } from "@/lib/schedule";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+async function loadSetting(key: string): Promise<unknown | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data, error } = await supabase.from('asp_settings').select('value').eq('key', key).maybeSingle();
+  if (error || !data) return null;
+  return (data as { value: unknown }).value;
+}
+
+// Saves the value and its `<key>.update` audit row (before = the stored value) in one transaction.
+async function saveSetting(key: string, value: unknown, updatedBy: string): Promise<FlowResult<null>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { error } = await supabase
+    .rpc('asp_save_setting', { p_key: key, p_value: value, p_action: `${key}.update`, p_actor: updatedBy });
+  if (error) return fail(500, error.message);
+  return ok(null);
+}
+
+// ---------- Schedule ----------
+export async function loadSchedule(): Promise<AspSchedule> {
+  const parsed = parseSchedule(await loadSetting('schedule'));
+  return typeof parsed === 'string' ? DEFAULT_SCHEDULE : parsed;
+}
+
+export async function saveSchedule(raw: unknown, updatedBy: string): Promise<FlowResult<AspSchedule>> {
+  const parsed = parseSchedule(raw);
+  if (typeof parsed === 'string') return fail(400, parsed);
+  const saved = await saveSetting('schedule', parsed, updatedBy);
+  return saved.ok ? ok(parsed) : saved;
+}
+
+// ---------- Incentives ----------
+export async function loadIncentives(): Promise<IncentiveConfig> {
+  const parsed = parseIncentives(await loadSetting('incentives'));
+  return typeof parsed === 'string' ? DEFAULT_INCENTIVES : parsed;
+}
+
+export async function saveIncentives(raw: unknown, updatedBy: string): Promise<FlowResult<IncentiveConfig>> {
+  const parsed = parseIncentives(raw);
+  if (typeof parsed === 'string') return fail(400, parsed);
+  const saved = await saveSetting('incentives', parsed, updatedBy);
+  return saved.ok ? ok(parsed) : saved;
+}
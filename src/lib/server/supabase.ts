@@ -0,0 +1,17 @@
+// src/lib/server/supabase.ts
+// Server-only Supabase client for route handlers. Prefers the service-role key so
+// writes to `cadets`/`sessions` can be locked down by RLS for the anon key.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let cached: SupabaseClient | null | undefined;
+
+export function getServerSupabase(): SupabaseClient | null {
+  if (cached !== undefined) return cached;
+  const url = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  cached = url && key ? createClient(url, key, { auth: { persistSession: false } }) : null;
+  return cached;
+}
+
+// Shared with the browser repositories (src/lib/paging.ts).
+export { PAGE, selectAll } from "@/lib/paging";
@@ -0,0 +1,39 @@
+// src/lib/server/sweeper.ts
+// Closes abandoned sessions at min(sign_in + nightly cap, window end). Safe to run repeatedly:
+// each update only matches rows that are still open.
+import { type Session } from "@/lib/asp";
+import { autoCloseAt } from "@/lib/schedule";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { loadSchedule } from "@/lib/server/settings";
+import { getServerSupabase, selectAll } from "@/lib/server/supabase";
+
+export type SweepResult = { checked: number; closed: Array<{ id: string; cadet_id: string; sign_out: string }> };
+
+export async function sweepOpenSessions(now = new Date()): Promise<FlowResult<SweepResult>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+
+  // Every open row is read before any is closed, so the pages don't shift under the updates.
+  const { data: open, error } = await selectAll<Session>((from, to) => supabase
+    .from('sessions').select('id,cadet_id,sign_in,sign_out')
+    .is('sign_out', null).eq('voided', false).order('id').range(from, to));
+  if (error) return fail(500, error.message);
+
+  const schedule = await loadSchedule();
+  const closed: SweepResult['closed'] = [];
+  for (const s of open) {
+    const closeAt = autoCloseAt(schedule, s);
+    if (closeAt.getTime() > now.getTime()) continue;
+    const signOut = closeAt.toISOString();
+    const updated = await supabase
+      .from('sessions')
+      .update({ sign_out: signOut, auto_closed: true })
+      .eq('id', s.id)
+      .is('sign_out', null)
+      .eq('voided', false)
+      .select('id');
+    if (updated.error) return fail(500, updated.error.message);
+    if ((updated.data ?? []).length) closed.push({ id: s.id, cadet_id: s.cadet_id, sign_out: signOut });
+  }
+  return ok({ checked: open.length, closed });
+}
@@ -0,0 +1,272 @@
+// src/lib/server/sync.ts
+// Replays sign-ins and sign-outs a device recorded while offline, at the time they happened.
+// Server state wins conflicts: an already-open session is resumed, an already-closed one is
+// kept unless the auto sign-out closed it later than the cadet actually left.
+//
+// Events are bound to tokens the server signed while the device was online: a sign-in carries
+// the device's sync token (so it cannot be dated before the device last reached the server),
+// and a sign-out carries the session token handed out when that session was opened, so only
+// the device that opened a session can backdate its sign-out. Sign-ins that arrive more than
+// OFFLINE_APPROVAL_AFTER_MS after they happened wait for an admin in `offline_sign_ins`.
+import type { Cadet, Klass, Session } from "@/lib/asp";
+import { createSignedToken, readSignedToken } from "@/lib/server/admin-auth";
+import { fail, noSupabase, ok, type FlowResult } from "@/lib/server/result";
+import { findRosterCadet } from "@/lib/server/roster";
+import { parseSignInInput, signIn, signOut, type SignInInput } from "@/lib/server/sessions";
+import { getServerSupabase } from "@/lib/server/supabase";
+
+export const SYNC_MAX_EVENTS = 50;
+const SYNC_MAX_AGE_MS = 48 * 60 * 60 * 1000; // older offline events are dropped
+const SYNC_TOKEN_TTL_MS = SYNC_MAX_AGE_MS;   // device sync tokens and session tokens
+export const OFFLINE_APPROVAL_AFTER_MS = 5 * 60 * 1000;
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// session_id is chosen by the device at sign-in; only that device knows it. `token`: the
+// device sync token (sign-in) or the session token (sign-out), see above.
+export type SyncEvent =
+  | { kind: 'sign_in'; at: string; session_id: string; input: SignInInput; token?: string }
+  | { kind: 'sign_out'; at: string; session_id: string; token?: string };
+
+// applied: recorded as sent; merged: the server already had it (session is the server's row);
+// pending: held for an admin to approve; rejected: dropped, with the reason in `error`.
+// `session_token` comes with sign-ins that opened a session on this device, for its later
+// sign-out; a sign-in merged into another device's session gets none.
+export type SyncResult = {
+  kind: SyncEvent['kind'];
+  session_id: string;
+  status: 'applied' | 'merged' | 'pending' | 'rejected';
+  error?: string;
+  session?: Session;
+  cadet?: Cadet;
+  session_token?: string;
+};
+
+// ---------- Tokens ----------
+type DeviceSyncToken = { sync: 'device'; iat: number; exp: number }; // epoch ms
+type SessionSyncToken = { sync: 'session'; session: string; cadet: string; exp: number };
+
+// Handed to the page whenever it is online; queued sign-ins carry the one held at the time.
+export function issueSyncToken(now = Date.now()) {
+  const token: DeviceSyncToken = { sync: 'device', iat: now, exp: now + SYNC_TOKEN_TTL_MS };
+  return { token: createSignedToken(token), expires_at: new Date(token.exp).toISOString() };
+}
+
+// For a session this device opened.
+export function issueSessionToken(session: Pick<Session, 'id' | 'cadet_id'>, now = Date.now()) {
+  const token: SessionSyncToken = { sync: 'session', session: session.id, cadet: session.cadet_id, exp: now + SYNC_TOKEN_TTL_MS };
+  return createSignedToken(token);
+}
+
+function validSyncToken(token: string | undefined, at: Date) {
+  const t = readSignedToken(token) as DeviceSyncToken | null;
+  if (t?.sync !== 'device' || typeof t.iat !== 'number' || typeof t.exp !== 'number') return false;
+  return t.iat - CLOCK_SKEW_MS <= at.getTime() && at.getTime() < t.exp;
+}
+
+function readSessionToken(token: string | undefined, sessionId: string, at: Date): SessionSyncToken | null {
+  const t = readSignedToken(token) as SessionSyncToken | null;
+  if (t?.sync !== 'session' || t.session !== sessionId || typeof t.cadet !== 'string' || typeof t.exp !== 'number') return null;
+  return at.getTime() < t.exp ? t : null;
+}
+
+export function parseSyncEvents(body: unknown): SyncEvent[] | string {
+  const raw = (body as { events?: unknown } | null)?.events;
+  if (!Array.isArray(raw) || !raw.length) return "No events to sync.";
+  if (raw.length > SYNC_MAX_EVENTS) return `At most ${SYNC_MAX_EVENTS} events per sync.`;
+  const events: SyncEvent[] = [];
+  for (const [i, e] of raw.entries()) {
+    const x = (e ?? {}) as Record<string, unknown>;
+    if (typeof x.at !== 'string' || Number.isNaN(Date.parse(x.at))) return `Event ${i + 1}: invalid time.`;
+    if (typeof x.session_id !== 'string' || !UUID.test(x.session_id)) return `Event ${i + 1}: invalid session id.`;
+    const token = typeof x.token === 'string' && x.token ? x.token : undefined;
+    if (x.kind === 'sign_in') {
+      const input = parseSignInInput(x.input);
+      if (!input) return `Event ${i + 1}: invalid sign-in.`;
+      events.push({ kind: 'sign_in', at: x.at, session_id: x.session_id, input, token });
+    } else if (x.kind === 'sign_out') {
+      events.push({ kind: 'sign_out', at: x.at, session_id: x.session_id, token });
+    } else {
+      return `Event ${i + 1}: unknown kind.`;
+    }
+  }
+  return events;
+}
+
+// Events are applied in order; a sign-in merged into an existing session carries its id over
+// to later sign-outs in the same batch.
+export async function syncEvents(events: SyncEvent[], now = new Date()): Promise<FlowResult<SyncResult[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const remap = new Map<string, string>(); // device session id -> server session id
+  const opened = new Set<string>();        // device session ids signed in earlier in this batch
+  const results: SyncResult[] = [];
+
+  for (const e of events) {
+    const base = { kind: e.kind, session_id: e.session_id };
+    const at = new Date(e.at);
+    if (at.getTime() > now.getTime() + CLOCK_SKEW_MS) { results.push({ ...base, status: 'rejected', error: "Event time is in the future." }); continue; }
+    if (at.getTime() < now.getTime() - SYNC_MAX_AGE_MS) { results.push({ ...base, status: 'rejected', error: "Too old to sync; ask an admin to add it." }); continue; }
+    const when = at.getTime() > now.getTime() ? now : at;
+
+    const held = await supabase.from('offline_sign_ins').select(HELD_COLUMNS).eq('id', e.session_id).maybeSingle();
+    if (held.error) return fail(500, held.error.message);
+    const hold = held.data as OfflineSignIn | null;
+
+    if (e.kind === 'sign_in') {
+      if (!validSyncToken(e.token, when)) {
+        results.push({ ...base, status: 'rejected', error: "This device had not reached the server before signing in offline. Sign in again while online." });
+        continue;
+      }
+      opened.add(e.session_id);
+      // An approval still being applied has no session yet.
+      if (hold?.status === 'pending' || (hold?.status === 'approved' && !hold.session_id)) { results.push({ ...base, status: 'pending' }); continue; }
+      if (hold?.status === 'rejected') { results.push({ ...base, status: 'rejected', error: "An admin rejected this sign-in." }); continue; }
+      if (hold) {
+        // Approved since the device last synced: report the session the admin applied it to.
+        const approved = await supabase
+          .from('sessions').select('id,cadet_id,sign_in,sign_out,voided,auto_closed').eq('id', hold.session_id).maybeSingle();
+        if (approved.error) return fail(500, approved.error.message);
+        const row = approved.data as Session | null;
+        if (!row || row.voided) { results.push({ ...base, status: 'rejected', error: "Session not found." }); continue; }
+        if (row.id !== e.session_id) remap.set(e.session_id, row.id);
+        const who = await supabase.from('cadets').select('id,name,klass,company').eq('id', row.cadet_id).maybeSingle();
+        results.push({
+          ...base, status: 'merged', session: row, cadet: (who.data ?? undefined) as Cadet | undefined,
+          session_token: row.id === e.session_id ? issueSessionToken(row, now.getTime()) : undefined,
+        });
+        continue;
+      }
+      const existing = await supabase
+        .from('sessions').select('id,cadet_id,sign_in,sign_out,voided,auto_closed').eq('id', e.session_id).maybeSingle();
+      if (existing.error) return fail(500, existing.error.message);
+      const row = existing.data as Session | null;
+      if (row) { results.push({ ...base, status: 'merged', session: row, session_token: issueSessionToken(row, now.getTime()) }); continue; } // replayed twice
+
+      if (now.getTime() - when.getTime() > OFFLINE_APPROVAL_AFTER_MS) {
+        const queued = await holdSignIn(e.session_id, e.input, when);
+        if (!queued.ok) { results.push({ ...base, status: 'rejected', error: queued.error }); continue; }
+        results.push({ ...base, status: 'pending' });
+        continue;
+      }
+      const res = await signIn(e.input, when, { sessionId: e.session_id });
+      if (!res.ok) { results.push({ ...base, status: 'rejected', error: res.error }); continue; }
+      if (res.data.status === 'queued') { results.push({ ...base, status: 'rejected', error: "Not on the roster yet." }); continue; }
+      const merged = res.data.session.id !== e.session_id;
+      if (merged) remap.set(e.session_id, res.data.session.id);
+      results.push({
+        ...base, status: merged ? 'merged' : 'applied', session: res.data.session, cadet: res.data.cadet,
+        session_token: merged ? undefined : issueSessionToken(res.data.session, now.getTime()),
+      });
+      continue;
+    }
+
+    // Sign-outs only for sessions this device opened: earlier in this batch, by its session
+    // token, or as a held sign-in (whose id only the device knows).
+    const token = readSessionToken(e.token, e.session_id, when);
+    if (!opened.has(e.session_id) && !token && !hold) {
+      results.push({ ...base, status: 'rejected', error: "This device did not open that session." });
+      continue;
+    }
+    if (hold?.status === 'pending') {
+      const marked = await supabase.from('offline_sign_ins').update({ sign_out_at: when.toISOString() }).eq('id', hold.id).eq('status', 'pending');
+      if (marked.error) return fail(500, marked.error.message);
+      results.push({ ...base, status: 'pending' });
+      continue;
+    }
+    if (hold?.status === 'rejected') { results.push({ ...base, status: 'rejected', error: "An admin rejected this sign-in." }); continue; }
+
+    const target = remap.get(e.session_id) ?? hold?.session_id ?? e.session_id;
+    const existing = await supabase
+      .from('sessions').select('id,cadet_id,sign_in,sign_out,voided,auto_closed').eq('id', target).maybeSingle();
+    if (existing.error) return fail(500, existing.error.message);
+    const row = existing.data as Session | null;
+    if (!row || row.voided || (token && row.cadet_id !== token.cadet)) { results.push({ ...base, status: 'rejected', error: "Session not found." }); continue; }
+    const leftAt = new Date(Math.max(when.getTime(), new Date(row.sign_in).getTime()));
+    if (!row.sign_out) {
+      const res = await signOut({ sessionId: row.id, cadetId: row.cadet_id }, leftAt);
+      results.push(res.ok ? { ...base, status: 'applied', session: res.data } : { ...base, status: 'rejected', error: res.error });
+    } else if (row.auto_closed && leftAt.getTime() < new Date(row.sign_out).getTime()) {
+      // The sweeper closed it at the cap while the device was offline; the cadet left earlier.
+      const updated = await supabase
+        .from('sessions').update({ sign_out: leftAt.toISOString(), auto_closed: false })
+        .eq('id', row.id).select('id,cadet_id,sign_in,sign_out').single();
+      if (updated.error) return fail(500, updated.error.message);
+      results.push({ ...base, status: 'applied', session: updated.data as Session });
+    } else {
+      results.push({ ...base, status: 'merged', session: row });
+    }
+  }
+  return ok(results);
+}
+
+// ---------- Held sign-ins ----------
+export type OfflineSignIn = {
+  id: string;
+  cadet_id: string | null;
+  name: string;
+  klass: Klass;
+  company: string;
+  sign_in_at: string;
+  sign_out_at: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  session_id: string | null;
+  created_at: string;
+};
+
+const HELD_COLUMNS = 'id,cadet_id,name,klass,company,sign_in_at,sign_out_at,status,session_id,created_at';
+
+async function holdSignIn(id: string, input: SignInInput, at: Date): Promise<FlowResult<null>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  let who: { cadet_id: string | null; name: string; klass: Klass; company: string };
+  if ('cadetId' in input) {
+    const c = await findRosterCadet(input.cadetId);
+    if (!c) return fail(404, "Pick your name from the roster.");
+    who = { cadet_id: c.id, name: c.name, klass: c.klass, company: c.company };
+  } else {
+    who = { cadet_id: null, name: input.name, klass: input.klass, company: input.company };
+  }
+  const { error } = await supabase.from('offline_sign_ins').insert({ id, input, ...who, sign_in_at: at.toISOString() });
+  return error ? fail(500, error.message) : ok(null);
+}
+
+// Oldest first.
+export async function listOfflineSignIns(): Promise<FlowResult<OfflineSignIn[]>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const { data, error } = await supabase
+    .from('offline_sign_ins').select(HELD_COLUMNS).eq('status', 'pending').order('created_at');
+  if (error) return fail(500, error.message);
+  return ok((data ?? []) as OfflineSignIn[]);
+}
+
+// Approving applies the sign-in at its recorded time with the usual checks (ASP window, room
+// code, nightly cap), then the sign-out the device sent, if any, when the sign-in opened a
+// new session. The row is claimed first, so only one admin applies it; a sign-in that cannot
+// be applied puts it back to pending.
+export async function resolveOfflineSignIn(id: string, action: 'approve' | 'reject', admin: string): Promise<FlowResult<{ session: Session | null }>> {
+  const supabase = getServerSupabase();
+  if (!supabase) return noSupabase();
+  const claimed = await supabase.rpc('asp_claim_offline_sign_in', { p_id: id, p_approve: action === 'approve', p_actor: admin });
+  if (claimed.error) return fail(500, claimed.error.message);
+  const held = claimed.data as (OfflineSignIn & { input: SignInInput }) | null;
+  if (!held) return fail(404, "Sign-in not found or already resolved.");
+  if (action === 'reject') return ok({ session: null });
+
+  const applied = await applyHeldSignIn(held);
+  const { error } = await supabase.rpc('asp_finish_offline_sign_in', { p_id: id, p_session: applied.ok ? applied.data.id : null, p_actor: admin });
+  if (!applied.ok) return applied;
+  if (error) return fail(500, error.message);
+  return ok({ session: applied.data });
+}
+
+async function applyHeldSignIn(held: OfflineSignIn & { input: SignInInput }): Promise<FlowResult<Session>> {
+  const res = await signIn(held.input, new Date(held.sign_in_at), { sessionId: held.id });
+  if (!res.ok) return fail(res.status, `Could not apply this sign-in: ${res.error}`);
+  if (res.data.status === 'queued') return fail(409, "This name is not on the roster yet; approve the name request first.");
+  const session = res.data.session;
+  // The device's sign-out belongs to its own session, not to one the sign-in resumed.
+  if (!held.sign_out_at || session.id !== held.id || session.sign_out) return ok(session);
+  return signOut({ sessionId: session.id, cadetId: session.cadet_id }, new Date(Math.max(new Date(held.sign_out_at).getTime(), new Date(session.sign_in).getTime())));
+}
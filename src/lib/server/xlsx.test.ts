@@ -0,0 +1,38 @@
+import { inflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { toXlsx } from "@/lib/server/xlsx";
+
+// name -> contents, read back through the zip's central directory.
+function unzip(buf: Buffer) {
+  const end = buf.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buf.readUInt16LE(end + 10);
+  const files = new Map<string, string>();
+  for (let i = 0, at = buf.readUInt32LE(end + 16); i < count; i++) {
+    const size = buf.readUInt32LE(at + 20), nameLen = buf.readUInt16LE(at + 28), local = buf.readUInt32LE(at + 42);
+    const name = buf.subarray(at + 46, at + 46 + nameLen).toString('utf8');
+    const start = local + 30 + buf.readUInt16LE(local + 26);
+    files.set(name, inflateRawSync(buf.subarray(start, start + size)).toString('utf8'));
+    at += 46 + nameLen;
+  }
+  return files;
+}
+
+describe("toXlsx", () => {
+  it("writes one worksheet per sheet with unique, valid names", () => {
+    const files = unzip(toXlsx([
+      { name: "PMI: awards", columns: ["A"], rows: [] },
+      { name: "PMI: awards", columns: ["B"], rows: [] },
+    ]));
+    expect([...files.keys()]).toContain("xl/worksheets/sheet2.xml");
+    expect(files.get("xl/workbook.xml")).toContain('<sheet name="PMI  awards" sheetId="1" r:id="rId1"/><sheet name="PMI  awards 2" sheetId="2" r:id="rId2"/>');
+  });
+
+  it("stores text as inline strings, so formulas are not evaluated and need no apostrophe", () => {
+    const sheet = unzip(toXlsx([{ name: "S", columns: ["Name", "Min", "Void"], rows: [["=1+1 <b>&", 90, true], [null, Number.NaN, false]] }]))
+      .get("xl/worksheets/sheet1.xml")!;
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">=1+1 &lt;b&gt;&amp;</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>90</v></c><c r="C2" t="b"><v>1</v></c>');
+    expect(sheet).toContain('<row r="3"><c r="C3" t="b"><v>0</v></c></row>');
+    expect(sheet).not.toContain("<f>");
+  });
+});
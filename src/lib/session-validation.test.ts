@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCHEDULE } from "@/lib/schedule";
+import { describeIssues, validateSessions, type SessionCandidate } from "@/lib/session-validation";
+
+// Monday 2026-10-19; the default windows are Mon & Wed 19:30–21:30 ET, capped at 2h a night.
+const at = (et: string, day = "2026-10-19") => new Date(`${day}T${et}:00-04:00`).toISOString();
+const NOW = new Date(at("23:00"));
+const session = (id: string, from: string, to: string | null, day?: string): SessionCandidate =>
+  ({ id, sign_in: at(from, day), sign_out: to === null ? null : at(to, day) });
+const check = (sessions: SessionCandidate[], only?: string[]) =>
+  validateSessions(DEFAULT_SCHEDULE, sessions, { now: NOW, only: only && new Set(only) })
+    .map(i => [i.session_id, i.code, i.severity]);
+
+describe("validateSessions", () => {
+  it("accepts a session inside the window", () => {
+    expect(check([session("a", "19:30", "21:00")])).toEqual([]);
+  });
+
+  it("flags a sign-out before the sign-in", () => {
+    expect(check([session("a", "20:00", "19:45")])).toEqual([["a", "inverted", "error"]]);
+    expect(check([session("a", "20:00", "20:00")])).toEqual([["a", "inverted", "error"]]);
+  });
+
+  it("flags invalid and future times", () => {
+    expect(check([{ id: "a", sign_in: "", sign_out: null }])).toEqual([["a", "invalid_time", "error"]]);
+    expect(check([session("a", "19:30", "21:00", "2026-10-21")])).toEqual([["a", "future", "error"]]);
+  });
+
+  it("warns when the sign-in is outside every window", () => {
+    expect(check([session("a", "18:00", "18:30")])).toEqual([["a", "out_of_window", "warning"]]);
+    expect(check([session("a", "19:30", "20:00", "2026-10-18")])).toEqual([["a", "out_of_window", "warning"]]);
+  });
+
+  it("warns when the session runs past the window end", () => {
+    expect(check([session("a", "20:00", "22:00")])).toEqual([["a", "too_long", "warning"]]);
+  });
+
+  it("flags overlapping sessions on both sides", () => {
+    expect(check([session("a", "19:30", "20:15"), session("b", "20:00", "21:00")]))
+      .toEqual([["a", "overlap", "error"], ["b", "overlap", "error"]]);
+  });
+
+  it("treats back-to-back sessions as not overlapping", () => {
+    expect(check([session("a", "19:30", "20:00"), session("b", "20:00", "21:00")])).toEqual([]);
+  });
+
+  it("counts an open session as running until now", () => {
+    expect(check([session("a", "19:30", null), session("b", "20:30", "21:00")], ["b"])).toEqual([["b", "overlap", "error"]]);
+  });
+
+  it("only reports the sessions asked about", () => {
+    expect(check([session("a", "19:30", "20:15"), session("b", "20:00", "21:00")], ["b"])).toEqual([["b", "overlap", "error"]]);
+  });
+
+  it("summarises the first issue", () => {
+    const issues = validateSessions(DEFAULT_SCHEDULE, [session("a", "20:00", "19:45"), session("b", "18:00", "18:30")], { now: NOW });
+    expect(describeIssues(issues)).toBe("Sign-out must be after sign-in. (+1 more)");
+    expect(describeIssues([])).toBe("");
+  });
+});
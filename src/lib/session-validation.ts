@@ -0,0 +1,129 @@
+// src/lib/session-validation.ts
+// Checks a cadet's sessions (with proposed edits applied) for problems. Shared by the admin
+// edit panel, which shows issues inline per row, and the admin session routes, which enforce them.
+import { formatDateTimeET } from "@/lib/asp";
+import { autoCloseAt, windowEndFor, type AspSchedule } from "@/lib/schedule";
+
+export type SessionIssueCode = 'invalid_time' | 'inverted' | 'future' | 'overlap' | 'out_of_window' | 'too_long';
+
+export type SessionIssue = {
+  session_id: string;
+  field: 'sign_in' | 'sign_out';
+  code: SessionIssueCode;
+  // Errors always block a save. Warnings (the schedule may have changed since the session
+  // happened) can be saved once the admin acknowledges them.
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+// sign_in/sign_out are ISO strings; an unparseable string (e.g. '' from an empty input) is
+// reported as invalid_time. sign_out === null is an open session.
+export type SessionCandidate = { id: string; sign_in: string; sign_out: string | null };
+
+type Opts = {
+  now?: Date;
+  only?: ReadonlySet<string>; // report issues for these ids only (others still count for overlaps)
+};
+
+const time = (iso: string | null) => (iso === null ? null : new Date(iso).getTime());
+
+export function validateSessions(schedule: AspSchedule, sessions: SessionCandidate[], opts: Opts = {}): SessionIssue[] {
+  const now = (opts.now ?? new Date()).getTime();
+  const issues: SessionIssue[] = [];
+  const add = (s: SessionCandidate, field: SessionIssue['field'], code: SessionIssueCode, severity: SessionIssue['severity'], message: string) => {
+    if (!opts.only || opts.only.has(s.id)) issues.push({ session_id: s.id, field, code, severity, message });
+  };
+
+  // Valid [start, end) ranges for the overlap pass; open sessions run until now.
+  const ranges: Array<{ s: SessionCandidate; start: number; end: number }> = [];
+
+  for (const s of sessions) {
+    const sin = time(s.sign_in), sout = time(s.sign_out);
+    if (sin === null || Number.isNaN(sin)) { add(s, 'sign_in', 'invalid_time', 'error', "Sign-in time is missing or invalid."); continue; }
+    if (sout !== null && Number.isNaN(sout)) { add(s, 'sign_out', 'invalid_time', 'error', "Sign-out time is invalid."); continue; }
+    if (sin > now) { add(s, 'sign_in', 'future', 'error', "Sign-in is in the future."); continue; }
+    if (sout !== null && sout <= sin) { add(s, 'sign_out', 'inverted', 'error', "Sign-out must be after sign-in."); continue; }
+    if (sout !== null && sout > now) add(s, 'sign_out', 'future', 'error', "Sign-out is in the future.");
+
+    if (!windowEndFor(schedule, new Date(sin))) {
+      add(s, 'sign_in', 'out_of_window', 'warning', `ASP is not scheduled at ${formatDateTimeET(s.sign_in)}.`);
+    } else if (sout !== null) {
+      const latest = autoCloseAt(schedule, { sign_in: s.sign_in });
+      if (sout > latest.getTime()) {
+        add(s, 'sign_out', 'too_long', 'warning', `Runs past ${formatDateTimeET(latest.toISOString())} (nightly cap / end of window).`);
+      }
+    }
+    ranges.push({ s, start: sin, end: sout ?? Math.max(now, sin) });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  for (let i = 0; i < ranges.length; i++) {
+    for (let j = i + 1; j < ranges.length && ranges[j].start < ranges[i].end; j++) {
+      const a = ranges[i].s, b = ranges[j].s;
+      add(a, 'sign_in', 'overlap', 'error', `Overlaps the session starting ${formatDateTimeET(b.sign_in)}.`);
+      add(b, 'sign_in', 'overlap', 'error', `Overlaps the session starting ${formatDateTimeET(a.sign_in)}.`);
+    }
+  }
+  return issues;
+}
+
+// One-line summary for API errors and status messages.
+export function describeIssues(issues: SessionIssue[]) {
+  if (!issues.length) return '';
+  const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+  return `${issues[0].message}${more}`;
+}
+
+// ---------- Edit-panel saves ----------
+export type SessionUpdate = { id: string; sign_in: string; sign_out: string | null };
+export type EditRowStatus = 'updated' | 'unchanged' | 'invalid' | 'not_found' | 'skipped';
+export type EditRowResult = { id: string; status: EditRowStatus; issues?: SessionIssue[] };
+export type Rejection = { status: number; error: string };
+
+// Errors always reject; warnings reject unless the admin acknowledged them.
+export function rejectIssues(issues: SessionIssue[], acknowledged: boolean): Rejection | null {
+  const errors = issues.filter(i => i.severity === 'error');
+  if (errors.length) return { status: 422, error: describeIssues(errors) };
+  if (issues.length && !acknowledged) return { status: 422, error: `Needs acknowledgement: ${describeIssues(issues)}` };
+  return null;
+}
+
+// Checks one cadet's edits against their live (non-voided) sessions. Rows that match the stored
+// times are 'unchanged'; `changed` is what to write. When the save is rejected, every valid
+// changed row is 'skipped'.
+export function checkSessionEdits(
+  schedule: AspSchedule, live: SessionCandidate[], updates: SessionUpdate[], acknowledged: boolean, now?: Date,
+): { results: EditRowResult[]; changed: SessionUpdate[]; rejected: Rejection | null } {
+  const byId = new Map(live.map(s => [s.id, s]));
+  const results = new Map<string, EditRowResult>();
+  const changed: SessionUpdate[] = [];
+  for (const u of updates) {
+    const before = byId.get(u.id);
+    if (!before) results.set(u.id, { id: u.id, status: 'not_found' });
+    else if (sameInstant(before.sign_in, u.sign_in) && sameInstant(before.sign_out, u.sign_out)) results.set(u.id, { id: u.id, status: 'unchanged' });
+    else changed.push(u);
+  }
+
+  const edits = new Map(changed.map(u => [u.id, u]));
+  const issues = validateSessions(schedule, live.map(s => edits.get(s.id) ?? s), { now, only: new Set(edits.keys()) });
+  for (const u of changed) {
+    const own = issues.filter(i => i.session_id === u.id);
+    results.set(u.id, own.length ? { id: u.id, status: 'invalid', issues: own } : { id: u.id, status: 'updated' });
+  }
+
+  const notFound = updates.find(u => results.get(u.id)!.status === 'not_found');
+  const rejected = notFound ? { status: 404, error: `Session ${notFound.id} not found for this cadet.` } : rejectIssues(issues, acknowledged);
+  if (rejected) skipUpdated([...results.values()]);
+  return { results: updates.map(u => results.get(u.id)!), changed, rejected };
+}
+
+// For a save that fails after the check passed.
+export function skipUpdated(results: EditRowResult[]) {
+  for (const r of results) if (r.status === 'updated') r.status = 'skipped';
+  return results;
+}
+
+function sameInstant(a: string | null, b: string | null) {
+  if (a === null || b === null) return a === b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
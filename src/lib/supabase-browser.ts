@@ -0,0 +1,23 @@
+// src/lib/supabase-browser.ts
+// Read-only (anon key) Supabase client for the browser: leaderboard RPCs, reads and Realtime.
+// Null in local demo mode.
+import { createClient } from "@supabase/supabase-js";
+
+declare global {
+  interface Window {
+    env?: {
+      NEXT_PUBLIC_SUPABASE_URL?: string;
+      NEXT_PUBLIC_SUPABASE_ANON_KEY?: string;
+    };
+  }
+}
+const supabaseUrl =
+  typeof window !== "undefined"
+    ? (window as Window).env?.NEXT_PUBLIC_SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL
+    : process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey =
+  typeof window !== "undefined"
+    ? (window as Window).env?.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    : process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+export const hasSupabase = !!(supabaseUrl && supabaseKey);
+export const supabase = hasSupabase ? createClient(supabaseUrl!, supabaseKey!) : null;
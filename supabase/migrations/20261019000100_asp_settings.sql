@@ -0,0 +1,13 @@
+-- Key/value app settings edited from the Admin card (e.g. key = 'schedule').
+-- Written only by the server (service-role key); readable by anyone.
+create table if not exists public.asp_settings (
+  key        text primary key,
+  value      jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by text
+);
+
+alter table public.asp_settings enable row level security;
+
+drop policy if exists "asp_settings read" on public.asp_settings;
+create policy "asp_settings read" on public.asp_settings for select using (true);
@@ -0,0 +1,4 @@
+-- Marks sessions closed by the auto sign-out sweeper (/api/cron/auto-sign-out).
+alter table public.sessions add column if not exists auto_closed boolean not null default false;
+
+create index if not exists sessions_open_idx on public.sessions (sign_in) where sign_out is null;
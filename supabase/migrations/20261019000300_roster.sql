@@ -0,0 +1,20 @@
+-- Official roster fields on cadets, plus the queue of unknown names awaiting approval.
+alter table public.cadets add column if not exists cadet_number text unique;
+alter table public.cadets add column if not exists class_year integer;
+alter table public.cadets add column if not exists roster_active boolean not null default false;
+
+create index if not exists cadets_roster_name_idx on public.cadets (name) where roster_active;
+
+create table if not exists public.roster_requests (
+  id          uuid primary key,
+  name        text not null,
+  klass       text not null,
+  company     text not null,
+  status      text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  cadet_id    uuid references public.cadets (id) on delete set null,
+  created_at  timestamptz not null default now(),
+  resolved_by text,
+  resolved_at timestamptz
+);
+
+alter table public.roster_requests enable row level security; -- server (service role) only
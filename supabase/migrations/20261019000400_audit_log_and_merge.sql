@@ -0,0 +1,70 @@
+-- Append-only log of admin mutations. No FK on cadet_id/session_id: entries must
+-- outlive the rows they describe (e.g. cadets deleted by a merge).
+create table if not exists public.audit_log (
+  id         uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  actor      text not null,
+  action     text not null,
+  cadet_id   uuid,
+  session_id uuid,
+  before     jsonb,
+  after      jsonb,
+  note       text
+);
+
+create index if not exists audit_log_cadet_idx on public.audit_log (cadet_id, created_at desc);
+create index if not exists audit_log_created_idx on public.audit_log (created_at desc);
+
+alter table public.audit_log enable row level security; -- server (service role) only
+
+-- Merge duplicate cadets into one survivor, atomically: move sessions, carry over an
+-- override (survivor's wins), keep roster fields, delete the losers.
+create or replace function public.asp_merge_cadets(p_survivor uuid, p_losers uuid[])
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_moved    integer;
+  v_override integer;
+  v_number   text;
+  v_year     integer;
+  v_roster   boolean;
+begin
+  if p_survivor = any(p_losers) then
+    raise exception 'Survivor cannot also be merged away';
+  end if;
+  perform 1 from cadets where id = p_survivor for update;
+  if not found then
+    raise exception 'Surviving cadet not found';
+  end if;
+
+  update sessions set cadet_id = p_survivor where cadet_id = any(p_losers);
+  get diagnostics v_moved = row_count;
+
+  if not exists (select 1 from leaderboard_overrides where cadet_id = p_survivor) then
+    select max(minutes_override) into v_override from leaderboard_overrides where cadet_id = any(p_losers);
+    if v_override is not null then
+      insert into leaderboard_overrides (cadet_id, minutes_override) values (p_survivor, v_override);
+    end if;
+  end if;
+  delete from leaderboard_overrides where cadet_id = any(p_losers);
+
+  update roster_requests set cadet_id = p_survivor where cadet_id = any(p_losers);
+
+  select cadet_number, class_year into v_number, v_year
+    from cadets where id = any(p_losers) and cadet_number is not null limit 1;
+  select coalesce(bool_or(roster_active), false) into v_roster from cadets where id = any(p_losers);
+  delete from cadets where id = any(p_losers);
+  update cadets set
+    cadet_number  = coalesce(cadet_number, v_number),
+    class_year    = coalesce(class_year, v_year),
+    roster_active = roster_active or v_roster
+  where id = p_survivor;
+
+  return jsonb_build_object('sessions_moved', v_moved, 'override_moved', v_override);
+end;
+$$;
+
+revoke execute on function public.asp_merge_cadets(uuid, uuid[]) from public, anon, authenticated;
@@ -0,0 +1,47 @@
+-- Apply one cadet's edit-panel changes atomically: session time updates plus the
+-- leaderboard override. Any failure rolls back every change.
+create or replace function public.asp_save_cadet_edits(
+  p_cadet        uuid,
+  p_updates      jsonb,    -- [{ "id": uuid, "sign_in": timestamptz, "sign_out": timestamptz | null }]
+  p_set_override boolean,  -- false leaves the override alone
+  p_override     integer   -- null clears it (when p_set_override)
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row     jsonb;
+  v_updated integer := 0;
+begin
+  perform 1 from cadets where id = p_cadet for update;
+  if not found then
+    raise exception 'Cadet not found';
+  end if;
+
+  for v_row in select value from jsonb_array_elements(coalesce(p_updates, '[]'::jsonb)) loop
+    update sessions set
+      sign_in  = (v_row->>'sign_in')::timestamptz,
+      sign_out = (v_row->>'sign_out')::timestamptz
+    where id = (v_row->>'id')::uuid and cadet_id = p_cadet and voided = false;
+    if not found then
+      raise exception 'Session % not found for this cadet', v_row->>'id';
+    end if;
+    v_updated := v_updated + 1;
+  end loop;
+
+  if p_set_override then
+    if p_override is null then
+      delete from leaderboard_overrides where cadet_id = p_cadet;
+    else
+      insert into leaderboard_overrides (cadet_id, minutes_override) values (p_cadet, greatest(p_override, 0))
+      on conflict (cadet_id) do update set minutes_override = excluded.minutes_override;
+    end if;
+  end if;
+
+  return jsonb_build_object('updated', v_updated);
+end;
+$$;
+
+revoke execute on function public.asp_save_cadet_edits(uuid, jsonb, boolean, integer) from public, anon, authenticated;
@@ -0,0 +1,32 @@
+-- Leaderboard for a time range: minutes of non-voided sessions clipped to [p_from, p_to),
+-- each session capped at 2 hours. Null bounds are open-ended. Overrides are all-time totals
+-- and are not applied here.
+create or replace function public.asp_leaderboard_range(p_from timestamptz, p_to timestamptz)
+returns table (cadet_id uuid, name text, klass text, company text, total_min integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with clipped as (
+    select s.cadet_id,
+           greatest(0, extract(epoch from (
+             least(coalesce(s.sign_out, now()), s.sign_in + interval '2 hours', coalesce(p_to, 'infinity'::timestamptz))
+             - greatest(s.sign_in, coalesce(p_from, '-infinity'::timestamptz))
+           )) / 60) as minutes
+    from sessions s
+    where s.voided = false
+      and s.sign_in < coalesce(p_to, 'infinity'::timestamptz)
+      and coalesce(s.sign_out, now()) > coalesce(p_from, '-infinity'::timestamptz)
+  )
+  select c.id, c.name, c.klass::text, c.company, floor(sum(x.minutes))::integer as total_min
+  from clipped x
+  join cadets c on c.id = x.cadet_id
+  group by c.id, c.name, c.klass, c.company
+  having floor(sum(x.minutes)) > 0
+  order by total_min desc;
+$$;
+
+create index if not exists sessions_sign_in_idx on public.sessions (sign_in);
+
+grant execute on function public.asp_leaderboard_range(timestamptz, timestamptz) to anon, authenticated;
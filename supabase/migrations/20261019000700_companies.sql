@@ -0,0 +1,17 @@
+-- Companies sharing this deployment. cadets.company and roster_requests.company hold the code.
+create table if not exists public.companies (
+  code         text primary key,
+  display_name text not null,
+  active       boolean not null default true,
+  created_at   timestamptz not null default now()
+);
+
+insert into public.companies (code, display_name) values ('G1', 'Company G1') on conflict (code) do nothing;
+-- Register every code already in use so existing cadets keep working; deactivate typos in Admin.
+insert into public.companies (code, display_name)
+  select distinct company, 'Company ' || company from public.cadets where company <> ''
+  on conflict (code) do nothing;
+
+create index if not exists cadets_company_idx on public.cadets (company);
+
+alter table public.companies enable row level security; -- read through /api/companies
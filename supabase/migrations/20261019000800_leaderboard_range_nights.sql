@@ -0,0 +1,33 @@
+-- asp_leaderboard_range also reports distinct ET nights attended (for the perfect-attendance
+-- incentive bonus). The return type changes, so the function is recreated.
+drop function if exists public.asp_leaderboard_range(timestamptz, timestamptz);
+
+create function public.asp_leaderboard_range(p_from timestamptz, p_to timestamptz)
+returns table (cadet_id uuid, name text, klass text, company text, total_min integer, nights integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with clipped as (
+    select s.cadet_id,
+           (s.sign_in at time zone 'America/New_York')::date as night,
+           greatest(0, extract(epoch from (
+             least(coalesce(s.sign_out, now()), s.sign_in + interval '2 hours', coalesce(p_to, 'infinity'::timestamptz))
+             - greatest(s.sign_in, coalesce(p_from, '-infinity'::timestamptz))
+           )) / 60) as minutes
+    from sessions s
+    where s.voided = false
+      and s.sign_in < coalesce(p_to, 'infinity'::timestamptz)
+      and coalesce(s.sign_out, now()) > coalesce(p_from, '-infinity'::timestamptz)
+  )
+  select c.id, c.name, c.klass::text, c.company, floor(sum(x.minutes))::integer as total_min,
+         count(distinct x.night)::integer as nights
+  from clipped x
+  join cadets c on c.id = x.cadet_id
+  group by c.id, c.name, c.klass, c.company
+  having floor(sum(x.minutes)) > 0
+  order by total_min desc;
+$$;
+
+grant execute on function public.asp_leaderboard_range(timestamptz, timestamptz) to anon, authenticated;
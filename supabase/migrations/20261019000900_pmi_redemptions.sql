@@ -0,0 +1,68 @@
+-- Ledger of redeemed incentive units (PMI days). Available = earned (computed from the
+-- incentive rules) minus the sum of units here; leaderboard ranking stays on minutes.
+create table if not exists public.pmi_redemptions (
+  id          uuid primary key default gen_random_uuid(),
+  cadet_id    uuid not null references public.cadets(id) on delete cascade,
+  units       integer not null check (units > 0),
+  redeemed_on date not null,
+  approver    text not null,
+  note        text,
+  created_by  text not null,
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists pmi_redemptions_cadet_idx on public.pmi_redemptions (cadet_id, redeemed_on desc);
+
+alter table public.pmi_redemptions enable row level security; -- read through /api/redemptions
+
+-- Same as 20261019000400, plus moving redemptions so a merge keeps the losers' history.
+create or replace function public.asp_merge_cadets(p_survivor uuid, p_losers uuid[])
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_moved    integer;
+  v_override integer;
+  v_number   text;
+  v_year     integer;
+  v_roster   boolean;
+begin
+  if p_survivor = any(p_losers) then
+    raise exception 'Survivor cannot also be merged away';
+  end if;
+  perform 1 from cadets where id = p_survivor for update;
+  if not found then
+    raise exception 'Surviving cadet not found';
+  end if;
+
+  update sessions set cadet_id = p_survivor where cadet_id = any(p_losers);
+  get diagnostics v_moved = row_count;
+
+  if not exists (select 1 from leaderboard_overrides where cadet_id = p_survivor) then
+    select max(minutes_override) into v_override from leaderboard_overrides where cadet_id = any(p_losers);
+    if v_override is not null then
+      insert into leaderboard_overrides (cadet_id, minutes_override) values (p_survivor, v_override);
+    end if;
+  end if;
+  delete from leaderboard_overrides where cadet_id = any(p_losers);
+
+  update roster_requests set cadet_id = p_survivor where cadet_id = any(p_losers);
+  update pmi_redemptions set cadet_id = p_survivor where cadet_id = any(p_losers);
+
+  select cadet_number, class_year into v_number, v_year
+    from cadets where id = any(p_losers) and cadet_number is not null limit 1;
+  select coalesce(bool_or(roster_active), false) into v_roster from cadets where id = any(p_losers);
+  delete from cadets where id = any(p_losers);
+  update cadets set
+    cadet_number  = coalesce(cadet_number, v_number),
+    class_year    = coalesce(class_year, v_year),
+    roster_active = roster_active or v_roster
+  where id = p_survivor;
+
+  return jsonb_build_object('sessions_moved', v_moved, 'override_moved', v_override);
+end;
+$$;
+
+revoke execute on function public.asp_merge_cadets(uuid, uuid[]) from public, anon, authenticated;
@@ -0,0 +1,14 @@
+-- Sessions imported from CSV (paper sign-in sheets, past semesters) are tagged with the
+-- batch they came in, so a bad import can be found and voided as a unit.
+create table if not exists public.import_batches (
+  id          uuid primary key default gen_random_uuid(),
+  created_at  timestamptz not null default now(),
+  created_by  text not null,
+  filename    text,
+  row_count   integer not null default 0
+);
+
+alter table public.import_batches enable row level security; -- server (service role) only
+
+alter table public.sessions add column if not exists import_batch uuid references public.import_batches(id);
+create index if not exists sessions_import_batch_idx on public.sessions (import_batch) where import_batch is not null;
@@ -0,0 +1,11 @@
+-- Stream `sessions` changes over Supabase Realtime for the live "who's in the room" panel
+-- and leaderboard refreshes. Browsers only receive rows their select policy already allows.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'sessions'
+  ) then
+    alter publication supabase_realtime add table public.sessions;
+  end if;
+end $$;
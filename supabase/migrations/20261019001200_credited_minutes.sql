@@ -0,0 +1,98 @@
+-- Credited minutes, shared by every range total: each non-voided session is clipped to the
+-- scheduled ASP windows of the ET night it started on, and each cadet's night is capped at
+-- the nightly limit, as on the all-time board. Mirrors creditedNights() in
+-- src/lib/leaderboard-range.ts.
+
+-- The saved schedule, or DEFAULT_SCHEDULE from src/lib/schedule.ts.
+create or replace function public.asp_schedule()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select value from asp_settings where key = 'schedule'),
+    '{"weekly": [{"weekday": 1, "start_min": 1170, "end_min": 1290}, {"weekday": 3, "start_min": 1170, "end_min": 1290}],
+      "exceptions": [], "nightly_cap_min": 120}'::jsonb
+  );
+$$;
+
+-- Windows on one ET date as instants (windowsOn() in src/lib/schedule.ts): the weekly windows
+-- for that weekday plus `added` exceptions, none on a `cancelled` date.
+create or replace function public.asp_windows_on(p_schedule jsonb, p_night date)
+returns table (starts_at timestamptz, ends_at timestamptz)
+language sql
+immutable
+as $$
+  with mins as (
+    select (w->>'start_min')::int as start_min, (w->>'end_min')::int as end_min
+    from jsonb_array_elements(coalesce(p_schedule->'weekly', '[]'::jsonb)) w
+    where (w->>'weekday')::int = extract(dow from p_night)::int
+    union all
+    select (e->>'start_min')::int, (e->>'end_min')::int
+    from jsonb_array_elements(coalesce(p_schedule->'exceptions', '[]'::jsonb)) e
+    where e->>'kind' = 'added' and e ? 'start_min' and e ? 'end_min'
+      and p_night between (e->>'start_date')::date and (e->>'end_date')::date
+  )
+  select (p_night + make_interval(mins => m.start_min)) at time zone 'America/New_York',
+         (p_night + make_interval(mins => m.end_min)) at time zone 'America/New_York'
+  from mins m
+  where not exists (
+    select 1 from jsonb_array_elements(coalesce(p_schedule->'exceptions', '[]'::jsonb)) e
+    where e->>'kind' = 'cancelled' and p_night between (e->>'start_date')::date and (e->>'end_date')::date
+  );
+$$;
+
+-- Credited (fractional) minutes per cadet and ET night inside [p_from, p_to); null bounds are
+-- open-ended.
+create or replace function public.asp_credited_nights(p_from timestamptz, p_to timestamptz)
+returns table (cadet_id uuid, night date, minutes numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with cfg as (select asp_schedule() as s),
+  sess as (
+    select s.cadet_id, s.sign_in, coalesce(s.sign_out, now()) as sign_out,
+           (s.sign_in at time zone 'America/New_York')::date as night
+    from sessions s
+    where s.voided = false
+      and s.sign_in < coalesce(p_to, 'infinity'::timestamptz)
+      and coalesce(s.sign_out, now()) > coalesce(p_from, '-infinity'::timestamptz)
+  ),
+  per_window as (
+    select x.cadet_id, x.night,
+           greatest(0, extract(epoch from (
+             least(x.sign_out, w.ends_at, coalesce(p_to, 'infinity'::timestamptz))
+             - greatest(x.sign_in, w.starts_at, coalesce(p_from, '-infinity'::timestamptz))
+           )) / 60) as minutes
+    from sess x
+    cross join cfg
+    cross join lateral asp_windows_on(cfg.s, x.night) w
+  )
+  select p.cadet_id, p.night, least(sum(p.minutes), (select (s->>'nightly_cap_min')::numeric from cfg))
+  from per_window p
+  group by p.cadet_id, p.night
+  having sum(p.minutes) > 0;
+$$;
+
+-- Same columns as before; totals now come from the credited nights.
+create or replace function public.asp_leaderboard_range(p_from timestamptz, p_to timestamptz)
+returns table (cadet_id uuid, name text, klass text, company text, total_min integer, nights integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.id, c.name, c.klass::text, c.company, floor(sum(n.minutes))::integer as total_min,
+         count(*)::integer as nights
+  from asp_credited_nights(p_from, p_to) n
+  join cadets c on c.id = n.cadet_id
+  group by c.id, c.name, c.klass, c.company
+  having floor(sum(n.minutes)) > 0
+  order by total_min desc;
+$$;
+
+grant execute on function public.asp_leaderboard_range(timestamptz, timestamptz) to anon, authenticated;
@@ -0,0 +1,16 @@
+-- Non-voided sessions per cadet, counted in SQL for the duplicate finder (one row per cadet
+-- instead of one per session).
+create or replace function public.asp_session_counts()
+returns table (cadet_id uuid, sessions integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.cadet_id, count(*)::integer
+  from sessions s
+  where s.voided = false
+  group by s.cadet_id;
+$$;
+
+revoke execute on function public.asp_session_counts() from public, anon, authenticated;
@@ -0,0 +1,21 @@
+-- Cadets whose sessions are all voided (taken off the leaderboard with Remove), aggregated in
+-- SQL for Admin → Removed, with the time of the latest removal from the audit log.
+create or replace function public.asp_removed_cadets()
+returns table (id uuid, name text, klass text, company text, voided_sessions integer, removed_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.id, c.name, c.klass::text, c.company, v.voided_sessions,
+         (select max(a.created_at) from audit_log a where a.action = 'cadet.remove' and a.cadet_id = c.id)
+  from (
+    select s.cadet_id, count(*)::integer as voided_sessions
+    from sessions s
+    group by s.cadet_id
+    having bool_and(s.voided)
+  ) v
+  join cadets c on c.id = v.cadet_id;
+$$;
+
+revoke execute on function public.asp_removed_cadets() from public, anon, authenticated;
@@ -0,0 +1,34 @@
+-- Records a redemption only if it fits the cadet's balance. The cadet row is locked first,
+-- so two admins redeeming for the same cadet at once are checked one after the other against
+-- the ledger as it stands. p_earned is computed by the server from the incentive rules.
+-- Returns {redeemed, redemption}; redemption is null when the units do not fit.
+create or replace function public.asp_record_redemption(
+  p_cadet uuid, p_units integer, p_redeemed_on date, p_approver text, p_note text, p_created_by text, p_earned integer
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_redeemed integer;
+  v_row      pmi_redemptions;
+begin
+  perform 1 from cadets where id = p_cadet for update;
+  if not found then
+    raise exception 'Cadet not found';
+  end if;
+
+  select coalesce(sum(units), 0)::integer into v_redeemed from pmi_redemptions where cadet_id = p_cadet;
+  if v_redeemed + p_units > p_earned then
+    return jsonb_build_object('redeemed', v_redeemed, 'redemption', null);
+  end if;
+
+  insert into pmi_redemptions (cadet_id, units, redeemed_on, approver, note, created_by)
+  values (p_cadet, p_units, p_redeemed_on, p_approver, p_note, p_created_by)
+  returning * into v_row;
+  return jsonb_build_object('redeemed', v_redeemed, 'redemption', to_jsonb(v_row));
+end;
+$$;
+
+revoke execute on function public.asp_record_redemption(uuid, integer, date, text, text, text, integer) from public, anon, authenticated;
@@ -0,0 +1,13 @@
+-- Shared screens set up by an admin (the room display), each with its own long-lived signed
+-- token in an HTTP-only cookie. Revoking a row locks that screen out at its next request.
+create table if not exists public.devices (
+  id          uuid primary key default gen_random_uuid(),
+  role        text not null,
+  label       text not null,
+  created_by  text not null,
+  created_at  timestamptz not null default now(),
+  revoked_by  text,
+  revoked_at  timestamptz
+);
+
+alter table public.devices enable row level security; -- server only (/api/admin/devices)
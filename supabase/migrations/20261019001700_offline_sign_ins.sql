@@ -0,0 +1,23 @@
+-- Offline sign-ins that reached the server more than a few minutes after they were recorded.
+-- They are held here until an admin approves (creating the session at the recorded time) or
+-- rejects them. `id` is the session id the device chose; `sign_out_at` is filled in when the
+-- same device's queued sign-out arrives first.
+create table if not exists public.offline_sign_ins (
+  id          uuid primary key,
+  input       jsonb not null,
+  cadet_id    uuid references public.cadets (id) on delete set null,
+  name        text not null,
+  klass       text not null,
+  company     text not null,
+  sign_in_at  timestamptz not null,
+  sign_out_at timestamptz,
+  status      text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  session_id  uuid, -- the session created (or resumed) on approval
+  created_at  timestamptz not null default now(),
+  resolved_by text,
+  resolved_at timestamptz
+);
+
+create index if not exists offline_sign_ins_pending_idx on public.offline_sign_ins (created_at) where status = 'pending';
+
+alter table public.offline_sign_ins enable row level security; -- server (service role) only
@@ -0,0 +1,469 @@
+-- Admin mutations and their audit_log rows in one transaction: each function below applies a
+-- change and records it, so either both are saved or neither is. All are server (service role)
+-- only; `p_actor` is the admin username.
+
+create or replace function public.asp_audit(
+  p_actor text, p_action text, p_cadet uuid, p_session uuid, p_before jsonb, p_after jsonb, p_note text default null
+)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into audit_log (actor, action, cadet_id, session_id, before, after, note)
+  values (p_actor, p_action, p_cadet, p_session, p_before, p_after, p_note);
+$$;
+
+-- ---------- Sessions ----------
+
+-- Replaces the four-argument version from 20261019000500: same changes, plus a session.edit
+-- row per changed session and override.set / override.clear.
+drop function if exists public.asp_save_cadet_edits(uuid, jsonb, boolean, integer);
+create or replace function public.asp_save_cadet_edits(
+  p_cadet        uuid,
+  p_updates      jsonb,    -- [{ "id": uuid, "sign_in": timestamptz, "sign_out": timestamptz | null }]
+  p_set_override boolean,  -- false leaves the override alone
+  p_override     integer,  -- null clears it (when p_set_override)
+  p_actor        text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row     jsonb;
+  v_before  sessions;
+  v_prev    integer;
+  v_updated integer := 0;
+begin
+  perform 1 from cadets where id = p_cadet for update;
+  if not found then
+    raise exception 'Cadet not found';
+  end if;
+
+  for v_row in select value from jsonb_array_elements(coalesce(p_updates, '[]'::jsonb)) loop
+    select * into v_before from sessions
+      where id = (v_row->>'id')::uuid and cadet_id = p_cadet and voided = false for update;
+    if not found then
+      raise exception 'Session % not found for this cadet', v_row->>'id';
+    end if;
+    update sessions set
+      sign_in  = (v_row->>'sign_in')::timestamptz,
+      sign_out = (v_row->>'sign_out')::timestamptz
+    where id = v_before.id;
+    perform asp_audit(p_actor, 'session.edit', p_cadet, v_before.id,
+      jsonb_build_object('sign_in', v_before.sign_in, 'sign_out', v_before.sign_out),
+      jsonb_build_object('sign_in', v_row->'sign_in', 'sign_out', v_row->'sign_out'));
+    v_updated := v_updated + 1;
+  end loop;
+
+  if p_set_override then
+    select minutes_override into v_prev from leaderboard_overrides where cadet_id = p_cadet;
+    if p_override is null then
+      delete from leaderboard_overrides where cadet_id = p_cadet;
+    else
+      insert into leaderboard_overrides (cadet_id, minutes_override) values (p_cadet, greatest(p_override, 0))
+      on conflict (cadet_id) do update set minutes_override = excluded.minutes_override;
+    end if;
+    perform asp_audit(p_actor, case when p_override is null then 'override.clear' else 'override.set' end, p_cadet, null,
+      jsonb_build_object('minutes_override', v_prev), jsonb_build_object('minutes_override', case when p_override is not null then greatest(p_override, 0) end));
+  end if;
+
+  return jsonb_build_object('updated', v_updated);
+end;
+$$;
+
+create or replace function public.asp_create_session(
+  p_id uuid, p_cadet uuid, p_sign_in timestamptz, p_sign_out timestamptz, p_actor text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row sessions;
+begin
+  insert into sessions (id, cadet_id, sign_in, sign_out) values (p_id, p_cadet, p_sign_in, p_sign_out)
+  returning * into v_row;
+  perform asp_audit(p_actor, 'session.create', p_cadet, p_id, null,
+    jsonb_build_object('sign_in', p_sign_in, 'sign_out', p_sign_out));
+  return to_jsonb(v_row);
+end;
+$$;
+
+-- Voids (or un-voids) the listed sessions that are not already in that state, one
+-- session.void / session.unvoid row each. Returns how many changed.
+create or replace function public.asp_set_sessions_voided(
+  p_ids uuid[], p_voided boolean, p_actor text, p_note text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_changed integer;
+begin
+  with changed as (
+    update sessions set voided = p_voided
+    where id = any(p_ids) and voided = not p_voided
+    returning id, cadet_id
+  )
+  insert into audit_log (actor, action, cadet_id, session_id, before, after, note)
+  select p_actor, case when p_voided then 'session.void' else 'session.unvoid' end, c.cadet_id, c.id,
+         jsonb_build_object('voided', not p_voided), jsonb_build_object('voided', p_voided), p_note
+  from changed c;
+  get diagnostics v_changed = row_count;
+  return v_changed;
+end;
+$$;
+
+-- Remove: voids every live session of the cadet. The ids go in the audit row so Restore
+-- can undo exactly this removal.
+create or replace function public.asp_remove_cadet(p_cadet uuid, p_actor text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids jsonb;
+begin
+  with removed as (
+    update sessions set voided = true where cadet_id = p_cadet and voided = false returning id
+  )
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from removed;
+  perform asp_audit(p_actor, 'cadet.remove', p_cadet, null,
+    jsonb_build_object('voided', false, 'session_ids', v_ids), jsonb_build_object('voided', true, 'session_ids', v_ids));
+  return jsonb_array_length(v_ids);
+end;
+$$;
+
+-- Reverses the most recent Remove: un-voids the sessions it voided, or every voided session
+-- when there is no record of it.
+create or replace function public.asp_restore_cadet(p_cadet uuid, p_actor text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_last jsonb;
+  v_ids  jsonb;
+begin
+  select after->'session_ids' into v_last from audit_log
+    where action = 'cadet.remove' and cadet_id = p_cadet
+    order by created_at desc limit 1;
+  if jsonb_typeof(v_last) <> 'array' or jsonb_array_length(v_last) = 0 then
+    v_last := null;
+  end if;
+
+  with restored as (
+    update sessions set voided = false
+    where cadet_id = p_cadet and voided = true
+      and (v_last is null or id::text in (select jsonb_array_elements_text(v_last)))
+    returning id
+  )
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from restored;
+  perform asp_audit(p_actor, 'cadet.restore', p_cadet, null,
+    jsonb_build_object('voided', true, 'session_ids', v_ids), jsonb_build_object('voided', false, 'session_ids', v_ids));
+  return jsonb_array_length(v_ids);
+end;
+$$;
+
+create or replace function public.asp_import_sessions(
+  p_batch    uuid,
+  p_filename text,
+  p_sessions jsonb,  -- [{ "id": uuid, "cadet_id": uuid, "sign_in": timestamptz, "sign_out": timestamptz }]
+  p_lines    jsonb,  -- sheet line numbers, for the audit row
+  p_actor    text
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_created integer;
+begin
+  insert into import_batches (id, created_by, filename, row_count)
+  values (p_batch, p_actor, p_filename, jsonb_array_length(p_sessions));
+  insert into sessions (id, cadet_id, sign_in, sign_out, import_batch)
+  select s.id, s.cadet_id, s.sign_in, s.sign_out, p_batch
+  from jsonb_populate_recordset(null::sessions, p_sessions) s;
+  get diagnostics v_created = row_count;
+  perform asp_audit(p_actor, 'session.import', null, null, null,
+    jsonb_build_object('batch_id', p_batch, 'filename', p_filename, 'created', v_created, 'lines', p_lines));
+  return v_created;
+end;
+$$;
+
+create or replace function public.asp_void_import_batch(p_batch uuid, p_actor text)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  select asp_set_sessions_voided(
+    coalesce((select array_agg(id) from sessions where import_batch = p_batch and voided = false), '{}'),
+    true, p_actor, 'Import batch ' || p_batch);
+$$;
+
+-- ---------- Cadets ----------
+
+-- Replaces the two-argument version from 20261019000400 and records the cadet.merge row.
+drop function if exists public.asp_merge_cadets(uuid, uuid[]);
+create or replace function public.asp_merge_cadets(p_survivor uuid, p_losers uuid[], p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before   jsonb;
+  v_moved    integer;
+  v_override integer;
+  v_number   text;
+  v_year     integer;
+  v_roster   boolean;
+begin
+  if p_survivor = any(p_losers) then
+    raise exception 'Survivor cannot also be merged away';
+  end if;
+  perform 1 from cadets where id = p_survivor for update;
+  if not found then
+    raise exception 'Surviving cadet not found';
+  end if;
+  select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'klass', klass, 'company', company, 'cadet_number', cadet_number))
+    into v_before from cadets where id = p_survivor or id = any(p_losers);
+
+  update sessions set cadet_id = p_survivor where cadet_id = any(p_losers);
+  get diagnostics v_moved = row_count;
+
+  if not exists (select 1 from leaderboard_overrides where cadet_id = p_survivor) then
+    select max(minutes_override) into v_override from leaderboard_overrides where cadet_id = any(p_losers);
+    if v_override is not null then
+      insert into leaderboard_overrides (cadet_id, minutes_override) values (p_survivor, v_override);
+    end if;
+  end if;
+  delete from leaderboard_overrides where cadet_id = any(p_losers);
+
+  update roster_requests set cadet_id = p_survivor where cadet_id = any(p_losers);
+
+  select cadet_number, class_year into v_number, v_year
+    from cadets where id = any(p_losers) and cadet_number is not null limit 1;
+  select coalesce(bool_or(roster_active), false) into v_roster from cadets where id = any(p_losers);
+  delete from cadets where id = any(p_losers);
+  update cadets set
+    cadet_number  = coalesce(cadet_number, v_number),
+    class_year    = coalesce(class_year, v_year),
+    roster_active = roster_active or v_roster
+  where id = p_survivor;
+
+  perform asp_audit(p_actor, 'cadet.merge', p_survivor, null, jsonb_build_object('cadets', v_before),
+    jsonb_build_object('survivor_id', p_survivor, 'merged_ids', to_jsonb(p_losers), 'sessions_moved', v_moved, 'override_moved', v_override));
+  return jsonb_build_object('sessions_moved', v_moved, 'override_moved', v_override);
+end;
+$$;
+
+-- Upserts the roster rows the server matched (ids included); `p_created` / `p_updated` are
+-- its counts, for the audit row.
+create or replace function public.asp_import_roster(p_cadets jsonb, p_created integer, p_updated integer, p_actor text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into cadets (id, name, klass, company, cadet_number, class_year, roster_active)
+  select c.id, c.name, c.klass, c.company, c.cadet_number, c.class_year, true
+  from jsonb_populate_recordset(null::cadets, p_cadets) c
+  on conflict (id) do update set
+    name = excluded.name, klass = excluded.klass, company = excluded.company,
+    cadet_number = excluded.cadet_number, class_year = excluded.class_year, roster_active = true;
+  perform asp_audit(p_actor, 'roster.import', null, null, null,
+    jsonb_build_object('created', p_created, 'updated', p_updated, 'rows', jsonb_array_length(p_cadets)));
+end;
+$$;
+
+-- Approving reuses an existing (pre-roster) cadet with the same name so history is kept.
+-- Returns {resolved, cadet_id}; resolved is false when the request is gone or not pending.
+create or replace function public.asp_resolve_roster_request(p_id uuid, p_approve boolean, p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_req   roster_requests;
+  v_cadet uuid;
+begin
+  select * into v_req from roster_requests where id = p_id and status = 'pending' for update;
+  if not found then
+    return jsonb_build_object('resolved', false, 'cadet_id', null);
+  end if;
+
+  if p_approve then
+    select id into v_cadet from cadets
+      where name ilike v_req.name and klass::text = v_req.klass and company = v_req.company limit 1;
+    v_cadet := coalesce(v_cadet, gen_random_uuid());
+    insert into cadets (id, name, klass, company, roster_active) values (v_cadet, v_req.name, v_req.klass, v_req.company, true)
+    on conflict (id) do update set
+      name = excluded.name, klass = excluded.klass, company = excluded.company, roster_active = true;
+  end if;
+
+  update roster_requests set
+    status = case when p_approve then 'approved' else 'rejected' end,
+    cadet_id = v_cadet, resolved_by = p_actor, resolved_at = now()
+  where id = p_id;
+  perform asp_audit(p_actor, case when p_approve then 'roster.approve' else 'roster.reject' end, v_cadet, null,
+    jsonb_build_object('request_id', p_id, 'name', v_req.name, 'klass', v_req.klass, 'company', v_req.company, 'status', 'pending'),
+    jsonb_build_object('status', case when p_approve then 'approved' else 'rejected' end));
+  return jsonb_build_object('resolved', true, 'cadet_id', v_cadet);
+end;
+$$;
+
+-- ---------- Redemptions ----------
+
+-- Same as 20261019001500, plus the redemption.create row (actor = p_created_by).
+create or replace function public.asp_record_redemption(
+  p_cadet uuid, p_units integer, p_redeemed_on date, p_approver text, p_note text, p_created_by text, p_earned integer
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_redeemed integer;
+  v_row      pmi_redemptions;
+begin
+  perform 1 from cadets where id = p_cadet for update;
+  if not found then
+    raise exception 'Cadet not found';
+  end if;
+
+  select coalesce(sum(units), 0)::integer into v_redeemed from pmi_redemptions where cadet_id = p_cadet;
+  if v_redeemed + p_units > p_earned then
+    return jsonb_build_object('redeemed', v_redeemed, 'redemption', null);
+  end if;
+
+  insert into pmi_redemptions (cadet_id, units, redeemed_on, approver, note, created_by)
+  values (p_cadet, p_units, p_redeemed_on, p_approver, p_note, p_created_by)
+  returning * into v_row;
+  perform asp_audit(p_created_by, 'redemption.create', p_cadet, null, null, to_jsonb(v_row));
+  return jsonb_build_object('redeemed', v_redeemed, 'redemption', to_jsonb(v_row));
+end;
+$$;
+
+-- The deleted row, or null when there was none; the audit row keeps what was deleted.
+create or replace function public.asp_delete_redemption(p_id uuid, p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row pmi_redemptions;
+begin
+  delete from pmi_redemptions where id = p_id returning * into v_row;
+  if not found then
+    return null;
+  end if;
+  perform asp_audit(p_actor, 'redemption.delete', v_row.cadet_id, null, to_jsonb(v_row), null);
+  return to_jsonb(v_row);
+end;
+$$;
+
+-- ---------- Settings, companies, devices ----------
+
+create or replace function public.asp_save_setting(p_key text, p_value jsonb, p_action text, p_actor text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before jsonb;
+begin
+  select value into v_before from asp_settings where key = p_key for update;
+  insert into asp_settings (key, value, updated_at, updated_by) values (p_key, p_value, now(), p_actor)
+  on conflict (key) do update set value = excluded.value, updated_at = excluded.updated_at, updated_by = excluded.updated_by;
+  perform asp_audit(p_actor, p_action, null, null, v_before, p_value);
+end;
+$$;
+
+create or replace function public.asp_save_company(p_code text, p_display_name text, p_active boolean, p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before jsonb;
+  v_after  jsonb := jsonb_build_object('code', p_code, 'display_name', p_display_name, 'active', p_active);
+begin
+  select jsonb_build_object('code', code, 'display_name', display_name, 'active', active) into v_before
+    from companies where code = p_code for update;
+  insert into companies (code, display_name, active) values (p_code, p_display_name, p_active)
+  on conflict (code) do update set display_name = excluded.display_name, active = excluded.active;
+  perform asp_audit(p_actor, 'company.save', null, null, v_before, v_after);
+  return v_after;
+end;
+$$;
+
+create or replace function public.asp_register_device(p_role text, p_label text, p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row devices;
+begin
+  insert into devices (role, label, created_by) values (p_role, p_label, p_actor) returning * into v_row;
+  perform asp_audit(p_actor, 'device.register', null, null, null,
+    jsonb_build_object('id', v_row.id, 'role', p_role, 'label', p_label));
+  return to_jsonb(v_row);
+end;
+$$;
+
+-- The revoked device, or null when it was not found or already revoked.
+create or replace function public.asp_revoke_device(p_id uuid, p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row devices;
+begin
+  update devices set revoked_by = p_actor, revoked_at = now()
+  where id = p_id and revoked_at is null
+  returning * into v_row;
+  if not found then
+    return null;
+  end if;
+  perform asp_audit(p_actor, 'device.revoke', null, null,
+    jsonb_build_object('id', p_id, 'role', v_row.role, 'label', v_row.label), jsonb_build_object('revoked_at', v_row.revoked_at));
+  return to_jsonb(v_row);
+end;
+$$;
+
+revoke execute on function public.asp_audit(text, text, uuid, uuid, jsonb, jsonb, text) from public, anon, authenticated;
+revoke execute on function public.asp_save_cadet_edits(uuid, jsonb, boolean, integer, text) from public, anon, authenticated;
+revoke execute on function public.asp_create_session(uuid, uuid, timestamptz, timestamptz, text) from public, anon, authenticated;
+revoke execute on function public.asp_set_sessions_voided(uuid[], boolean, text, text) from public, anon, authenticated;
+revoke execute on function public.asp_remove_cadet(uuid, text) from public, anon, authenticated;
+revoke execute on function public.asp_restore_cadet(uuid, text) from public, anon, authenticated;
+revoke execute on function public.asp_import_sessions(uuid, text, jsonb, jsonb, text) from public, anon, authenticated;
+revoke execute on function public.asp_void_import_batch(uuid, text) from public, anon, authenticated;
+revoke execute on function public.asp_merge_cadets(uuid, uuid[], text) from public, anon, authenticated;
+revoke execute on function public.asp_import_roster(jsonb, integer, integer, text) from public, anon, authenticated;
+revoke execute on function public.asp_resolve_roster_request(uuid, boolean, text) from public, anon, authenticated;
+revoke execute on function public.asp_delete_redemption(uuid, text) from public, anon, authenticated;
+revoke execute on function public.asp_save_setting(text, jsonb, text, text) from public, anon, authenticated;
+revoke execute on function public.asp_save_company(text, text, boolean, text) from public, anon, authenticated;
+revoke execute on function public.asp_register_device(text, text, text) from public, anon, authenticated;
+revoke execute on function public.asp_revoke_device(uuid, text) from public, anon, authenticated;
@@ -0,0 +1,55 @@
+-- One cadet's credited minutes for several ranges at once (the incentive rules), so the
+-- dashboard and redemptions don't compute the whole corps once per rule.
+
+-- Same as 20261019001200 with an optional cadet filter applied before any clipping.
+-- asp_leaderboard_range keeps calling it with two arguments.
+drop function if exists public.asp_credited_nights(timestamptz, timestamptz);
+create or replace function public.asp_credited_nights(p_from timestamptz, p_to timestamptz, p_cadet uuid default null)
+returns table (cadet_id uuid, night date, minutes numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with cfg as (select asp_schedule() as s),
+  sess as (
+    select s.cadet_id, s.sign_in, coalesce(s.sign_out, now()) as sign_out,
+           (s.sign_in at time zone 'America/New_York')::date as night
+    from sessions s
+    where s.voided = false
+      and (p_cadet is null or s.cadet_id = p_cadet)
+      and s.sign_in < coalesce(p_to, 'infinity'::timestamptz)
+      and coalesce(s.sign_out, now()) > coalesce(p_from, '-infinity'::timestamptz)
+  ),
+  per_window as (
+    select x.cadet_id, x.night,
+           greatest(0, extract(epoch from (
+             least(x.sign_out, w.ends_at, coalesce(p_to, 'infinity'::timestamptz))
+             - greatest(x.sign_in, w.starts_at, coalesce(p_from, '-infinity'::timestamptz))
+           )) / 60) as minutes
+    from sess x
+    cross join cfg
+    cross join lateral asp_windows_on(cfg.s, x.night) w
+  )
+  select p.cadet_id, p.night, least(sum(p.minutes), (select (s->>'nightly_cap_min')::numeric from cfg))
+  from per_window p
+  group by p.cadet_id, p.night
+  having sum(p.minutes) > 0;
+$$;
+
+-- p_ranges: [{ "id": rule id, "from": timestamptz | null, "to": timestamptz | null }]. One row per
+-- range, totals as asp_leaderboard_range computes them (0 when the cadet has no time there).
+create or replace function public.asp_cadet_range_totals(p_cadet uuid, p_ranges jsonb)
+returns table (id text, total_min integer, nights integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.id, coalesce(floor(sum(n.minutes)), 0)::integer, count(n.night)::integer
+  from jsonb_to_recordset(p_ranges) as r(id text, "from" timestamptz, "to" timestamptz)
+  left join lateral asp_credited_nights(r."from", r."to", p_cadet) n on true
+  group by r.id;
+$$;
+
+grant execute on function public.asp_cadet_range_totals(uuid, jsonb) to anon, authenticated;
@@ -0,0 +1,70 @@
+-- Resolving a held offline sign-in (see sync.ts). The server claims the row before applying
+-- the sign-in, so two admins resolving it at once cannot both apply and audit it.
+
+-- Moves a pending row to approved or rejected and returns it (input included), or null when it
+-- is gone or already claimed. A rejection is audited here; an approval once its session exists
+-- (asp_finish_offline_sign_in).
+create or replace function public.asp_claim_offline_sign_in(p_id uuid, p_approve boolean, p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row offline_sign_ins;
+begin
+  update offline_sign_ins set
+    status = case when p_approve then 'approved' else 'rejected' end,
+    resolved_by = p_actor, resolved_at = now()
+  where id = p_id and status = 'pending'
+  returning * into v_row;
+  if not found then
+    return null;
+  end if;
+
+  if not p_approve then
+    perform asp_audit(p_actor, 'session.offline_reject', v_row.cadet_id, null,
+      jsonb_build_object('sign_in', v_row.sign_in_at, 'sign_out', v_row.sign_out_at, 'status', 'pending'),
+      jsonb_build_object('status', 'rejected'));
+  end if;
+  return to_jsonb(v_row);
+end;
+$$;
+
+-- Records the session an approval created (or resumed) with its audit row. With p_session null
+-- the sign-in could not be applied, and the row goes back to pending for another try.
+create or replace function public.asp_finish_offline_sign_in(p_id uuid, p_session uuid, p_actor text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row     offline_sign_ins;
+  v_session sessions;
+begin
+  if p_session is null then
+    update offline_sign_ins set status = 'pending', resolved_by = null, resolved_at = null
+    where id = p_id and status = 'approved' and session_id is null;
+    return;
+  end if;
+
+  select * into v_session from sessions where id = p_session;
+  if not found then
+    raise exception 'Session % not found', p_session;
+  end if;
+  update offline_sign_ins set session_id = p_session
+  where id = p_id and status = 'approved' and session_id is null
+  returning * into v_row;
+  if not found then
+    raise exception 'Offline sign-in % is not being approved', p_id;
+  end if;
+
+  perform asp_audit(p_actor, 'session.offline_approve', v_session.cadet_id, p_session,
+    jsonb_build_object('sign_in', v_row.sign_in_at, 'sign_out', v_row.sign_out_at, 'status', 'pending'),
+    jsonb_build_object('status', 'approved', 'sign_in', v_session.sign_in, 'sign_out', v_session.sign_out));
+end;
+$$;
+
+revoke execute on function public.asp_claim_offline_sign_in(uuid, boolean, text) from public, anon, authenticated;
+revoke execute on function public.asp_finish_offline_sign_in(uuid, uuid, text) from public, anon, authenticated;
@@ -0,0 +1,62 @@
+-- Same as 20261019001800, plus held offline sign-ins (cadet_id and the cadetId in their input)
+-- move to the survivor; before, deleting the losers left them pointing at no cadet.
+create or replace function public.asp_merge_cadets(p_survivor uuid, p_losers uuid[], p_actor text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before   jsonb;
+  v_moved    integer;
+  v_override integer;
+  v_number   text;
+  v_year     integer;
+  v_roster   boolean;
+  v_held     integer;
+begin
+  if p_survivor = any(p_losers) then
+    raise exception 'Survivor cannot also be merged away';
+  end if;
+  perform 1 from cadets where id = p_survivor for update;
+  if not found then
+    raise exception 'Surviving cadet not found';
+  end if;
+  select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'klass', klass, 'company', company, 'cadet_number', cadet_number))
+    into v_before from cadets where id = p_survivor or id = any(p_losers);
+
+  update sessions set cadet_id = p_survivor where cadet_id = any(p_losers);
+  get diagnostics v_moved = row_count;
+
+  if not exists (select 1 from leaderboard_overrides where cadet_id = p_survivor) then
+    select max(minutes_override) into v_override from leaderboard_overrides where cadet_id = any(p_losers);
+    if v_override is not null then
+      insert into leaderboard_overrides (cadet_id, minutes_override) values (p_survivor, v_override);
+    end if;
+  end if;
+  delete from leaderboard_overrides where cadet_id = any(p_losers);
+
+  update roster_requests set cadet_id = p_survivor where cadet_id = any(p_losers);
+
+  -- Held offline sign-ins: both the cadet and the sign-in input applied on approval.
+  update offline_sign_ins set
+    cadet_id = case when cadet_id = any(p_losers) then p_survivor else cadet_id end,
+    input = case when input->>'cadetId' = any(p_losers::text[]) then jsonb_set(input, '{cadetId}', to_jsonb(p_survivor::text)) else input end
+  where cadet_id = any(p_losers) or input->>'cadetId' = any(p_losers::text[]);
+  get diagnostics v_held = row_count;
+
+  select cadet_number, class_year into v_number, v_year
+    from cadets where id = any(p_losers) and cadet_number is not null limit 1;
+  select coalesce(bool_or(roster_active), false) into v_roster from cadets where id = any(p_losers);
+  delete from cadets where id = any(p_losers);
+  update cadets set
+    cadet_number  = coalesce(cadet_number, v_number),
+    class_year    = coalesce(class_year, v_year),
+    roster_active = roster_active or v_roster
+  where id = p_survivor;
+
+  perform asp_audit(p_actor, 'cadet.merge', p_survivor, null, jsonb_build_object('cadets', v_before),
+    jsonb_build_object('survivor_id', p_survivor, 'merged_ids', to_jsonb(p_losers), 'sessions_moved', v_moved, 'override_moved', v_override, 'offline_moved', v_held));
+  return jsonb_build_object('sessions_moved', v_moved, 'override_moved', v_override);
+end;
+$$;